@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Braces, Github, Code, GitGraph, Table, Sun, Moon, UploadCloud } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { Braces, Github, Code, GitGraph, Table, GitCompare, Sun, Moon, UploadCloud } from 'lucide-react';
 import { Toolbar } from './components/Toolbar';
 import { JsonEditor } from './components/Editor';
 import { JsonGraphView } from './components/JsonTreeView';
@@ -7,8 +7,32 @@ import { JsonTableView } from './components/JsonTableView';
 import { Toast } from './components/Toast';
 import { Loader } from './components/Loader';
 import { StatusBar } from './components/StatusBar';
-import { getStats, downloadFile, isValidJson, trackEvent } from './lib/utils';
-import { ToastMessage } from './types';
+import { SchemaModal } from './components/SchemaModal';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { QueryPanel } from './components/QueryPanel';
+import { TypesPanel } from './components/TypesPanel';
+import { MockModal } from './components/MockModal';
+import { AiModal, AiTarget } from './components/AiModal';
+import { JsonDiffView, DiffMode } from './components/JsonDiffView';
+import { TabBar } from './components/TabBar';
+import { RepairModal } from './components/RepairModal';
+import { XmlModal } from './components/XmlModal';
+import { HistoryPanel, SNAPSHOT_REASON_LABELS } from './components/HistoryPanel';
+import { AnalysisOverlay, AnalysisCancelledNotice } from './components/AnalysisOverlay';
+import { LargeFileView } from './components/LargeFileView';
+import { getStats, downloadFile, formatFileSize, trackEvent } from './lib/utils';
+import { parseJsonText, isRelaxedOnly, toStrictJson, formatRelaxed, minifyRelaxed } from './lib/relaxed';
+import { getSyntaxDiagnostics, describeDiagnostic } from './lib/syntax';
+import { formatLossless, minifyLossless, parseLossless, splitItems, appendItems } from './lib/lossless';
+import { NDJSON_EXTENSIONS, parseNdjson, normalizeNdjson, ndjsonToJsonArray, looksLikeNdjson } from './lib/ndjson';
+import { AnalysisResult, AnalysisProgress } from './lib/analysis';
+import { createAnalysisClient, AnalysisCancelledError } from './lib/analysisClient';
+import { QueryLanguage } from './lib/query';
+import { EXPORT_FORMATS, findImportFormat, toJsonFileName } from './lib/convert';
+import { diffJson } from './lib/structuralDiff';
+import { UndoStack, EMPTY_UNDO_STACK, pushUndoEntry, undoEntry, redoEntry } from './lib/undoHistory';
+import { loadWorkspace, saveWorkspace, listSnapshots, addSnapshot, deleteSnapshot } from './lib/storage';
+import { ToastMessage, ToastAction, AttachedSchema, Diagnostic, ViewMode, DocumentTab, Workspace, Snapshot, SnapshotReason } from './types';
 
 const INITIAL_DATA = {
   "manufacturers": [
@@ -114,31 +138,132 @@ const INITIAL_DATA = {
   ]
 };
 
+// Each tab gets a Monaco model of its own, so undo history and scroll position survive tab switches
+const getModelPath = (tabId: string) => `document-${tabId}.json`;
+
+// Minimum time between two automatic snapshots of the same document
+const AUTO_SNAPSHOT_INTERVAL = 60 * 1000;
+
+// Extensions that always open in relaxed (JSON5 / JSONC) mode
+const RELAXED_EXTENSIONS = ['.json5', '.jsonc'];
+
+// Files above this open in the read-only large-file view instead of the editor
+const LARGE_FILE_THRESHOLD = 50 * 1024 * 1024;
+
+// Placeholders until the analysis worker reports on the active tab
+const EMPTY_STATS = getStats('');
+const NO_DIAGNOSTICS: Diagnostic[] = [];
+const EMPTY_QUERY_RESULT = { text: null, count: 0, error: null };
+
+const createTab = (name: string, content = '', indentation: number | string = 4, relaxed = false, ndjson = false): DocumentTab => ({
+  id: Math.random().toString(36).substring(2, 10),
+  name,
+  content,
+  viewMode: 'code',
+  indentation,
+  searchTerm: '',
+  tablePath: [],
+  relaxed,
+  ndjson,
+});
+
 const App: React.FC = () => {
-  // Set default indentation to 4 spaces
-  const [indentation, setIndentation] = useState<number | string>(4);
-  
   // Theme State
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
 
+  // Open documents. Everything that belongs to a document (content, view mode,
+  // indentation, search, table location) lives on its tab.
+  const [workspace, setWorkspace] = useState<Workspace>(() => {
+    const tab = createTab('sample.json', JSON.stringify(INITIAL_DATA, null, 4));
+    return { tabs: [tab], activeTabId: tab.id };
+  });
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+  const activeTab = workspace.tabs.find(t => t.id === workspace.activeTabId) || workspace.tabs[0];
+
+  const updateTab = useCallback((id: string, patch: Partial<DocumentTab>) => {
+    setWorkspace(prev => ({
+      ...prev,
+      tabs: prev.tabs.map(t => (t.id === id ? { ...t, ...patch } : t)),
+    }));
+  }, []);
+
   // jsonInput is the immediate value (for the Editor)
-  const [jsonInput, setJsonInput] = useState<string>(JSON.stringify(INITIAL_DATA, null, 4));
+  const jsonInput = activeTab.content;
+  const setJsonInput = useCallback((content: string) => updateTab(activeTab.id, { content }), [updateTab, activeTab.id]);
+
+  const indentation = activeTab.indentation;
+  const setIndentation = (value: number | string) => updateTab(activeTab.id, { indentation: value });
+
+  const viewMode = activeTab.viewMode;
+  const setViewMode = useCallback((mode: ViewMode) => updateTab(activeTab.id, { viewMode: mode }), [updateTab, activeTab.id]);
+
+  // Workspaces saved before these modes existed have no flags at all
+  const isRelaxed = !!activeTab.relaxed;
+  const isNdjson = !!activeTab.ndjson;
+
+  const searchTerm = activeTab.searchTerm;
+  const setSearchTerm = (value: string) => updateTab(activeTab.id, { searchTerm: value });
   
   // debouncedInput is the delayed value (for Graph, Stats, Validation, Table)
-  // This prevents the app from freezing on every keystroke with large files
-  const [debouncedInput, setDebouncedInput] = useState<string>(jsonInput);
+  // This prevents the app from freezing on every keystroke with large files.
+  // It is tagged with its tab so a freshly selected tab never shows another tab's data.
+  const [debounced, setDebounced] = useState({ tabId: activeTab.id, text: activeTab.content });
+  const debouncedInput = debounced.tabId === activeTab.id ? debounced.text : jsonInput;
 
-  const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [searchTrigger, setSearchTrigger] = useState(0);
   const [searchMatchCount, setSearchMatchCount] = useState<number | null>(null);
 
   const [error, setError] = useState<string | null>(null);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
-  const [viewMode, setViewMode] = useState<'code' | 'graph' | 'table'>('code');
   const [isEditorReady, setIsEditorReady] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const dragCounter = useRef(0);
+  // Huge file shown in large-file mode; never stored in the workspace
+  const [largeFile, setLargeFile] = useState<File | null>(null);
+
+  // Schema validation
+  const [attachedSchema, setAttachedSchema] = useState<AttachedSchema | null>(null);
+  const [isSchemaModalOpen, setIsSchemaModalOpen] = useState(false);
+  const [isProblemsOpen, setIsProblemsOpen] = useState(false);
+  const [revealTarget, setRevealTarget] = useState<{ id: number; lineNumber: number; column: number } | null>(null);
+
+  // Query console
+  const [queryExpression, setQueryExpression] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [queryLanguage, setQueryLanguage] = useState<QueryLanguage>('jsonpath');
+  const [isQueryOpen, setIsQueryOpen] = useState(false);
+  const [askQueryTrigger, setAskQueryTrigger] = useState(0);
+
+  // Compare mode: the document shown on the left of the diff editor
+  const [compareInput, setCompareInput] = useState('');
+  const [compareLabel, setCompareLabel] = useState('');
+  const [diffMode, setDiffMode] = useState<DiffMode>('text');
+  const [diffArrayKey, setDiffArrayKey] = useState('id');
+  const [isDiffOverlayOn, setIsDiffOverlayOn] = useState(false);
+
+  // Snapshot history
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isTypesOpen, setIsTypesOpen] = useState(false);
+
+  const [isRepairOpen, setIsRepairOpen] = useState(false);
+  // Repair opened from "Fix with AI" asks the model straight away
+  const [isAiRepair, setIsAiRepair] = useState(false);
+  const [isAiOpen, setIsAiOpen] = useState(false);
+  // XML converter; xmlSource holds an imported .xml file waiting for conversion
+  const [isXmlOpen, setIsXmlOpen] = useState(false);
+  const [isMockOpen, setIsMockOpen] = useState(false);
+  const [xmlSource, setXmlSource] = useState<string | null>(null);
+  // Latest snapshot per tab, used to throttle autosaves and skip duplicates
+  const lastSnapshotRef = useRef<Record<string, { content: string; time: number }>>({});
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+
+  // Undo/redo of whole-document operations, per tab. The ref always holds the
+  // latest stacks so late callers (e.g. a toast's Undo button) never act on stale ones.
+  const [undoStacks, setUndoStacks] = useState<Record<string, UndoStack>>({});
+  const undoStacksRef = useRef(undoStacks);
 
   // Initialize Theme
   useEffect(() => {
@@ -155,16 +280,74 @@ const App: React.FC = () => {
     trackEvent('toggle_theme', { theme: newTheme });
   };
 
+  // Restore the saved workspace and its history once on startup
+  useEffect(() => {
+    Promise.all([loadWorkspace(), listSnapshots()]).then(([saved, history]) => {
+      if (saved) {
+        const activeTabId = saved.tabs.some(t => t.id === saved.activeTabId) ? saved.activeTabId : saved.tabs[0].id;
+        setWorkspace({ ...saved, activeTabId });
+      }
+      // history is newest first, so the first snapshot seen per tab is its latest
+      history.forEach(snapshot => {
+        if (!lastSnapshotRef.current[snapshot.tabId]) {
+          lastSnapshotRef.current[snapshot.tabId] = { content: snapshot.content, time: snapshot.createdAt };
+        }
+      });
+      setSnapshots(history);
+      setIsWorkspaceLoaded(true);
+    });
+  }, []);
+
+  // Persist the workspace shortly after every change
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const handler = setTimeout(() => {
+      saveWorkspace(workspace);
+    }, 500);
+
+    return () => {
+      clearTimeout(handler);
+    };
+  }, [workspace, isWorkspaceLoaded]);
+
+  // Flush pending changes when the page is hidden or closed, so nothing typed
+  // in the last half second is lost
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const flush = () => {
+      if (document.visibilityState === 'hidden') saveWorkspace(workspaceRef.current);
+    };
+    const handlePageHide = () => saveWorkspace(workspaceRef.current);
+    document.addEventListener('visibilitychange', flush);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', flush);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [isWorkspaceLoaded]);
+
+  // Free the Monaco models of closed tabs
+  useEffect(() => {
+    const monaco = window.monaco;
+    if (!monaco) return;
+    const openPaths = new Set(workspace.tabs.map(t => getModelPath(t.id)));
+    monaco.editor.getModels().forEach((model: any) => {
+      const name = model.uri.path.split('/').pop();
+      if (name?.startsWith('document-') && !openPaths.has(name)) model.dispose();
+    });
+  }, [workspace.tabs]);
+
   // Debounce input effect
   useEffect(() => {
+    const tabId = activeTab.id;
     const handler = setTimeout(() => {
-      setDebouncedInput(jsonInput);
+      setDebounced({ tabId, text: jsonInput });
     }, 800); // Wait 800ms after typing stops
 
     return () => {
       clearTimeout(handler);
     };
-  }, [jsonInput]);
+  }, [jsonInput, activeTab.id]);
 
   // Debounce search effect (shorter delay)
   useEffect(() => {
@@ -177,28 +360,244 @@ const App: React.FC = () => {
     };
   }, [searchTerm]);
 
+  // Debounce query effect (same delay as search)
+  useEffect(() => {
+    const handler = setTimeout(() => {
+      setDebouncedQuery(queryExpression);
+    }, 300);
+
+    return () => {
+      clearTimeout(handler);
+    };
+  }, [queryExpression]);
+
   // Reset match count when search term changes immediately to avoid flash of error state
   useEffect(() => {
     setSearchMatchCount(null);
   }, [searchTerm]);
 
-  // Reset match count when view changes
+  // Reset match count when view or document changes
   useEffect(() => {
     setSearchMatchCount(null);
-  }, [viewMode]);
+  }, [viewMode, activeTab.id]);
 
-  // Calculate stats based on the debounced input to save performance
-  const stats = getStats(debouncedInput);
+  const activeUndoStack = undoStacks[activeTab.id] || EMPTY_UNDO_STACK;
 
-  const addToast = useCallback((type: ToastMessage['type'], message: string) => {
+  const addToast = useCallback((type: ToastMessage['type'], message: string, action?: ToastAction) => {
     const id = Math.random().toString(36).substring(7);
-    setToasts(prev => [...prev, { id, type, message }]);
+    setToasts(prev => [...prev, { id, type, message, action }]);
   }, []);
 
   const removeToast = useCallback((id: string) => {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
+  // Opens content in a new tab. An empty active tab is replaced instead of left behind.
+  const openDocument = useCallback((name: string, content: string, relaxed = false, ndjson = false) => {
+    const tab = createTab(name, content, activeTab.indentation, relaxed, ndjson);
+    setWorkspace(prev => {
+      const current = prev.tabs.find(t => t.id === prev.activeTabId);
+      const tabs = current && !current.content.trim()
+        ? prev.tabs.map(t => (t.id === current.id ? tab : t))
+        : [...prev.tabs, tab];
+      return { tabs, activeTabId: tab.id };
+    });
+    setError(null);
+    return tab;
+  }, [activeTab.indentation]);
+
+  // Records a snapshot of a document. Empty documents and unchanged content are skipped.
+  const takeSnapshot = useCallback((tab: { id: string; name: string }, content: string, reason: SnapshotReason) => {
+    if (!content.trim()) return;
+    const last = lastSnapshotRef.current[tab.id];
+    if (last && last.content === content) return;
+    const snapshot: Snapshot = {
+      id: Math.random().toString(36).substring(2, 10),
+      tabId: tab.id,
+      tabName: tab.name,
+      content,
+      reason,
+      createdAt: Date.now(),
+    };
+    lastSnapshotRef.current[tab.id] = { content, time: snapshot.createdAt };
+    addSnapshot(snapshot).then(setSnapshots);
+  }, []);
+
+  const setUndoStack = useCallback((tabId: string, stack: UndoStack) => {
+    undoStacksRef.current = { ...undoStacksRef.current, [tabId]: stack };
+    setUndoStacks(undoStacksRef.current);
+  }, []);
+
+  // Sets a tab's content without the debounce delay, for operations (not typing)
+  const replaceContent = useCallback((tabId: string, content: string) => {
+    updateTab(tabId, { content });
+    if (tabId === workspaceRef.current.activeTabId) setDebounced({ tabId, text: content });
+  }, [updateTab]);
+
+  /**
+   * Replaces a document as a single undoable step. Every toolbar operation and
+   * transform goes through here. Returns the recorded entry, or null when
+   * nothing changed.
+   */
+  const applyTransform = useCallback((label: string, content: string, tabId: string = workspaceRef.current.activeTabId) => {
+    const tab = workspaceRef.current.tabs.find(t => t.id === tabId);
+    if (!tab || tab.content === content) return null;
+    const { stack, entry } = pushUndoEntry(undoStacksRef.current[tabId] || EMPTY_UNDO_STACK, label, tab.content, content);
+    setUndoStack(tabId, stack);
+    replaceContent(tabId, content);
+    return entry;
+  }, [setUndoStack, replaceContent]);
+
+  // With an entryId (from a toast) only that exact operation is undone
+  const handleUndo = useCallback((tabId: string = workspaceRef.current.activeTabId, entryId?: string) => {
+    const tab = workspaceRef.current.tabs.find(t => t.id === tabId);
+    const stack = undoStacksRef.current[tabId];
+    if (!tab || !stack) return;
+    if (entryId && stack.past[stack.past.length - 1]?.id !== entryId) {
+      addToast('info', 'Nothing to undo, the document has changed since');
+      return;
+    }
+    const result = undoEntry(stack, tab.content);
+    if (!result) return;
+    trackEvent('undo', { operation: result.entry.label });
+    setUndoStack(tabId, result.stack);
+    replaceContent(tabId, result.content);
+    setWorkspace(prev => ({ ...prev, activeTabId: tabId }));
+    setError(null);
+    addToast('info', `Undid ${result.entry.label}`);
+  }, [addToast, setUndoStack, replaceContent]);
+
+  const handleRedo = useCallback((tabId: string = workspaceRef.current.activeTabId) => {
+    const tab = workspaceRef.current.tabs.find(t => t.id === tabId);
+    const stack = undoStacksRef.current[tabId];
+    if (!tab || !stack) return;
+    const result = redoEntry(stack, tab.content);
+    if (!result) return;
+    trackEvent('redo', { operation: result.entry.label });
+    setUndoStack(tabId, result.stack);
+    replaceContent(tabId, result.content);
+    setError(null);
+    addToast('info', `Redid ${result.entry.label}`);
+  }, [addToast, setUndoStack, replaceContent]);
+
+  // Toast button that undoes exactly the operation it reports
+  const undoAction = (tabId: string, entryId: string): ToastAction => ({
+    label: 'Undo',
+    onClick: () => handleUndo(tabId, entryId),
+  });
+
+  // Ctrl/Cmd+Z outside the code editor and text fields, which have undo of their own
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], .monaco-editor')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Automatic snapshots: once the document settles, at most one per interval
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const tab = { id: activeTab.id, name: activeTab.name };
+    const content = debouncedInput;
+    const last = lastSnapshotRef.current[tab.id];
+    const wait = last ? Math.max(0, last.time + AUTO_SNAPSHOT_INTERVAL - Date.now()) : 0;
+    const handler = setTimeout(() => takeSnapshot(tab, content, 'auto'), wait);
+
+    return () => {
+      clearTimeout(handler);
+    };
+  }, [debouncedInput, activeTab.id, activeTab.name, isWorkspaceLoaded, takeSnapshot]);
+
+  const handleRestoreSnapshot = (snapshot: Snapshot) => {
+    trackEvent('history_restore', { reason: snapshot.reason });
+    const tab = workspace.tabs.find(t => t.id === snapshot.tabId);
+    const time = new Date(snapshot.createdAt).toLocaleTimeString();
+    if (!tab) {
+      // The document was closed since; bring it back in a tab of its own
+      openDocument(snapshot.tabName, snapshot.content);
+      addToast('success', `Reopened ${snapshot.tabName} from ${time}`);
+      return;
+    }
+    takeSnapshot(tab, tab.content, 'restore');
+    setWorkspace(prev => ({ ...prev, activeTabId: tab.id }));
+    const entry = applyTransform('Restore snapshot', snapshot.content, tab.id);
+    setError(null);
+    addToast('success', `Restored snapshot from ${time}`, entry ? undoAction(tab.id, entry.id) : undefined);
+  };
+
+  const handleCompareSnapshot = (snapshot: Snapshot) => {
+    trackEvent('history_compare', { reason: snapshot.reason });
+    setCompareInput(snapshot.content);
+    setCompareLabel(`${SNAPSHOT_REASON_LABELS[snapshot.reason]} (${new Date(snapshot.createdAt).toLocaleTimeString()})`);
+    setViewMode('diff');
+  };
+
+  const handleDeleteSnapshot = (id: string) => {
+    trackEvent('history_delete');
+    deleteSnapshot(id);
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleToggleHistory = () => {
+    trackEvent('toggle_history', { open: !isHistoryOpen });
+    setIsHistoryOpen(prev => !prev);
+  };
+
+  const handleToggleTypes = () => {
+    trackEvent('toggle_types', { open: !isTypesOpen });
+    setIsTypesOpen(prev => !prev);
+    setIsHistoryOpen(false);
+  };
+
+  const handleNewTab = () => {
+    trackEvent('new_tab');
+    setWorkspace(prev => {
+      const tab = createTab(`Untitled ${prev.tabs.length + 1}`, '', activeTab.indentation);
+      return { tabs: [...prev.tabs, tab], activeTabId: tab.id };
+    });
+  };
+
+  const handleSelectTab = (id: string) => {
+    setWorkspace(prev => ({ ...prev, activeTabId: id }));
+  };
+
+  const handleCloseTab = (id: string) => {
+    trackEvent('close_tab');
+    // Closed tabs can still be recovered from History, but not undone
+    undoStacksRef.current = { ...undoStacksRef.current };
+    delete undoStacksRef.current[id];
+    setUndoStacks(undoStacksRef.current);
+    setWorkspace(prev => {
+      const index = prev.tabs.findIndex(t => t.id === id);
+      const remaining = prev.tabs.filter(t => t.id !== id);
+      // Always keep one (empty) document open
+      if (remaining.length === 0) {
+        const tab = createTab('Untitled', '', activeTab.indentation);
+        return { tabs: [tab], activeTabId: tab.id };
+      }
+      const activeTabId = prev.activeTabId === id
+        ? remaining[Math.min(index, remaining.length - 1)].id
+        : prev.activeTabId;
+      return { tabs: remaining, activeTabId };
+    });
+  };
+
+  const handleRenameTab = (id: string, name: string) => {
+    trackEvent('rename_tab');
+    updateTab(id, { name });
+  };
+
   const handleEditorReady = useCallback(() => {
     // Small delay to ensure smooth transition from ASCII loader
     setTimeout(() => {
@@ -215,54 +614,415 @@ const App: React.FC = () => {
     }
   };
 
-  // Check validity on the debounced input
+  // Parsing, stats, diagnostics and the search index are computed off the main
+  // thread whenever the debounced input settles. Every view shares the one result.
+  const analysisClient = useMemo(() => createAnalysisClient(), []);
+  const [analysis, setAnalysis] = useState<{ tabId: string; result: AnalysisResult } | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [isAnalysisCancelled, setIsAnalysisCancelled] = useState(false);
+  // Bumped to rerun a cancelled analysis without an edit
+  const [analysisRun, setAnalysisRun] = useState(0);
+
+  useEffect(() => () => analysisClient.dispose(), [analysisClient]);
+
   useEffect(() => {
-    if (!debouncedInput.trim()) {
+    const tabId = activeTab.id;
+    setIsAnalysisCancelled(false);
+    setAnalysisProgress({ phase: 'parse', percent: 0 });
+    analysisClient
+      .analyze({ text: debouncedInput, relaxed: isRelaxed, ndjson: isNdjson, schema: attachedSchema?.schema ?? null }, setAnalysisProgress)
+      .then(result => {
+        setAnalysis({ tabId, result });
+        setAnalysisProgress(null);
+      })
+      .catch(err => {
+        // Superseded runs are expected; the newer run owns the progress state
+        if (err instanceof AnalysisCancelledError) return;
+        console.error('Analysis failed:', err);
+        setAnalysisProgress(null);
+      });
+  }, [debouncedInput, isRelaxed, isNdjson, attachedSchema, activeTab.id, analysisClient, analysisRun]);
+
+  const handleCancelAnalysis = () => {
+    trackEvent('cancel_analysis');
+    analysisClient.cancel();
+    setAnalysisProgress(null);
+    // The worker, and the document it held for queries and search, is gone; so is the result shown for it
+    setAnalysis(null);
+    setIsAnalysisCancelled(true);
+    addToast('info', 'Analysis cancelled. It runs again after the next edit.');
+  };
+
+  const handleRetryAnalysis = () => {
+    trackEvent('retry_analysis');
+    setAnalysisRun(run => run + 1);
+  };
+
+  // Null until the active tab has a result, so views never show another tab's data
+  const currentAnalysis = analysis?.tabId === activeTab.id ? analysis.result : null;
+  const stats = currentAnalysis?.stats ?? EMPTY_STATS;
+
+  // The Table view filters rows without counting; the worker's search index supplies the count
+  useEffect(() => {
+    if (viewMode !== 'table' || !debouncedSearchTerm || !currentAnalysis) return;
+    let isStale = false;
+    analysisClient
+      .search(debouncedSearchTerm)
+      .then(result => {
+        if (!isStale) setSearchMatchCount(result.count);
+      })
+      .catch(() => {
+        // A newer analysis replaced the index; this effect runs again for it
+      });
+    return () => {
+      isStale = true;
+    };
+  }, [viewMode, debouncedSearchTerm, currentAnalysis, analysisClient]);
+
+  // Every syntax error in the debounced input, shown as markers and in the Problems panel
+  const syntaxDiagnostics = currentAnalysis?.syntaxDiagnostics ?? NO_DIAGNOSTICS;
+
+  // The floating banner and the status bar describe the first syntax error
+  useEffect(() => {
+    const first = syntaxDiagnostics[0];
+    if (!first) {
       setError(null);
       return;
     }
-    if (isValidJson(debouncedInput)) {
-      setError(null);
-    } else {
-      // We generally don't want to show aggressive error messages while typing,
-      // but if the user stops typing and it's invalid, the Editor component
-      // might show markers. We'll update our error state for the floating banner.
-      try {
-        JSON.parse(debouncedInput);
-      } catch (e) {
-        setError((e as Error).message);
-      }
+    const message = describeDiagnostic(first);
+    if (isNdjson) {
+      const invalidLines = new Set(syntaxDiagnostics.map(d => d.startLineNumber)).size;
+      setError(invalidLines > 1 ? `${message}. ${invalidLines} lines are invalid.` : message);
+      return;
     }
-  }, [debouncedInput]);
+    setError(!isRelaxed && isRelaxedOnly(debouncedInput)
+      ? `${message}. This looks like JSON5 / JSONC, turn on JSON5 mode to accept it.`
+      : message);
+  }, [syntaxDiagnostics, debouncedInput, isRelaxed, isNdjson]);
+
+  // Describes why an operation could not parse the current text
+  const reportSyntaxError = (text: string, err: unknown, relaxed: boolean = isRelaxed) => {
+    const [first] = isNdjson ? parseNdjson(text, { relaxed }).syntaxDiagnostics : getSyntaxDiagnostics(text, { relaxed });
+    setError(first ? describeDiagnostic(first) : (err as Error).message);
+  };
+
+  // The text diff works on strict JSON. In relaxed mode it gets a strict copy
+  // of the document; invalid text is passed on so the view can report it.
+  const viewInput = useMemo(() => {
+    if (!isRelaxed || viewMode !== 'diff' || !debouncedInput.trim()) return debouncedInput;
+    try {
+      return toStrictJson(debouncedInput, indentation);
+    } catch (e) {
+      return debouncedInput;
+    }
+  }, [debouncedInput, isRelaxed, indentation, viewMode]);
+
+  // Violations of the attached schema
+  const schemaDiagnostics = currentAnalysis?.schemaDiagnostics ?? NO_DIAGNOSTICS;
+
+  // Numbers that JSON.parse would round, e.g. 64-bit IDs
+  const precisionDiagnostics = currentAnalysis?.precisionDiagnostics ?? NO_DIAGNOSTICS;
+
+  // Schema and precision checks only run on parseable documents, so they never overlap with syntax errors
+  const diagnostics = useMemo(
+    () => [...syntaxDiagnostics, ...schemaDiagnostics, ...precisionDiagnostics],
+    [syntaxDiagnostics, schemaDiagnostics, precisionDiagnostics]
+  );
+
+  const handleAttachSchema = (schema: AttachedSchema) => {
+    trackEvent('attach_schema', { name: schema.name });
+    setAttachedSchema(schema);
+    setIsSchemaModalOpen(false);
+    setIsProblemsOpen(true);
+    addToast('success', `Validating against ${schema.name}`);
+  };
+
+  // Opens the inferred schema as a document; the toast action validates the source document with it
+  const handleInferSchema = (schema: Record<string, any>, sampleCount: number) => {
+    trackEvent('infer_schema', { samples: sampleCount });
+    const sourceTabId = activeTab.id;
+    setIsSchemaModalOpen(false);
+    openDocument('Inferred schema', JSON.stringify(schema, null, indentation));
+    addToast('success', `Inferred a schema from ${sampleCount} sample${sampleCount === 1 ? '' : 's'}`, {
+      label: 'Validate with it',
+      onClick: () => {
+        setWorkspace(prev => (prev.tabs.some(t => t.id === sourceTabId) ? { ...prev, activeTabId: sourceTabId } : prev));
+        handleAttachSchema({ name: 'Inferred schema', schema });
+      },
+    });
+  };
+
+  const handleDetachSchema = () => {
+    trackEvent('detach_schema');
+    setAttachedSchema(null);
+    setIsSchemaModalOpen(false);
+    setIsProblemsOpen(false);
+  };
+
+  const revealDiagnostic = (diagnostic: Diagnostic) => {
+    setViewMode('code');
+    setRevealTarget(prev => ({
+      id: (prev?.id || 0) + 1,
+      lineNumber: diagnostic.startLineNumber,
+      column: diagnostic.startColumn,
+    }));
+  };
+
+  const handleSelectProblem = (diagnostic: Diagnostic) => {
+    trackEvent('click_problem', { source: diagnostic.source });
+    revealDiagnostic(diagnostic);
+  };
+
+  const handleJumpToError = () => {
+    const first = syntaxDiagnostics[0];
+    if (!first) return;
+    trackEvent('click_status_error', { count: syntaxDiagnostics.length });
+    revealDiagnostic(first);
+    // With several errors, list them all below the editor
+    if (syntaxDiagnostics.length > 1) setIsProblemsOpen(true);
+  };
+
+  // Run the query live in the worker, against the document it last analyzed (NDJSON is queried as an array of its records)
+  const [queryResult, setQueryResult] = useState<{ text: string | null; count: number; error: string | null }>(EMPTY_QUERY_RESULT);
+
+  useEffect(() => {
+    if (!debouncedQuery.trim()) {
+      setQueryResult(EMPTY_QUERY_RESULT);
+      return;
+    }
+    if (isAnalysisCancelled) {
+      setQueryResult({ text: null, count: 0, error: 'Analysis was cancelled. Edit the document to run it again.' });
+      return;
+    }
+    // The previous result stays up until the analysis of the current document arrives
+    if (!currentAnalysis) return;
+    if (currentAnalysis.data === undefined) {
+      setQueryResult({ text: null, count: 0, error: 'The document is not valid JSON' });
+      return;
+    }
+    let isStale = false;
+    analysisClient
+      .query(debouncedQuery, queryLanguage)
+      .then(result => {
+        if (!isStale) setQueryResult({ text: result.text, count: result.count, error: null });
+      })
+      .catch(err => {
+        // A newer analysis replaced the document; this effect runs again for it
+        if (isStale || err instanceof AnalysisCancelledError) return;
+        setQueryResult({ text: null, count: 0, error: (err as Error).message });
+      });
+    return () => {
+      isStale = true;
+    };
+  }, [currentAnalysis, isAnalysisCancelled, debouncedQuery, queryLanguage, analysisClient]);
+
+  const handleQueryChange = (value: string) => {
+    setQueryExpression(value);
+    if (value.trim()) {
+      setIsQueryOpen(true);
+      setIsHistoryOpen(false);
+    }
+  };
+
+  const handleAskQuery = () => {
+    trackEvent('click_ask_query');
+    setIsQueryOpen(true);
+    setIsHistoryOpen(false);
+    setIsTypesOpen(false);
+    setAskQueryTrigger(prev => prev + 1);
+  };
+
+  const handleQueryGenerated = (expression: string) => {
+    trackEvent('query_generated', { language: queryLanguage });
+    setQueryExpression(expression);
+  };
+
+  const handleQueryLanguageChange = (language: QueryLanguage) => {
+    trackEvent('change_query_language', { language });
+    setQueryLanguage(language);
+  };
+
+  const handleOpenQueryResult = () => {
+    if (queryResult.text === null) return;
+    trackEvent('query_open_as_document', { language: queryLanguage });
+    openDocument('Query results', formatLossless(queryResult.text, indentation));
+    setQueryExpression('');
+    setIsQueryOpen(false);
+    addToast('success', `Opened ${queryResult.count} result${queryResult.count === 1 ? '' : 's'} as document`);
+  };
+
+  // Structural diff is only computed while someone is looking at it. The current
+  // side comes from the analysis; only the compare side is parsed here.
+  const structuralDiff = useMemo(() => {
+    const isVisible = (viewMode === 'diff' && diffMode === 'structural') || isDiffOverlayOn;
+    const current = currentAnalysis?.data;
+    if (!isVisible || !compareInput.trim() || current === undefined) return null;
+    try {
+      const compare = isNdjson ? parseNdjson(compareInput, { relaxed: isRelaxed }).records : parseLossless(compareInput, { relaxed: isRelaxed });
+      return diffJson(compare, current, { arrayKey: diffArrayKey });
+    } catch (e) {
+      return null;
+    }
+  }, [viewMode, diffMode, isDiffOverlayOn, compareInput, currentAnalysis, diffArrayKey, isRelaxed, isNdjson]);
+
+  const handleShowDiffOnGraph = () => {
+    trackEvent('diff_show_on_graph');
+    setIsDiffOverlayOn(true);
+    setViewMode('graph');
+  };
 
   const handleIndentChange = (newIndent: number | string) => {
     trackEvent('change_indentation', { value: newIndent === '\t' ? 'tab' : newIndent });
     setIndentation(newIndent);
     // Auto-reformat if valid to give instant feedback
-    if (jsonInput.trim() && isValidJson(jsonInput)) {
+    if (jsonInput.trim()) {
       try {
-        const parsed = JSON.parse(jsonInput);
-        const formatted = JSON.stringify(parsed, null, newIndent);
-        setJsonInput(formatted);
-        setDebouncedInput(formatted); // Update immediately for formatting actions
+        const formatted = isRelaxed
+          ? formatRelaxed(jsonInput, newIndent)
+          : formatLossless(jsonInput, newIndent);
+        applyTransform('Change indentation', formatted);
       } catch (e) {
         // Silent fail
       }
     }
   };
 
+  const handleOpenRepair = () => {
+    trackEvent('click_repair');
+    setIsAiRepair(false);
+    setIsRepairOpen(true);
+  };
+
+  const handleFixWithAi = () => {
+    trackEvent('click_fix_with_ai');
+    setIsAiRepair(true);
+    setIsRepairOpen(true);
+  };
+
+  const handleAiGenerate = (json: string, target: AiTarget) => {
+    setIsAiOpen(false);
+    const formatted = formatLossless(json, indentation);
+    if (target === 'new' || !jsonInput.trim()) {
+      openDocument('Generated', formatted);
+      addToast('success', 'Opened generated JSON in a new tab');
+      return;
+    }
+    let content = formatted;
+    if (target === 'append') {
+      try {
+        content = isNdjson
+          ? `${jsonInput.trimEnd()}\n${splitItems(json).map(minifyLossless).join('\n')}\n`
+          : appendItems(jsonInput, json, indentation);
+      } catch (e) {
+        addToast('error', (e as Error).message);
+        return;
+      }
+    }
+    const entry = applyTransform(target === 'append' ? 'Append generated JSON' : 'Replace with generated JSON', content);
+    // Replacing leaves a single strict JSON document
+    if (target === 'replace') updateTab(activeTab.id, { relaxed: false, ndjson: false });
+    setError(null);
+    addToast('success', target === 'append' ? 'Appended generated JSON' : 'Replaced document with generated JSON', entry ? undoAction(activeTab.id, entry.id) : undefined);
+  };
+
+  const handleApplyRepair = (text: string, source: 'local' | 'ai') => {
+    trackEvent('repair_apply', { source });
+    setIsRepairOpen(false);
+    const entry = applyTransform('Repair', text);
+    setError(null);
+    addToast('success', source === 'ai' ? 'Applied AI repair' : 'Repaired JSON', entry ? undoAction(activeTab.id, entry.id) : undefined);
+  };
+
+  const handleOpenXml = () => {
+    trackEvent('click_xml');
+    setXmlSource(null);
+    setIsXmlOpen(true);
+  };
+
+  const handleXmlReplace = (json: string) => {
+    trackEvent('xml_replace');
+    setIsXmlOpen(false);
+    const entry = applyTransform('Convert from XML', json);
+    // The result is a single strict JSON document
+    updateTab(activeTab.id, { relaxed: false, ndjson: false });
+    setError(null);
+    addToast('success', 'Converted XML to JSON', entry ? undoAction(activeTab.id, entry.id) : undefined);
+  };
+
+  const handleXmlOpenAsNew = (json: string) => {
+    trackEvent('xml_open_as_new');
+    setIsXmlOpen(false);
+    openDocument('converted.json', json);
+    addToast('success', 'Opened converted XML in a new tab');
+  };
+
+  const handleOpenMock = () => {
+    trackEvent('click_mock');
+    setIsMockOpen(true);
+  };
+
+  const handleMockOpen = (content: string, ndjson: boolean) => {
+    setIsMockOpen(false);
+    openDocument(ndjson ? 'mock.jsonl' : 'mock.json', content, false, ndjson);
+    addToast('success', 'Opened mock data in a new tab');
+  };
+
+  const handleRelaxedChange = (relaxed: boolean) => {
+    trackEvent('toggle_relaxed', { relaxed });
+    updateTab(activeTab.id, { relaxed });
+    addToast('info', relaxed ? 'JSON5 / JSONC input enabled' : 'Strict JSON input');
+  };
+
+  const handleNdjsonChange = (ndjson: boolean) => {
+    trackEvent('toggle_ndjson', { ndjson });
+    updateTab(activeTab.id, { ndjson });
+    addToast('info', ndjson ? 'Reading one JSON value per line (NDJSON)' : 'Reading a single JSON document');
+  };
+
+  const handleConvertToJsonArray = () => {
+    trackEvent('click_convert_to_json_array');
+    try {
+      if (!jsonInput.trim()) return;
+      const entry = applyTransform('Convert to JSON array', ndjsonToJsonArray(jsonInput, indentation, isRelaxed));
+      updateTab(activeTab.id, { ndjson: false });
+      setError(null);
+      addToast('success', 'Converted records to a JSON array', entry ? undoAction(activeTab.id, entry.id) : undefined);
+    } catch (err) {
+      reportSyntaxError(jsonInput, err);
+      addToast('error', 'Fix the invalid lines first');
+    }
+  };
+
+  const handleConvertToStrict = () => {
+    trackEvent('click_convert_to_strict');
+    try {
+      if (!jsonInput.trim()) return;
+      const entry = applyTransform('Convert to strict JSON', toStrictJson(jsonInput, indentation));
+      setError(null);
+      addToast('success', 'Converted to strict JSON', entry ? undoAction(activeTab.id, entry.id) : undefined);
+    } catch (err) {
+      reportSyntaxError(jsonInput, err, true);
+      addToast('error', 'Invalid JSON5 format');
+    }
+  };
+
   const handleFormat = () => {
     trackEvent('click_prettify');
     try {
       if (!jsonInput.trim()) return;
-      const parsed = JSON.parse(jsonInput);
-      const formatted = JSON.stringify(parsed, null, indentation);
-      setJsonInput(formatted);
-      setDebouncedInput(formatted);
+      // Relaxed documents keep their comments and quoting style. NDJSON records
+      // must stay on one line each, so they are only normalized.
+      const formatted = isNdjson
+        ? normalizeNdjson(jsonInput, isRelaxed)
+        : isRelaxed
+          ? formatRelaxed(jsonInput, indentation)
+          : formatLossless(jsonInput, indentation);
+      if (formatted !== jsonInput) takeSnapshot(activeTab, jsonInput, 'format');
+      const entry = applyTransform('Prettify', formatted);
       setError(null);
-      addToast('success', 'Formatted successfully');
+      addToast('success', 'Formatted successfully', entry ? undoAction(activeTab.id, entry.id) : undefined);
     } catch (err) {
-      setError((err as Error).message);
+      reportSyntaxError(jsonInput, err);
       addToast('error', 'Invalid JSON format');
     }
   };
@@ -271,14 +1031,15 @@ const App: React.FC = () => {
     trackEvent('click_minify');
     try {
       if (!jsonInput.trim()) return;
-      const parsed = JSON.parse(jsonInput);
-      const minified = JSON.stringify(parsed);
-      setJsonInput(minified);
-      setDebouncedInput(minified);
+      const minified = isNdjson
+        ? normalizeNdjson(jsonInput, isRelaxed)
+        : isRelaxed ? minifyRelaxed(jsonInput) : minifyLossless(jsonInput);
+      if (minified !== jsonInput) takeSnapshot(activeTab, jsonInput, 'minify');
+      const entry = applyTransform('Minify', minified);
       setError(null);
-      addToast('success', 'Minified successfully');
+      addToast('success', 'Minified successfully', entry ? undoAction(activeTab.id, entry.id) : undefined);
     } catch (err) {
-      setError((err as Error).message);
+      reportSyntaxError(jsonInput, err);
       addToast('error', 'Invalid JSON format');
     }
   };
@@ -295,44 +1056,91 @@ const App: React.FC = () => {
     }
   };
 
+  // No confirmation needed: the toast offers Undo and a snapshot is kept in History
   const handleClear = () => {
-    trackEvent('click_clear_attempt');
+    trackEvent('click_clear');
     if (!jsonInput) return;
-    
-    if (jsonInput.length > 50) {
-      if (!window.confirm('Are you sure you want to clear the editor?')) {
-        trackEvent('click_clear_cancel');
-        return;
-      }
-    }
-    
-    trackEvent('click_clear_confirm');
-    setJsonInput('');
-    setDebouncedInput('');
+    takeSnapshot(activeTab, jsonInput, 'clear');
+    const entry = applyTransform('Clear', '');
     setError(null);
-    addToast('info', 'Editor cleared');
+    addToast('info', 'Editor cleared', entry ? undoAction(activeTab.id, entry.id) : undefined);
   };
 
   const handleDownload = () => {
     trackEvent('click_export');
     if (!jsonInput) return;
     try {
-      JSON.parse(jsonInput);
-      downloadFile(jsonInput, 'data.json');
+      if (isNdjson) {
+        const [first] = parseNdjson(jsonInput, { relaxed: isRelaxed }).syntaxDiagnostics;
+        if (first) throw new Error(first.message);
+        downloadFile(jsonInput, 'data.ndjson');
+        addToast('success', 'File downloaded');
+        return;
+      }
+      parseJsonText(jsonInput, isRelaxed);
+      downloadFile(jsonInput, isRelaxed && isRelaxedOnly(jsonInput) ? 'data.json5' : 'data.json');
       addToast('success', 'File downloaded');
     } catch (e) {
       if (window.confirm('The JSON is invalid. Save anyway?')) {
         trackEvent('click_export_invalid');
-        downloadFile(jsonInput, 'invalid-data.json');
+        downloadFile(jsonInput, isNdjson ? 'invalid-data.ndjson' : 'invalid-data.json');
       }
     }
   };
 
+  // Downloads the document converted to another format, e.g. YAML
+  const handleExportAs = (formatId: string) => {
+    const format = EXPORT_FORMATS.find(f => f.id === formatId);
+    if (!format || !jsonInput.trim()) return;
+    trackEvent('click_export_as', { format: format.id });
+    try {
+      let value: any;
+      if (isNdjson) {
+        const doc = parseNdjson(jsonInput, { relaxed: isRelaxed });
+        if (doc.syntaxDiagnostics.length > 0) throw new Error(doc.syntaxDiagnostics[0].message);
+        value = doc.records;
+      } else {
+        value = parseLossless(jsonInput, { relaxed: isRelaxed });
+      }
+      downloadFile(format.fromJson(value, isNdjson), `data.${format.extension}`, format.mimeType);
+      addToast('success', `Exported as ${format.label}`);
+    } catch (err) {
+      reportSyntaxError(jsonInput, err);
+      addToast('error', `Fix the JSON before exporting as ${format.label}`);
+    }
+  };
+
   const handleUpload = useCallback((file: File) => {
     trackEvent('click_import', { file_type: file.type, size: file.size });
     
-    if (!file.name.toLowerCase().endsWith('.json') && file.type !== 'application/json') {
-      addToast('error', 'Invalid file type. Only .json files are allowed.');
+    const fileName = file.name.toLowerCase();
+    const hasRelaxedExtension = RELAXED_EXTENSIONS.some(ext => fileName.endsWith(ext));
+    const hasNdjsonExtension = NDJSON_EXTENSIONS.some(ext => fileName.endsWith(ext));
+    // Other formats are converted to JSON on the way in
+    const importFormat = findImportFormat(fileName);
+
+    // XML has several possible mappings, so it goes through the converter's preview
+    if (fileName.endsWith('.xml')) {
+      file.text().then(text => {
+        setXmlSource(text);
+        setIsXmlOpen(true);
+      }, () => addToast('error', 'Failed to read file'));
+      return;
+    }
+    if (!fileName.endsWith('.json') && !hasRelaxedExtension && !hasNdjsonExtension && !importFormat && file.type !== 'application/json') {
+      addToast('error', 'Unsupported file type. Import JSON, JSON5, NDJSON, YAML, CSV, TSV, XML, TOML, INI or .env files.');
+      return;
+    }
+
+    if (file.size > LARGE_FILE_THRESHOLD) {
+      // Large-file mode scans a single JSON value; records, comments and other formats need a full parse
+      if (importFormat || hasNdjsonExtension || hasRelaxedExtension) {
+        addToast('error', `${file.name} is too large to import (${formatFileSize(file.size)}). Only plain JSON files over ${formatFileSize(LARGE_FILE_THRESHOLD)} can be opened, read-only.`);
+        return;
+      }
+      trackEvent('open_large_file', { size: file.size });
+      setLargeFile(file);
+      addToast('info', `${file.name} is too large for the editor and opened read-only. Extract parts of it to edit them.`);
       return;
     }
 
@@ -343,18 +1151,48 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (event) => {
       if (event.target?.result) {
-        const result = event.target.result as string;
-        setJsonInput(result);
-        setDebouncedInput(result); // Immediate update on upload
-        setError(null);
-        addToast('success', `Loaded ${file.name}`);
+        let result = event.target.result as string;
+        let name = file.name;
+        if (importFormat) {
+          try {
+            result = importFormat.toJson(result, activeTab.indentation);
+            name = toJsonFileName(file.name);
+          } catch (e) {
+            addToast('error', `Could not import ${file.name}: ${(e as Error).message}`);
+            return;
+          }
+        }
+        // Imports open in their own tab so the current document is never lost;
+        // the snapshot keeps the file as it was imported
+        // Config files with comments open in relaxed mode straight away
+        // Logs saved as .json are recognised as NDJSON too
+        const isLines = !importFormat && (hasNdjsonExtension || looksLikeNdjson(result));
+        const tab = openDocument(name, result, hasRelaxedExtension || (!isLines && isRelaxedOnly(result)), isLines);
+        takeSnapshot(tab, result, 'import');
+        // Recorded on the new tab so the import itself can be undone
+        const { stack, entry } = pushUndoEntry(EMPTY_UNDO_STACK, 'Import', '', result);
+        setUndoStack(tab.id, stack);
+        addToast('success', importFormat ? `Converted ${file.name} from ${importFormat.label}` : `Loaded ${file.name}`, undoAction(tab.id, entry.id));
       }
     };
     reader.onerror = () => {
       addToast('error', 'Failed to read file');
     };
     reader.readAsText(file);
-  }, [addToast]);
+  }, [addToast, openDocument, takeSnapshot, setUndoStack, handleUndo, activeTab.indentation]);
+
+  // Extracts from large-file mode become normal documents
+  const handleLargeFileExtract = useCallback((name: string, text: string) => {
+    let content = text;
+    try {
+      content = formatLossless(text, activeTab.indentation);
+    } catch (e) {
+      // Keep the raw slices; the editor will point at the problem
+    }
+    openDocument(name, content);
+    setLargeFile(null);
+    addToast('success', `Opened ${name}`);
+  }, [activeTab.indentation, openDocument, addToast]);
 
   // Drag and Drop Handlers
   const handleDragEnter = (e: React.DragEvent) => {
@@ -386,8 +1224,9 @@ const App: React.FC = () => {
     setIsDragging(false);
     dragCounter.current = 0;
     
+    // One tab per dropped file
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleUpload(e.dataTransfer.files[0]);
+      Array.from(e.dataTransfer.files).forEach(file => handleUpload(file));
     }
   };
 
@@ -456,6 +1295,20 @@ const App: React.FC = () => {
                 <Table size={14} />
                 <span className="hidden sm:inline">Table</span>
               </button>
+              <button
+                onClick={() => {
+                  setViewMode('diff');
+                  trackEvent('switch_view', { mode: 'diff' });
+                }}
+                className={`flex items-center gap-2 px-2 md:px-3 py-1 rounded text-xs font-medium transition-all ${
+                  viewMode === 'diff' 
+                    ? 'bg-accents-8 text-background shadow-sm' 
+                    : 'text-accents-5 hover:text-accents-8'
+                }`}
+              >
+                <GitCompare size={14} />
+                <span className="hidden sm:inline">Compare</span>
+              </button>
             </div>
           </div>
           
@@ -479,12 +1332,21 @@ const App: React.FC = () => {
         </header>
 
         <main className="flex-1 flex flex-col min-h-0 bg-background relative overflow-hidden transition-colors duration-300">
+          <TabBar
+            tabs={workspace.tabs}
+            activeTabId={activeTab.id}
+            onSelect={handleSelectTab}
+            onClose={handleCloseTab}
+            onRename={handleRenameTab}
+            onNew={handleNewTab}
+          />
           <Toolbar 
             onFormat={handleFormat}
             onMinify={handleMinify}
             onCopy={handleCopy}
             onClear={handleClear}
             onDownload={handleDownload}
+            onExportAs={handleExportAs}
             onUpload={handleUpload}
             hasContent={jsonInput.length > 0}
             indentation={indentation}
@@ -493,51 +1355,243 @@ const App: React.FC = () => {
             onSearchChange={setSearchTerm}
             onSearchEnter={() => setSearchTrigger(prev => prev + 1)}
             hasMatches={searchMatchCount === null ? null : searchMatchCount > 0}
+            onSchemaClick={() => setIsSchemaModalOpen(true)}
+            onXmlClick={handleOpenXml}
+            schemaName={attachedSchema?.name || null}
+            queryExpression={queryExpression}
+            onQueryChange={handleQueryChange}
+            queryLanguage={queryLanguage}
+            onQueryLanguageChange={handleQueryLanguageChange}
+            hasQueryError={!!queryResult.error}
+            onAskQueryClick={handleAskQuery}
+            isRelaxed={isRelaxed}
+            onRelaxedChange={handleRelaxedChange}
+            onConvertToStrict={handleConvertToStrict}
+            isNdjson={isNdjson}
+            onNdjsonChange={handleNdjsonChange}
+            onConvertToJsonArray={handleConvertToJsonArray}
+            onUndo={() => handleUndo()}
+            onRedo={() => handleRedo()}
+            undoLabel={activeUndoStack.past[activeUndoStack.past.length - 1]?.label || null}
+            redoLabel={activeUndoStack.future[activeUndoStack.future.length - 1]?.label || null}
+            onHistoryClick={handleToggleHistory}
+            isHistoryOpen={isHistoryOpen}
+            onTypesClick={handleToggleTypes}
+            onMockClick={handleOpenMock}
+            onAiClick={() => {
+              trackEvent('click_ai');
+              setIsAiOpen(true);
+            }}
+            isTypesOpen={isTypesOpen}
           />
           
-          {/* View Container: Using display styling for persistence instead of conditional rendering */}
-          <div className="flex-1 relative min-h-0">
-            {/* Drag Overlay */}
-            {isDragging && (
-              <div className="absolute inset-0 z-50 bg-background/80 backdrop-blur-sm flex flex-col items-center justify-center border-2 border-dashed border-accents-5 m-4 rounded-xl animate-in fade-in duration-200 pointer-events-none">
-                <div className="bg-accents-1 p-6 rounded-full mb-4">
-                  <UploadCloud className="w-12 h-12 text-accents-8" />
+          {largeFile && (
+            <LargeFileView
+              file={largeFile}
+              onExtract={handleLargeFileExtract}
+              onClose={() => setLargeFile(null)}
+            />
+          )}
+
+          <div className="flex-1 flex min-h-0">
+            {/* View Container: Using display styling for persistence instead of conditional rendering */}
+            <div className="flex-1 relative min-h-0 min-w-0">
+              {/* Drag Overlay */}
+              {isDragging && (
+                <div className="absolute inset-0 z-50 bg-background/80 backdrop-blur-sm flex flex-col items-center justify-center border-2 border-dashed border-accents-5 m-4 rounded-xl animate-in fade-in duration-200 pointer-events-none">
+                  <div className="bg-accents-1 p-6 rounded-full mb-4">
+                    <UploadCloud className="w-12 h-12 text-accents-8" />
+                  </div>
+                  <h3 className="text-xl font-bold text-accents-8 mb-2">Drop JSON files here</h3>
+                  <p className="text-accents-5">Each file opens in a new tab</p>
                 </div>
-                <h3 className="text-xl font-bold text-accents-8 mb-2">Drop JSON file here</h3>
-                <p className="text-accents-5">Release to load content</p>
-              </div>
-            )}
+              )}
 
-            <div className={`absolute inset-0 ${viewMode === 'code' ? 'block' : 'hidden'}`}>
-              <JsonEditor 
-                value={jsonInput} 
-                onChange={handleInputChange} 
-                error={error} 
-                indentation={indentation}
-                onReady={handleEditorReady}
-                searchTerm={debouncedSearchTerm}
-                theme={theme}
-                onMatchCountChange={setSearchMatchCount}
-              />
-            </div>
-            <div className={`absolute inset-0 ${viewMode === 'graph' ? 'block' : 'hidden'}`}>
-              <JsonGraphView 
-                value={debouncedInput} 
-                searchTerm={debouncedSearchTerm}
-                searchTrigger={searchTrigger}
-                onMatchCountChange={setSearchMatchCount}
-              />
-            </div>
-            <div className={`absolute inset-0 ${viewMode === 'table' ? 'block' : 'hidden'}`}>
-              <JsonTableView 
-                value={debouncedInput} 
-                searchTerm={debouncedSearchTerm}
-              />
+              <div className={`absolute inset-0 ${viewMode === 'code' ? 'block' : 'hidden'}`}>
+                <JsonEditor 
+                  value={jsonInput} 
+                  onChange={handleInputChange} 
+                  error={error} 
+                  indentation={indentation}
+                  onReady={handleEditorReady}
+                  searchTerm={debouncedSearchTerm}
+                  theme={theme}
+                  onMatchCountChange={setSearchMatchCount}
+                  diagnostics={diagnostics}
+                  revealTarget={revealTarget}
+                  modelPath={getModelPath(activeTab.id)}
+                  relaxed={isRelaxed}
+                  onRepair={handleOpenRepair}
+                  onAiFix={handleFixWithAi}
+                />
+              </div>
+              <div className={`absolute inset-0 ${viewMode === 'graph' ? 'block' : 'hidden'}`}>
+                <JsonGraphView 
+                  value={debouncedInput} 
+                  analysis={currentAnalysis}
+                  searchTerm={debouncedSearchTerm}
+                  searchTrigger={searchTrigger}
+                  onMatchCountChange={setSearchMatchCount}
+                  diffMarks={isDiffOverlayOn ? structuralDiff?.marks : null}
+                  onClearDiff={() => setIsDiffOverlayOn(false)}
+                />
+              </div>
+              <div className={`absolute inset-0 ${viewMode === 'table' ? 'block' : 'hidden'}`}>
+                <JsonTableView 
+                  value={debouncedInput} 
+                  analysis={currentAnalysis}
+                  searchTerm={debouncedSearchTerm}
+                  path={activeTab.tablePath}
+                  onPathChange={(tablePath) => updateTab(activeTab.id, { tablePath })}
+                />
+              </div>
+              {analysisProgress && (viewMode === 'graph' || viewMode === 'table') && (
+                <AnalysisOverlay progress={analysisProgress} onCancel={handleCancelAnalysis} />
+              )}
+              {isAnalysisCancelled && (viewMode === 'graph' || viewMode === 'table') && (
+                <AnalysisCancelledNotice onRetry={handleRetryAnalysis} />
+              )}
+              {viewMode === 'diff' && (
+                <div className="absolute inset-0">
+                  <JsonDiffView
+                    value={viewInput}
+                    compareText={compareInput}
+                    compareLabel={compareLabel}
+                    onCompareChange={(text, label) => {
+                      setCompareInput(text);
+                      setCompareLabel(label);
+                      if (!text) setIsDiffOverlayOn(false);
+                    }}
+                    indentation={indentation}
+                    theme={theme}
+                    mode={diffMode}
+                    onModeChange={setDiffMode}
+                    arrayKey={diffArrayKey}
+                    onArrayKeyChange={setDiffArrayKey}
+                    structuralDiff={structuralDiff}
+                    onShowOnGraph={handleShowDiffOnGraph}
+                    documents={workspace.tabs.filter(t => t.id !== activeTab.id)}
+                    onCompareWithDocument={(id) => {
+                      const tab = workspace.tabs.find(t => t.id === id);
+                      if (!tab) return;
+                      setCompareInput(tab.content);
+                      setCompareLabel(tab.name);
+                    }}
+                  />
+                </div>
+              )}
             </div>
+
+            {isHistoryOpen ? (
+              <div className="w-[45%] max-w-2xl min-w-[280px] shrink-0 hidden md:block">
+                <HistoryPanel
+                  snapshots={snapshots}
+                  activeTabId={activeTab.id}
+                  theme={theme}
+                  onRestore={handleRestoreSnapshot}
+                  onCompare={handleCompareSnapshot}
+                  onDelete={handleDeleteSnapshot}
+                  onClose={() => setIsHistoryOpen(false)}
+                />
+              </div>
+            ) : isTypesOpen ? (
+              <div className="w-[45%] max-w-2xl min-w-[280px] shrink-0 hidden md:block">
+                <TypesPanel
+                  value={currentAnalysis?.data}
+                  theme={theme}
+                  onClose={() => setIsTypesOpen(false)}
+                />
+              </div>
+            ) : isQueryOpen && (
+              <div className="w-[45%] max-w-2xl min-w-[280px] shrink-0 hidden md:block">
+                <QueryPanel
+                  resultText={queryResult.text}
+                  count={queryResult.count}
+                  error={queryResult.error}
+                  theme={theme}
+                  data={currentAnalysis?.data}
+                  language={queryLanguage}
+                  askTrigger={askQueryTrigger}
+                  onExpressionGenerated={handleQueryGenerated}
+                  onOpenAsDocument={handleOpenQueryResult}
+                  onClose={() => setIsQueryOpen(false)}
+                />
+              </div>
+            )}
           </div>
+
+          {isProblemsOpen && (attachedSchema || diagnostics.length > 0) && (
+            <ProblemsPanel
+              diagnostics={diagnostics}
+              onSelect={handleSelectProblem}
+              onClose={() => setIsProblemsOpen(false)}
+            />
+          )}
         </main>
         
-        <StatusBar stats={stats} error={error} />
+        <StatusBar
+          stats={stats}
+          error={error}
+          errorCount={syntaxDiagnostics.length}
+          onErrorClick={handleJumpToError}
+          precisionCount={precisionDiagnostics.length}
+          schemaName={attachedSchema?.name}
+          problemCount={schemaDiagnostics.length}
+          onProblemsClick={() => setIsProblemsOpen(prev => !prev)}
+        />
+
+        <RepairModal
+          isOpen={isRepairOpen}
+          original={jsonInput}
+          error={error}
+          theme={theme}
+          preferAi={isAiRepair}
+          onApply={handleApplyRepair}
+          onClose={() => setIsRepairOpen(false)}
+        />
+
+        <XmlModal
+          isOpen={isXmlOpen}
+          initialXml={xmlSource}
+          document={jsonInput}
+          relaxed={isRelaxed}
+          ndjson={isNdjson}
+          indentation={indentation}
+          theme={theme}
+          onReplace={handleXmlReplace}
+          onOpenAsNew={handleXmlOpenAsNew}
+          onClose={() => setIsXmlOpen(false)}
+        />
+
+        <AiModal
+          isOpen={isAiOpen}
+          onClose={() => setIsAiOpen(false)}
+          onGenerate={handleAiGenerate}
+          document={jsonInput}
+          canAppend={isNdjson || !jsonInput.trim() || (!isRelaxed && Array.isArray(currentAnalysis?.data))}
+        />
+
+        <MockModal
+          isOpen={isMockOpen}
+          document={jsonInput}
+          relaxed={isRelaxed}
+          ndjson={isNdjson}
+          attachedSchema={attachedSchema}
+          indentation={indentation}
+          theme={theme}
+          onOpen={handleMockOpen}
+          onClose={() => setIsMockOpen(false)}
+        />
+
+        <SchemaModal
+          isOpen={isSchemaModalOpen}
+          onClose={() => setIsSchemaModalOpen(false)}
+          current={attachedSchema}
+          onAttach={handleAttachSchema}
+          onDetach={handleDetachSchema}
+          documentSamples={currentAnalysis?.data === undefined ? null : isNdjson ? currentAnalysis.data : [currentAnalysis.data]}
+          onInfer={handleInferSchema}
+        />
 
         {/* Toasts */}
         <div className="fixed bottom-12 left-4 right-4 md:left-auto md:right-6 md:bottom-14 flex flex-col gap-2 z-50 pointer-events-none items-center md:items-end">
@@ -1,86 +1,415 @@
-import React, { useState } from 'react';
-import { Sparkles, X, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Sparkles, X, Loader2, AlertTriangle, KeyRound, Copy, FileText, Settings, CheckCircle2, Plug } from 'lucide-react';
 import { Button } from './Button';
+import { trackEvent } from '../lib/utils';
+import { AI_PROVIDERS, AiProviderId, AiSettings, AiCancelledError, AiNotConfiguredError, getProvider, isPrivateEndpoint } from '../lib/aiProviders';
+import { loadAiSettings, saveAiSettings } from '../lib/storage';
+
+export type AiTarget = 'replace' | 'append' | 'new';
+type AiTask = 'generate' | 'explain' | 'settings';
 
 interface AiModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (prompt: string) => void;
-  isLoading: boolean;
+  // Called with valid JSON text; the modal closes itself afterwards
+  onGenerate: (json: string, target: AiTarget) => void;
+  document: string;
+  // Appending needs an array document (or NDJSON)
+  canAppend: boolean;
 }
 
-export const AiModal: React.FC<AiModalProps> = ({ isOpen, onClose, onGenerate, isLoading }) => {
+const TARGETS: { id: AiTarget; label: string }[] = [
+  { id: 'replace', label: 'Replace document' },
+  { id: 'append', label: 'Append to array' },
+  { id: 'new', label: 'New document' },
+];
+
+const TASKS: { id: AiTask; label: string }[] = [
+  { id: 'generate', label: 'Generate' },
+  { id: 'explain', label: 'Explain document' },
+  { id: 'settings', label: 'Settings' },
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 bg-background border border-accents-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 text-sm placeholder:text-accents-3';
+
+export const AiModal: React.FC<AiModalProps> = ({ isOpen, onClose, onGenerate, document, canAppend }) => {
+  const [task, setTask] = useState<AiTask>('generate');
   const [prompt, setPrompt] = useState('');
+  const [target, setTarget] = useState<AiTarget>('new');
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; notConfigured: boolean } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  // Edited copy of the settings; stored only on Save
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const [settingsStatus, setSettingsStatus] = useState<'saved' | 'connected' | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setExplanation(null);
+      setDraft(settings);
+      setSettingsStatus(null);
+      setTarget(prev => (prev === 'append' && !canAppend ? 'new' : prev));
+    } else {
+      abortRef.current?.abort();
+    }
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Runs one request; cancelling (or closing the modal) aborts it and drops the result
+  const run = async (work: (ai: typeof import('../lib/ai'), signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      // Loaded on demand: nothing else in the app depends on the AI client
+      const ai = await import('../lib/ai').catch(() => {
+        throw new Error('The AI module could not be loaded. Check your connection and reload the page.');
+      });
+      await work(ai, controller.signal);
+    } catch (e) {
+      if (!(e instanceof AiCancelledError)) {
+        setError({ message: (e as Error).message, notConfigured: e instanceof AiNotConfiguredError });
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerate = (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim()) {
-      onGenerate(prompt);
+    if (!prompt.trim() || isLoading) return;
+    trackEvent('ai_generate', { target });
+    run(async (ai, signal) => {
+      const json = await ai.generateJson(prompt, signal);
+      try {
+        JSON.parse(json);
+      } catch (err) {
+        throw new Error('The model did not return valid JSON. Try rephrasing the prompt.');
+      }
+      onGenerate(json, target);
+    });
+  };
+
+  const handleExplain = () => {
+    trackEvent('ai_explain');
+    setExplanation(null);
+    run(async (ai, signal) => {
+      setExplanation(await ai.explainJson(document, signal));
+    });
+  };
+
+  const handleCancel = () => {
+    trackEvent('ai_cancel', { task });
+    abortRef.current?.abort();
+  };
+
+  const handleSelectTask = (next: AiTask) => {
+    setTask(next);
+    setError(null);
+    setSettingsStatus(null);
+  };
+
+  const updateDraft = (patch: Partial<AiSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSettingsStatus(null);
+  };
+
+  // Switching provider swaps in its default model unless a model was typed in
+  const handleProviderChange = (id: AiProviderId) => {
+    const keepModel = draft.model.trim() && draft.model !== getProvider(draft.provider).defaultModel;
+    updateDraft({ provider: id, model: keepModel ? draft.model : getProvider(id).defaultModel });
+  };
+
+  const handleTestConnection = () => {
+    trackEvent('ai_test_connection', { provider: draft.provider });
+    setSettingsStatus(null);
+    run(async (ai, signal) => {
+      await ai.testConnection(draft, signal);
+      setSettingsStatus('connected');
+    });
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    trackEvent('ai_settings_save', { provider: draft.provider });
+    saveAiSettings(draft);
+    setSettings(draft);
+    setSettingsStatus('saved');
+  };
+
+  const handleCopy = async () => {
+    if (!explanation) return;
+    try {
+      await navigator.clipboard.writeText(explanation);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
     }
   };
 
+  const errorBox = error && (
+    <div className="flex items-start gap-2 p-3 rounded-md border border-error/30 bg-error/10 text-xs text-error">
+      {error.notConfigured ? <KeyRound className="w-4 h-4 shrink-0" /> : <AlertTriangle className="w-4 h-4 shrink-0" />}
+      <span className="flex-1">{error.message}</span>
+      {task !== 'settings' && (
+        <button onClick={() => handleSelectTask('settings')} className="shrink-0 font-medium underline hover:no-underline">
+          Settings
+        </button>
+      )}
+    </div>
+  );
+
+  const provider = getProvider(settings.provider);
+  const draftProvider = getProvider(draft.provider);
+  const isDraftRemote = draft.provider !== 'openai' || !isPrivateEndpoint(draft.baseUrl);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
-      <div 
+      <div
         className="w-full max-w-lg bg-background border border-accents-2 rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center justify-between px-6 py-4 border-b border-accents-2 bg-accents-1">
           <div className="flex items-center gap-2 text-accents-8 font-semibold">
             <Sparkles className="w-5 h-5 text-purple-500" />
-            <h3>Generate JSON with AI</h3>
+            <h3>AI Assistant</h3>
+            <span className="text-xs font-normal text-accents-5 truncate" title={provider.label}>
+              {settings.model}{settings.provider === 'openai' ? ` at ${settings.baseUrl}` : ' on Gemini'}
+            </span>
           </div>
-          <button 
+          <button
             onClick={onClose}
             className="text-accents-4 hover:text-accents-8 transition-colors"
-            disabled={isLoading}
           >
             <X className="w-5 h-5" />
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 flex flex-col gap-4">
-          <div>
-            <label htmlFor="prompt" className="block text-sm font-medium text-accents-5 mb-2">
-              Describe the data you need
-            </label>
-            <textarea
-              id="prompt"
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              placeholder="e.g. Create a list of 5 users with names, emails, and realistic addresses..."
-              className="w-full h-32 px-3 py-2 bg-background border border-accents-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 text-sm resize-none placeholder:text-accents-3"
-              autoFocus
-              disabled={isLoading}
-            />
+        <div className="px-6 pt-4">
+          <div className="flex items-center bg-accents-1 p-1 rounded-lg border border-accents-2 w-fit text-xs">
+            {TASKS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => handleSelectTask(t.id)}
+                disabled={isLoading}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-md font-medium transition-all ${task === t.id ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'}`}
+              >
+                {t.id === 'settings' && <Settings size={12} />}
+                {t.label}
+              </button>
+            ))}
           </div>
+        </div>
+
+        {task === 'generate' ? (
+          <form onSubmit={handleGenerate} className="p-6 flex flex-col gap-4">
+            <div>
+              <label htmlFor="prompt" className="block text-sm font-medium text-accents-5 mb-2">
+                Describe the data you need
+              </label>
+              <textarea
+                id="prompt"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="e.g. Create a list of 5 users with names, emails, and realistic addresses..."
+                className="w-full h-32 px-3 py-2 bg-background border border-accents-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 text-sm resize-none placeholder:text-accents-3"
+                autoFocus
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-accents-6">
+              {TARGETS.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex items-center gap-2 ${option.id === 'append' && !canAppend ? 'text-accents-3' : ''}`}
+                  title={option.id === 'append' && !canAppend ? 'The document must be an array (or NDJSON) to append to' : undefined}
+                >
+                  <input
+                    type="radio"
+                    name="ai-target"
+                    checked={target === option.id}
+                    disabled={isLoading || (option.id === 'append' && !canAppend)}
+                    onChange={() => setTarget(option.id)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+
+            {errorBox}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="secondary" onClick={isLoading ? handleCancel : onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                disabled={!prompt.trim() || isLoading}
+                className="bg-purple-600 hover:bg-purple-700 text-white border-transparent"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Generating...
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="w-4 h-4" />
+                    Generate
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        ) : task === 'settings' ? (
+          <form onSubmit={handleSaveSettings} className="p-6 flex flex-col gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-accents-5 mb-2">Provider</span>
+              <select
+                value={draft.provider}
+                onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+                disabled={isLoading}
+                className={INPUT_CLASS}
+              >
+                {AI_PROVIDERS.map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </label>
+
+            {draft.provider === 'openai' && (
+              <label className="block">
+                <span className="block text-sm font-medium text-accents-5 mb-2">Base URL</span>
+                <input
+                  type="url"
+                  value={draft.baseUrl}
+                  onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  disabled={isLoading}
+                  className={`${INPUT_CLASS} font-mono`}
+                />
+              </label>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-sm font-medium text-accents-5 mb-2">Model</span>
+                <input
+                  type="text"
+                  value={draft.model}
+                  onChange={(e) => updateDraft({ model: e.target.value })}
+                  placeholder={draftProvider.defaultModel}
+                  disabled={isLoading}
+                  className={`${INPUT_CLASS} font-mono`}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-accents-5 mb-2">
+                  API key{draftProvider.requiresKey ? '' : ' (optional)'}
+                </span>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => updateDraft({ apiKey: e.target.value })}
+                  autoComplete="off"
+                  disabled={isLoading}
+                  className={`${INPUT_CLASS} font-mono`}
+                />
+              </label>
+            </div>
+
+            <div className={`flex items-start gap-2 p-3 rounded-md border text-xs ${isDraftRemote ? 'border-warning/30 bg-warning/10 text-warning' : 'border-accents-2 bg-accents-1 text-accents-6'}`}>
+              {isDraftRemote ? <AlertTriangle className="w-4 h-4 shrink-0" /> : <Plug className="w-4 h-4 shrink-0" />}
+              <span>
+                {draftProvider.notice}
+                {draft.provider === 'openai' && isDraftRemote && ' This address is not on this machine or a private network.'}
+                {' '}Settings, including the key, are stored in this browser only.
+              </span>
+            </div>
+
+            {errorBox}
+            {settingsStatus && (
+              <div className="flex items-center gap-2 text-xs text-success">
+                <CheckCircle2 className="w-4 h-4" />
+                {settingsStatus === 'saved' ? 'Settings saved' : 'The model answered'}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="secondary" onClick={isLoading ? handleCancel : onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                disabled={isLoading || !draft.model.trim()}
+                onClick={handleTestConnection}
+                icon={isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plug className="w-4 h-4" />}
+              >
+                Test connection
+              </Button>
+              <Button type="submit" variant="primary" disabled={isLoading || !draft.model.trim()}>
+                Save
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6 flex flex-col gap-4">
+            {explanation !== null ? (
+              <div className="max-h-[45vh] overflow-y-auto p-3 rounded-md border border-accents-2 bg-accents-1 text-sm text-accents-7 whitespace-pre-wrap">
+                {explanation}
+              </div>
+            ) : (
+              <p className="text-sm text-accents-5">
+                {document.trim()
+                  ? 'Get a short summary of what the current document represents, its structure and anything unusual in it.'
+                  : 'The document is empty. Paste or import JSON to explain it.'}
+              </p>
+            )}
+
+            {errorBox}
 
-          <div className="flex justify-end gap-3 pt-2">
-            <Button type="button" variant="secondary" onClick={onClose} disabled={isLoading}>
-              Cancel
-            </Button>
-            <Button 
-              type="submit" 
-              variant="primary" 
-              disabled={!prompt.trim() || isLoading}
-              className="bg-purple-600 hover:bg-purple-700 text-white border-transparent"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="w-4 h-4" />
-                  Generate
-                </>
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="secondary" onClick={isLoading ? handleCancel : onClose}>
+                Cancel
+              </Button>
+              {explanation !== null && !isLoading && (
+                <Button type="button" variant="secondary" onClick={handleCopy} icon={<Copy className="w-4 h-4" />}>
+                  {isCopied ? 'Copied' : 'Copy'}
+                </Button>
               )}
-            </Button>
+              <Button
+                type="button"
+                variant="primary"
+                disabled={!document.trim() || isLoading}
+                onClick={handleExplain}
+                className="bg-purple-600 hover:bg-purple-700 text-white border-transparent"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Explaining...
+                  </>
+                ) : (
+                  <>
+                    <FileText className="w-4 h-4" />
+                    {explanation !== null ? 'Explain again' : 'Explain'}
+                  </>
+                )}
+              </Button>
+            </div>
           </div>
-        </form>
+        )}
       </div>
     </div>
   );
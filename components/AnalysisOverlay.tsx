@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, X, RotateCcw } from 'lucide-react';
+import { AnalysisProgress } from '../lib/analysis';
+
+interface AnalysisOverlayProps {
+  progress: AnalysisProgress;
+  onCancel: () => void;
+}
+
+// Small documents finish before this, so the overlay never flickers for them
+const SHOW_DELAY = 250;
+
+const PHASE_LABELS: Record<AnalysisProgress['phase'], string> = {
+  parse: 'Parsing',
+  index: 'Indexing',
+  validate: 'Validating',
+};
+
+export const AnalysisOverlay: React.FC<AnalysisOverlayProps> = ({ progress, onCancel }) => {
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsVisible(true), SHOW_DELAY);
+    return () => clearTimeout(timer);
+  }, []);
+
+  if (!isVisible) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 animate-in fade-in slide-in-from-top-2 duration-200">
+      <div className="flex items-center gap-3 pl-3 pr-2 py-2 rounded-lg border border-accents-2 bg-background/95 backdrop-blur-md shadow-xl text-xs">
+        <Loader2 size={14} className="animate-spin text-accents-5 shrink-0" />
+        <div className="flex flex-col gap-1 min-w-[160px]">
+          <div className="flex items-center justify-between text-accents-7">
+            <span>{PHASE_LABELS[progress.phase]} document...</span>
+            <span className="font-mono text-accents-5">{progress.percent}%</span>
+          </div>
+          <div className="h-1 rounded-full bg-accents-2 overflow-hidden">
+            <div className="h-full bg-accents-8 transition-all duration-200" style={{ width: `${progress.percent}%` }} />
+          </div>
+        </div>
+        <button
+          onClick={onCancel}
+          className="p-1 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8 transition-colors"
+          title="Cancel analysis"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface AnalysisCancelledNoticeProps {
+  onRetry: () => void;
+}
+
+// Replaces the views after a cancel, so nothing stale is shown as current
+export const AnalysisCancelledNotice: React.FC<AnalysisCancelledNoticeProps> = ({ onRetry }) => (
+  <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-3 bg-background text-sm text-accents-5">
+    <span>Analysis cancelled. It runs again after the next edit.</span>
+    <button
+      onClick={onRetry}
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-accents-2 text-xs text-accents-7 hover:text-accents-8 hover:bg-accents-1 transition-colors"
+    >
+      <RotateCcw size={12} />
+      Run now
+    </button>
+  </div>
+);
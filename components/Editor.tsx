@@ -1,5 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import Editor, { OnMount } from "@monaco-editor/react";
+import { Wrench, Sparkles } from 'lucide-react';
+import { Diagnostic } from '../types';
 
 declare global {
   interface Window {
@@ -7,6 +9,59 @@ declare global {
   }
 }
 
+// Shared with the diff editor so both use the same Vercel-style palette
+export const defineThemes = (monaco: any) => {
+  // Vercel Dark
+  monaco.editor.defineTheme('vercel-dark', {
+    base: 'vs-dark',
+    inherit: true,
+    rules: [
+      { token: 'string.key.json', foreground: 'A1A1A1' }, // Keys (Gray)
+      { token: 'string.value.json', foreground: '4ADE80' }, // Strings (Green)
+      { token: 'number', foreground: 'FB923C' }, // Numbers (Orange)
+      { token: 'keyword.json', foreground: 'C084FC' }, // Booleans/Null (Purple)
+      { token: 'delimiter', foreground: '444444' }, // Brackets/Commas
+    ],
+    colors: {
+      'editor.background': '#000000',
+      'editor.foreground': '#eaeaea',
+      'editor.lineHighlightBackground': '#111111',
+      'editorCursor.foreground': '#ffffff',
+      'editor.selectionBackground': '#333333',
+      'editorLineNumber.foreground': '#444444',
+      'editorLineNumber.activeForeground': '#888888',
+      'scrollbarSlider.background': '#333333',
+      'scrollbarSlider.hoverBackground': '#444444',
+      'scrollbarSlider.activeBackground': '#555555',
+    }
+  });
+
+  // Vercel Light
+  monaco.editor.defineTheme('vercel-light', {
+    base: 'vs',
+    inherit: true,
+    rules: [
+      { token: 'string.key.json', foreground: '555555' }, // Keys (Dark Gray)
+      { token: 'string.value.json', foreground: '16A34A' }, // Strings (Green 600)
+      { token: 'number', foreground: 'EA580C' }, // Numbers (Orange 600)
+      { token: 'keyword.json', foreground: '9333EA' }, // Booleans/Null (Purple 600)
+      { token: 'delimiter', foreground: '999999' }, // Brackets/Commas
+    ],
+    colors: {
+      'editor.background': '#ffffff',
+      'editor.foreground': '#000000',
+      'editor.lineHighlightBackground': '#f5f5f5',
+      'editorCursor.foreground': '#000000',
+      'editor.selectionBackground': '#eeeeee',
+      'editorLineNumber.foreground': '#cccccc',
+      'editorLineNumber.activeForeground': '#666666',
+      'scrollbarSlider.background': '#eaeaea',
+      'scrollbarSlider.hoverBackground': '#d4d4d4',
+      'scrollbarSlider.activeBackground': '#a3a3a3',
+    }
+  });
+};
+
 interface EditorProps {
   value: string;
   onChange: (value: string) => void;
@@ -16,71 +71,33 @@ interface EditorProps {
   searchTerm?: string;
   theme?: 'light' | 'dark';
   onMatchCountChange?: (count: number | null) => void;
+  diagnostics?: Diagnostic[];
+  // Changing the id moves the cursor to the given position, even if it is the same as before
+  revealTarget?: { id: number; lineNumber: number; column: number } | null;
+  readOnly?: boolean;
+  // JSON5 / JSONC input: Monaco's strict JSON validation is turned off
+  relaxed?: boolean;
+  // Offered from the error overlay when set
+  onRepair?: () => void;
+  onAiFix?: () => void;
+  // Monaco model path; one model per open document keeps undo stacks separate
+  modelPath?: string;
 }
 
-export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, error, indentation, onReady, searchTerm, theme = 'dark', onMatchCountChange }) => {
+export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, error, indentation, onReady, searchTerm, theme = 'dark', onMatchCountChange, diagnostics = [], revealTarget, readOnly = false, modelPath, relaxed = false, onRepair, onAiFix }) => {
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
   const decorationsRef = useRef<string[]>([]);
+  const glyphDecorationsRef = useRef<string[]>([]);
   const [isEditorReady, setIsEditorReady] = useState(false);
 
   const handleEditorChange = (value: string | undefined) => {
     onChange(value || "");
   };
 
-  const defineThemes = (monaco: any) => {
-     // Vercel Dark
-    monaco.editor.defineTheme('vercel-dark', {
-      base: 'vs-dark',
-      inherit: true,
-      rules: [
-        { token: 'string.key.json', foreground: 'A1A1A1' }, // Keys (Gray)
-        { token: 'string.value.json', foreground: '4ADE80' }, // Strings (Green)
-        { token: 'number', foreground: 'FB923C' }, // Numbers (Orange)
-        { token: 'keyword.json', foreground: 'C084FC' }, // Booleans/Null (Purple)
-        { token: 'delimiter', foreground: '444444' }, // Brackets/Commas
-      ],
-      colors: {
-        'editor.background': '#000000',
-        'editor.foreground': '#eaeaea',
-        'editor.lineHighlightBackground': '#111111',
-        'editorCursor.foreground': '#ffffff',
-        'editor.selectionBackground': '#333333',
-        'editorLineNumber.foreground': '#444444',
-        'editorLineNumber.activeForeground': '#888888',
-        'scrollbarSlider.background': '#333333',
-        'scrollbarSlider.hoverBackground': '#444444',
-        'scrollbarSlider.activeBackground': '#555555',
-      }
-    });
-
-    // Vercel Light
-    monaco.editor.defineTheme('vercel-light', {
-      base: 'vs',
-      inherit: true,
-      rules: [
-        { token: 'string.key.json', foreground: '555555' }, // Keys (Dark Gray)
-        { token: 'string.value.json', foreground: '16A34A' }, // Strings (Green 600)
-        { token: 'number', foreground: 'EA580C' }, // Numbers (Orange 600)
-        { token: 'keyword.json', foreground: '9333EA' }, // Booleans/Null (Purple 600)
-        { token: 'delimiter', foreground: '999999' }, // Brackets/Commas
-      ],
-      colors: {
-        'editor.background': '#ffffff',
-        'editor.foreground': '#000000',
-        'editor.lineHighlightBackground': '#f5f5f5',
-        'editorCursor.foreground': '#000000',
-        'editor.selectionBackground': '#eeeeee',
-        'editorLineNumber.foreground': '#cccccc',
-        'editorLineNumber.activeForeground': '#666666',
-        'scrollbarSlider.background': '#eaeaea',
-        'scrollbarSlider.hoverBackground': '#d4d4d4',
-        'scrollbarSlider.activeBackground': '#a3a3a3',
-      }
-    });
-  }
-
   const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
     
     defineThemes(monaco);
     monaco.editor.setTheme(theme === 'dark' ? 'vercel-dark' : 'vercel-light');
@@ -144,11 +161,71 @@ export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, error, inde
 
   }, [searchTerm, value, isEditorReady, onMatchCountChange]);
 
+  // Diagnostics -> Monaco markers (squiggles, hover messages, overview ruler)
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model || !isEditorReady) return;
+
+    monaco.editor.setModelMarkers(model, 'json-forge', diagnostics.map(d => ({
+      severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: [d.path ? `${d.message} (${d.path})` : d.message, d.hint].filter(Boolean).join('\n'),
+      source: d.source,
+      startLineNumber: d.startLineNumber,
+      startColumn: d.startColumn,
+      endLineNumber: d.endLineNumber,
+      endColumn: d.endColumn,
+    })));
+
+    // One gutter icon per line; errors win over warnings on the same line
+    const glyphs = new Map<number, Diagnostic>();
+    diagnostics.forEach(d => {
+      const existing = glyphs.get(d.startLineNumber);
+      if (!existing || (existing.severity === 'warning' && d.severity === 'error')) glyphs.set(d.startLineNumber, d);
+    });
+    glyphDecorationsRef.current = editorRef.current.deltaDecorations(glyphDecorationsRef.current, Array.from(glyphs.values()).map(d => ({
+      range: new monaco.Range(d.startLineNumber, 1, d.startLineNumber, 1),
+      options: {
+        glyphMarginClassName: `diagnostic-glyph diagnostic-glyph-${d.severity}`,
+        glyphMarginHoverMessage: { value: d.hint ? `${d.message}\n\n${d.hint}` : d.message },
+      },
+    })));
+  }, [diagnostics, value, isEditorReady]);
+
+  // Monaco's JSON validation is global and only knows one dialect at a time.
+  // Syntax errors come from lib/syntax instead, which handles both modes.
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!monaco || !isEditorReady || readOnly) return;
+    monaco.languages.json?.jsonDefaults.setDiagnosticsOptions({
+      validate: false,
+      allowComments: relaxed,
+      trailingCommas: relaxed ? 'ignore' : 'error',
+    });
+  }, [relaxed, readOnly, isEditorReady]);
+
+  // Jump to a requested position (e.g. from the Problems panel)
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !isEditorReady || !revealTarget) return;
+
+    // The editor may have just become visible, so let it measure itself first
+    const frame = requestAnimationFrame(() => {
+      editor.layout();
+      const position = { lineNumber: revealTarget.lineNumber, column: revealTarget.column };
+      editor.setPosition(position);
+      editor.revealPositionInCenter(position);
+      editor.focus();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [revealTarget, isEditorReady]);
+
   return (
     <div className="relative flex-1 w-full h-full group overflow-hidden">
       <Editor
         height="100%"
         defaultLanguage="json"
+        path={modelPath}
         value={value}
         onChange={handleEditorChange}
         onMount={handleEditorDidMount}
@@ -156,6 +233,7 @@ export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, error, inde
         options={{
           minimap: { enabled: false },
           lineNumbers: 'on',
+          glyphMargin: !readOnly,
           folding: true,
           lineDecorationsWidth: 10,
           lineNumbersMinChars: 3,
@@ -181,12 +259,13 @@ export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, error, inde
           tabSize: typeof indentation === 'number' ? indentation : 4,
           insertSpaces: typeof indentation === 'number',
           detectIndentation: false,
+          readOnly,
         }}
         theme="vs-dark" // Initial fallback
       />
       
       {/* Empty State */}
-      {!value && (
+      {!value && !readOnly && (
         <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
             <div className="text-accents-3 text-sm font-mono flex flex-col items-center gap-2 opacity-60">
                 <span className="text-4xl opacity-20">{'{ }'}</span>
@@ -201,6 +280,26 @@ export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, error, inde
           <div className="bg-error/10 text-error border border-error/20 px-4 py-3 rounded-lg shadow-2xl backdrop-blur-md flex items-center gap-3 text-xs font-mono pointer-events-auto max-w-full">
             <div className="w-2 h-2 rounded-full bg-error shrink-0 animate-pulse" />
             <span className="break-all line-clamp-2 md:line-clamp-none">{error}</span>
+            {onRepair && (
+              <button
+                onClick={onRepair}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-error/15 hover:bg-error/25 text-error font-sans font-medium shrink-0 transition-colors"
+                title="Fix common syntax errors offline and preview the result"
+              >
+                <Wrench size={12} />
+                Repair
+              </button>
+            )}
+            {onAiFix && (
+              <button
+                onClick={onAiFix}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-error/15 hover:bg-error/25 text-error font-sans font-medium shrink-0 transition-colors"
+                title="Ask the AI model to fix the document and preview the result"
+              >
+                <Sparkles size={12} />
+                Fix with AI
+              </button>
+            )}
           </div>
         </div>
       )}
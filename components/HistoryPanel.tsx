@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { History, X, RotateCcw, GitCompare, Trash2 } from 'lucide-react';
+import { JsonEditor } from './Editor';
+import { Button } from './Button';
+import { formatFileSize, trackEvent } from '../lib/utils';
+import { Snapshot, SnapshotReason } from '../types';
+
+type HistoryScope = 'document' | 'all';
+
+interface HistoryPanelProps {
+  // All stored snapshots, newest first
+  snapshots: Snapshot[];
+  activeTabId: string;
+  theme: 'light' | 'dark';
+  onRestore: (snapshot: Snapshot) => void;
+  onCompare: (snapshot: Snapshot) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  auto: 'Autosave',
+  clear: 'Before clear',
+  minify: 'Before minify',
+  format: 'Before prettify',
+  import: 'Imported',
+  restore: 'Before restore',
+};
+
+const formatRelativeTime = (timestamp: number) => {
+  const seconds = Math.round((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ snapshots, activeTabId, theme, onRestore, onCompare, onDelete, onClose }) => {
+  const [scope, setScope] = useState<HistoryScope>('document');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const visible = scope === 'all' ? snapshots : snapshots.filter(s => s.tabId === activeTabId);
+  const selected = visible.find(s => s.id === selectedId) || null;
+
+  // Drop the selection when it disappears (pruned, deleted or another tab)
+  useEffect(() => {
+    if (selectedId && !selected) setSelectedId(null);
+  }, [selectedId, selected]);
+
+  return (
+    <div className="flex flex-col h-full bg-background border-l border-accents-2 transition-colors duration-300">
+      <div className="h-10 flex items-center justify-between gap-2 px-3 border-b border-accents-2 bg-accents-1 shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          <History size={14} className="text-accents-5 shrink-0" />
+          <span className="text-[11px] font-medium uppercase tracking-wider text-accents-5">History</span>
+          <span className="px-1.5 py-0.5 rounded-full bg-accents-2 text-accents-7 text-[10px] font-mono">{visible.length}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <div className="flex items-center bg-background p-0.5 rounded-md border border-accents-2">
+            {(['document', 'all'] as HistoryScope[]).map(option => (
+              <button
+                key={option}
+                onClick={() => {
+                  setScope(option);
+                  trackEvent('history_switch_scope', { scope: option });
+                }}
+                className={`px-2 py-0.5 rounded text-[11px] font-medium transition-all ${
+                  scope === option ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'
+                }`}
+                title={option === 'all' ? 'Show snapshots of every document, including closed ones' : 'Show snapshots of this document'}
+              >
+                {option === 'all' ? 'All' : 'This tab'}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8" title="Close History">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-6 text-center text-xs text-accents-4">
+          No snapshots yet. They are taken automatically while you edit and before Clear, Minify, Prettify and Import.
+        </div>
+      ) : (
+        <>
+          <div className={`overflow-y-auto ${selected ? 'shrink-0 max-h-[40%] border-b border-accents-2' : 'flex-1 min-h-0'}`}>
+            {visible.map(snapshot => (
+              <div
+                key={snapshot.id}
+                onClick={() => {
+                  setSelectedId(snapshot.id === selectedId ? null : snapshot.id);
+                  trackEvent('history_preview', { reason: snapshot.reason });
+                }}
+                className={`group flex items-center gap-3 px-3 py-2 text-xs cursor-pointer border-b border-accents-1 ${
+                  snapshot.id === selectedId ? 'bg-accents-1' : 'hover:bg-accents-1'
+                }`}
+                title={new Date(snapshot.createdAt).toLocaleString()}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-accents-8">{SNAPSHOT_REASON_LABELS[snapshot.reason]}</span>
+                    <span className="text-accents-4">{formatRelativeTime(snapshot.createdAt)}</span>
+                  </div>
+                  <div className="text-accents-5 truncate">
+                    {scope === 'all' && <span className="mr-2">{snapshot.tabName}</span>}
+                    <span className="font-mono text-[10px]">{formatFileSize(new Blob([snapshot.content]).size)}</span>
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(snapshot.id);
+                  }}
+                  className="p-1 rounded text-accents-4 hover:text-error hover:bg-accents-2 opacity-0 group-hover:opacity-100"
+                  title="Delete snapshot"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="h-9 flex items-center justify-end gap-1 px-3 border-b border-accents-2 shrink-0">
+                <Button size="sm" variant="ghost" onClick={() => onCompare(selected)} icon={<GitCompare className="w-3.5 h-3.5" />} title="Compare this snapshot with the current document">
+                  Compare
+                </Button>
+                <Button size="sm" variant="primary" onClick={() => onRestore(selected)} icon={<RotateCcw className="w-3.5 h-3.5" />} title="Replace the document with this snapshot">
+                  Restore
+                </Button>
+              </div>
+              <div className="flex-1 relative min-h-0">
+                <div className="absolute inset-0">
+                  <JsonEditor value={selected.content} onChange={() => {}} error={null} indentation={2} theme={theme} readOnly />
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
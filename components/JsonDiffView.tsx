@@ -0,0 +1,261 @@
+import React, { useRef, useState, useEffect, useMemo } from 'react';
+import { DiffEditor, DiffOnMount } from '@monaco-editor/react';
+import { GitCompare, ClipboardPaste, Upload, Camera, X, KeyRound, GitGraph, AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+import { defineThemes } from './Editor';
+import { StructuralDiffView } from './StructuralDiffView';
+import { trackEvent } from '../lib/utils';
+import { normalizeJson } from '../lib/lossless';
+import { StructuralDiff } from '../lib/structuralDiff';
+
+export type DiffMode = 'text' | 'structural';
+
+interface JsonDiffViewProps {
+  // The current document (right-hand side)
+  value: string;
+  // The document we compare against (left-hand side)
+  compareText: string;
+  compareLabel: string;
+  onCompareChange: (text: string, label: string) => void;
+  indentation: number | string;
+  theme: 'light' | 'dark';
+  mode: DiffMode;
+  onModeChange: (mode: DiffMode) => void;
+  // Identity key used to match array items in structural mode
+  arrayKey: string;
+  onArrayKeyChange: (key: string) => void;
+  structuralDiff: StructuralDiff | null;
+  onShowOnGraph: () => void;
+  // Other open documents that can be used as the left-hand side
+  documents: { id: string; name: string }[];
+  onCompareWithDocument: (id: string) => void;
+}
+
+export const JsonDiffView: React.FC<JsonDiffViewProps> = ({
+  value,
+  compareText,
+  compareLabel,
+  onCompareChange,
+  indentation,
+  theme,
+  mode,
+  onModeChange,
+  arrayKey,
+  onArrayKeyChange,
+  structuralDiff,
+  onShowOnGraph,
+  documents,
+  onCompareWithDocument
+}) => {
+  const [pasteText, setPasteText] = useState('');
+  const [changeCount, setChangeCount] = useState<number | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const diffListenerRef = useRef<{ dispose: () => void } | null>(null);
+
+  useEffect(() => () => diffListenerRef.current?.dispose(), []);
+
+  // Any new comparison replaces a failed upload
+  useEffect(() => setReadError(null), [compareText]);
+
+  // Both sides go through the same formatter so whitespace never shows up as a change
+  const original = useMemo(() => normalizeJson(compareText, indentation), [compareText, indentation]);
+  const modified = useMemo(() => normalizeJson(value, indentation), [value, indentation]);
+
+  const handleMount: DiffOnMount = (editor) => {
+    diffListenerRef.current?.dispose();
+    diffListenerRef.current = editor.onDidUpdateDiff(() => {
+      setChangeCount(editor.getLineChanges()?.length ?? 0);
+    });
+  };
+
+  const handlePaste = async () => {
+    trackEvent('diff_paste');
+    try {
+      const text = await navigator.clipboard.readText();
+      if (text.trim()) onCompareChange(text, 'Clipboard');
+    } catch (err) {
+      console.error('Clipboard read failed:', err);
+    }
+  };
+
+  const handleSnapshot = () => {
+    trackEvent('diff_snapshot');
+    onCompareChange(value, `Snapshot ${new Date().toLocaleTimeString()}`);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    trackEvent('diff_upload', { size: file.size });
+    setReadError(null);
+    const reader = new FileReader();
+    reader.onload = () => onCompareChange(String(reader.result || ''), file.name);
+    reader.onerror = () => setReadError(`Failed to read ${file.name}`);
+    reader.readAsText(file);
+  };
+
+  const hasCompare = compareText.length > 0;
+
+  return (
+    <div className="flex flex-col h-full w-full bg-background">
+      <div className="h-10 flex items-center justify-between gap-2 px-4 border-b border-accents-2 bg-accents-1 shrink-0 overflow-x-auto scrollbar-hide">
+        <div className="flex items-center gap-2 text-xs text-accents-5 min-w-0">
+          <GitCompare size={14} className="shrink-0" />
+          {readError ? (
+            <span className="flex items-center gap-1.5 text-error truncate">
+              <AlertTriangle size={12} className="shrink-0" />
+              {readError}
+            </span>
+          ) : hasCompare ? (
+            <span className="truncate">
+              <span className="text-accents-8 font-medium">{compareLabel}</span>
+              <span className="mx-2 text-accents-4">↔</span>
+              <span className="text-accents-8 font-medium">Current document</span>
+            </span>
+          ) : (
+            <span>Choose a document to compare against</span>
+          )}
+          {hasCompare && mode === 'text' && changeCount !== null && (
+            <span className={`px-1.5 py-0.5 rounded-full text-[10px] font-mono shrink-0 ${changeCount > 0 ? 'bg-warning/20 text-warning' : 'bg-accents-2 text-accents-7'}`}>
+              {changeCount === 0 ? 'identical' : `${changeCount} ${changeCount === 1 ? 'change' : 'changes'}`}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <div className="flex items-center bg-background p-0.5 rounded-md border border-accents-2">
+            {(['text', 'structural'] as DiffMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => {
+                  onModeChange(option);
+                  trackEvent('diff_switch_mode', { mode: option });
+                }}
+                className={`px-2 py-0.5 rounded text-[11px] font-medium capitalize transition-all ${
+                  mode === option ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          {mode === 'structural' && (
+            <>
+              <div className="relative" title="Match array items by this property (leave empty to match by position)">
+                <KeyRound className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-accents-5" />
+                <input
+                  type="text"
+                  value={arrayKey}
+                  onChange={(e) => onArrayKeyChange(e.target.value)}
+                  placeholder="identity key"
+                  spellCheck={false}
+                  className="bg-background border border-accents-2 rounded-md pl-6 pr-2 py-1 text-[11px] font-mono text-accents-8 placeholder:text-accents-4 focus:outline-none focus:border-accents-5 w-28"
+                />
+              </div>
+              <Button size="sm" variant="ghost" onClick={onShowOnGraph} disabled={!structuralDiff} icon={<GitGraph className="w-3.5 h-3.5" />} title="Highlight changes on the Graph view">
+                <span className="hidden lg:inline">Show on Graph</span>
+              </Button>
+            </>
+          )}
+          <div className="h-4 w-px bg-accents-2" />
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+            accept=".json,application/json"
+          />
+          {documents.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                if (!e.target.value) return;
+                trackEvent('diff_compare_tab');
+                onCompareWithDocument(e.target.value);
+              }}
+              className="bg-background border border-accents-2 text-accents-5 text-xs py-1 px-2 rounded-md hover:border-accents-5 focus:outline-none cursor-pointer max-w-[140px]"
+              title="Compare against another open tab"
+            >
+              <option value="">Open tab...</option>
+              {documents.map(doc => (
+                <option key={doc.id} value={doc.id}>{doc.name}</option>
+              ))}
+            </select>
+          )}
+          <Button size="sm" variant="ghost" onClick={handlePaste} icon={<ClipboardPaste className="w-3.5 h-3.5" />} title="Compare against clipboard contents">
+            <span className="hidden lg:inline">Paste</span>
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => fileInputRef.current?.click()} icon={<Upload className="w-3.5 h-3.5" />} title="Compare against a file">
+            <span className="hidden lg:inline">Upload</span>
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleSnapshot} disabled={!value} icon={<Camera className="w-3.5 h-3.5" />} title="Snapshot the current document and compare later edits against it">
+            <span className="hidden lg:inline">Snapshot</span>
+          </Button>
+          {hasCompare && (
+            <Button size="sm" variant="ghost" onClick={() => onCompareChange('', '')} icon={<X className="w-3.5 h-3.5" />} title="Clear comparison" />
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 relative min-h-0">
+        {hasCompare && mode === 'structural' ? (
+          structuralDiff ? (
+            <StructuralDiffView diff={structuralDiff} />
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-error p-8 text-center">
+              <AlertTriangle size={28} />
+              <span className="text-sm text-accents-5">Both documents must be valid JSON for a structural diff</span>
+            </div>
+          )
+        ) : hasCompare ? (
+          <DiffEditor
+            height="100%"
+            language="json"
+            original={original}
+            modified={modified}
+            beforeMount={defineThemes}
+            onMount={handleMount}
+            theme={theme === 'dark' ? 'vercel-dark' : 'vercel-light'}
+            loading={<div className="w-full h-full bg-background" />}
+            options={{
+              readOnly: true,
+              originalEditable: false,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              fontSize: 13,
+              fontFamily: "'JetBrains Mono', monospace",
+              lineHeight: 24,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              ignoreTrimWhitespace: false,
+            }}
+          />
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center p-8 gap-4">
+            <textarea
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              placeholder="Paste the JSON you want to compare with the current document..."
+              spellCheck={false}
+              className="w-full max-w-2xl h-64 px-3 py-2 bg-background border border-accents-2 rounded-md focus:outline-none focus:ring-1 focus:ring-accents-5 text-xs font-mono resize-none placeholder:text-accents-3"
+            />
+            <Button
+              variant="primary"
+              disabled={!pasteText.trim()}
+              onClick={() => {
+                trackEvent('diff_paste_text');
+                onCompareChange(pasteText, 'Pasted document');
+                setPasteText('');
+              }}
+              icon={<GitCompare className="w-4 h-4" />}
+            >
+              Compare
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,69 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { AlertTriangle, Filter, ChevronRight, Home, FolderOpen, ArrowLeft } from 'lucide-react';
+import { AlertTriangle, Filter, ChevronRight, ChevronDown, Home, FolderOpen, ArrowLeft, Loader2, Clock, X, FileSpreadsheet } from 'lucide-react';
+import { parseLossless, isLosslessNumber } from '../lib/lossless';
+import { AnalysisResult } from '../lib/analysis';
+import { toCsv, CsvNestedMode } from '../lib/csv';
+import { downloadFile, trackEvent } from '../lib/utils';
 
 interface JsonTableViewProps {
   value: string;
+  // Shared result from the analysis worker, null while it is running. Without it the view parses `value` itself.
+  analysis?: AnalysisResult | null;
   searchTerm?: string;
+  // Optional controlled drill-down path (e.g. stored per document tab)
+  path?: (string | number)[];
+  onPathChange?: (path: (string | number)[]) => void;
 }
 
-export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm = '' }) => {
-  const [path, setPath] = useState<(string | number)[]>([]);
+// Common field names in structured logs; the first match among the columns gets a quick filter
+const LEVEL_FIELDS = ['level', 'severity', 'lvl', 'loglevel', 'log.level'];
+const TIME_FIELDS = ['timestamp', '@timestamp', 'time', 'ts', 'datetime', 'date'];
+const MAX_LEVEL_CHIPS = 8;
+const MAX_LISTED_LINES = 10;
+
+const findField = (headers: string[], names: string[]) => headers.find(h => names.includes(h.toLowerCase())) ?? null;
+
+const getLevel = (row: any, field: string): string | null => {
+  if (typeof row !== 'object' || row === null || row[field] === undefined || row[field] === null) return null;
+  return String(row[field]).toLowerCase();
+};
+
+// Milliseconds since epoch; plain numbers below 1e12 are taken as seconds
+const getTime = (row: any, field: string): number | null => {
+  if (typeof row !== 'object' || row === null) return null;
+  const value = row[field];
+  if (typeof value === 'number' || isLosslessNumber(value)) {
+    const n = Number(value);
+    return n < 1e12 ? n * 1000 : n;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : time;
+  }
+  return null;
+};
+
+export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, analysis, searchTerm = '', path: controlledPath, onPathChange }) => {
+  const [internalPath, setInternalPath] = useState<(string | number)[]>([]);
+  const path = controlledPath ?? internalPath;
+  const setPath = (next: (string | number)[]) => {
+    if (onPathChange) onPathChange(next);
+    else setInternalPath(next);
+  };
 
   // 1. Parse Root Data
   const { rootData, error } = useMemo(() => {
+    if (analysis === null) return { rootData: null, error: null };
+    if (analysis) return { rootData: analysis.data ?? null, error: analysis.parseError };
     try {
       if (!value.trim()) return { rootData: null, error: null };
-      const parsed = JSON.parse(value);
+      // Big numbers keep their digits instead of being rounded
+      const parsed = parseLossless(value);
       return { rootData: parsed, error: null };
     } catch (e) {
       return { rootData: null, error: (e as Error).message };
     }
-  }, [value]);
+  }, [value, analysis]);
 
   // 2. Resolve Current Data based on Path
   const currentData = useMemo(() => {
@@ -27,7 +72,7 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
     
     // Safely traverse
     for (const key of path) {
-      if (curr && typeof curr === 'object' && key in curr) {
+      if (curr && typeof curr === 'object' && !isLosslessNumber(curr) && key in curr) {
         curr = curr[key];
       } else {
         return undefined; // Path is invalid
@@ -39,6 +84,7 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
   const currentType = useMemo(() => {
     if (currentData === null) return 'null';
     if (Array.isArray(currentData)) return 'array';
+    if (isLosslessNumber(currentData)) return 'primitive';
     if (typeof currentData === 'object') return 'object';
     return 'primitive';
   }, [currentData]);
@@ -60,7 +106,7 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
 
     // Budget scan
     arr.slice(0, 50).forEach(item => {
-      if (typeof item === 'object' && item !== null) {
+      if (typeof item === 'object' && item !== null && !isLosslessNumber(item)) {
         Object.keys(item).forEach(k => allKeys.add(k));
       } else {
         hasPrimitives = true;
@@ -74,24 +120,96 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
     return headerArray;
   }, [currentData, currentType]);
 
-  // 4. Handlers
+  // 4. Log filters (level and time range) for arrays of log records
+  const [levelFilter, setLevelFilter] = useState<string[]>([]);
+  const [timeFrom, setTimeFrom] = useState('');
+  const [timeTo, setTimeTo] = useState('');
+  const levelField = useMemo(() => findField(headers, LEVEL_FIELDS), [headers]);
+  const timeField = useMemo(() => findField(headers, TIME_FIELDS), [headers]);
+
+  const pathKey = JSON.stringify(path);
+  useEffect(() => {
+    setLevelFilter([]);
+    setTimeFrom('');
+    setTimeTo('');
+  }, [pathKey]);
+
+  const levelCounts = useMemo(() => {
+    if (!levelField || currentType !== 'array') return [];
+    const counts = new Map<string, number>();
+    (currentData as any[]).forEach(row => {
+      const level = getLevel(row, levelField);
+      if (level !== null) counts.set(level, (counts.get(level) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, MAX_LEVEL_CHIPS);
+  }, [currentData, currentType, levelField]);
+
+  const matchesLogFilters = (row: any) => {
+    if (levelField && levelFilter.length > 0 && !levelFilter.includes(getLevel(row, levelField) ?? '')) return false;
+    if (timeField && (timeFrom || timeTo)) {
+      const time = getTime(row, timeField);
+      if (time === null) return false;
+      if (timeFrom && time < new Date(timeFrom).getTime()) return false;
+      if (timeTo && time > new Date(timeTo).getTime()) return false;
+    }
+    return true;
+  };
+
+  const toggleLevel = (level: string) => {
+    setLevelFilter(prev => (prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]));
+  };
+
+  const hasLogFilters = levelFilter.length > 0 || !!timeFrom || !!timeTo;
+
+  // Rows left after the log filters and the search term
+  const filterRows = (arr: any[]) => {
+    const logFiltered = hasLogFilters ? arr.filter(matchesLogFilters) : arr;
+    return searchTerm
+      ? logFiltered.filter(item => JSON.stringify(item).toLowerCase().includes(searchTerm.toLowerCase()))
+      : logFiltered;
+  };
+
+  // 5. CSV / TSV export of what the table currently shows
+  const [csvNested, setCsvNested] = useState<CsvNestedMode>('dotted');
+
+  const handleExportCsv = (delimiter: ',' | '\t') => {
+    const rows = currentType === 'array'
+      ? filterRows(currentData as any[])
+      : Object.keys(currentData as object).map(key => ({ key, value: (currentData as any)[key] }));
+    const isTsv = delimiter === '\t';
+    trackEvent('table_export_csv', { format: isTsv ? 'tsv' : 'csv', nested: csvNested, rows: rows.length });
+    const baseName = path.length > 0 ? String(path[path.length - 1]) : 'data';
+    downloadFile(
+      toCsv(rows, { delimiter, nested: csvNested }),
+      `${baseName}.${isTsv ? 'tsv' : 'csv'}`,
+      isTsv ? 'text/tab-separated-values' : 'text/csv'
+    );
+  };
+
+  // NDJSON documents still show their valid records when some lines are broken
+  const skippedLines = useMemo(() => {
+    if (!analysis || analysis.data === undefined) return [];
+    return Array.from(new Set(analysis.syntaxDiagnostics.map(d => d.startLineNumber)));
+  }, [analysis]);
+
+  // 6. Handlers
   const handleNavigate = (segments: (string | number)[]) => {
-    setPath(prev => [...prev, ...segments]);
+    setPath([...path, ...segments]);
   };
 
   const handleBreadcrumbClick = (index: number) => {
-    setPath(prev => prev.slice(0, index + 1));
+    setPath(path.slice(0, index + 1));
   };
 
   const handleReset = () => setPath([]);
 
-  // 5. Render Cell
+  // 7. Render Cell
   // onClickPath: optional array of path segments to append if clicked
   const renderCell = (cellValue: any, onClickPath?: (string | number)[]) => {
     if (cellValue === null) return <span className="text-red-500 text-[10px] font-bold opacity-70">null</span>;
     if (cellValue === undefined) return <span className="text-accents-3 text-[10px] italic"></span>;
     
-    const isObj = typeof cellValue === 'object';
+    const isObj = typeof cellValue === 'object' && !isLosslessNumber(cellValue);
     
     if (isObj) {
        const isArray = Array.isArray(cellValue);
@@ -117,8 +235,8 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
         );
     }
     
-    if (typeof cellValue === 'number') {
-        return <span className="text-orange-600 dark:text-orange-400 font-mono">{cellValue}</span>;
+    if (typeof cellValue === 'number' || isLosslessNumber(cellValue)) {
+        return <span className="text-orange-600 dark:text-orange-400 font-mono">{String(cellValue)}</span>;
     }
 
     const str = String(cellValue);
@@ -151,9 +269,41 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
                 </button>
             </React.Fragment>
         ))}
+        {(currentType === 'array' || currentType === 'object') && (
+            <div className="ml-auto flex items-center gap-1 pl-4">
+                <FileSpreadsheet size={12} className="text-accents-5" />
+                <div className="relative">
+                    <select
+                        value={csvNested}
+                        onChange={(e) => setCsvNested(e.target.value as CsvNestedMode)}
+                        className="appearance-none bg-transparent text-accents-5 text-[11px] py-0.5 pl-1 pr-4 rounded hover:text-accents-8 focus:outline-none cursor-pointer"
+                        title="How nested values are written"
+                    >
+                        <option value="dotted">Dotted columns</option>
+                        <option value="json">JSON cells</option>
+                    </select>
+                    <ChevronDown size={10} className="absolute right-0.5 top-1/2 -translate-y-1/2 text-accents-5 pointer-events-none" />
+                </div>
+                <button onClick={() => handleExportCsv(',')} className="px-1.5 py-0.5 rounded text-[11px] font-medium text-accents-5 hover:text-accents-8 hover:bg-accents-3 transition-colors" title="Download the rows shown as CSV">
+                    CSV
+                </button>
+                <button onClick={() => handleExportCsv('\t')} className="px-1.5 py-0.5 rounded text-[11px] font-medium text-accents-5 hover:text-accents-8 hover:bg-accents-3 transition-colors" title="Download the rows shown as TSV">
+                    TSV
+                </button>
+            </div>
+        )}
     </div>
   );
 
+  if (analysis === null) {
+    return (
+      <div className="h-full flex items-center justify-center gap-2 text-accents-5 text-sm bg-background">
+        <Loader2 size={16} className="animate-spin" />
+        Parsing document...
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-error gap-4 p-8 text-center bg-background">
@@ -168,18 +318,75 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
     );
   }
 
+  // Plain JSX rather than a nested component, so the date inputs keep focus while typing
+  const logFilters = (
+    <div className="flex items-center gap-3 px-4 py-1.5 border-b border-accents-2 bg-background overflow-x-auto whitespace-nowrap scrollbar-hide shrink-0 text-xs">
+        {levelField && levelCounts.length > 0 && (
+            <div className="flex items-center gap-1">
+                <span className="text-accents-5 mr-1">{levelField}</span>
+                {levelCounts.map(([level, count]) => (
+                    <button
+                        key={level}
+                        onClick={() => toggleLevel(level)}
+                        className={`px-2 py-0.5 rounded-full border text-[11px] transition-colors ${levelFilter.includes(level) ? 'bg-accents-8 text-background border-accents-8' : 'border-accents-2 text-accents-6 hover:border-accents-4'}`}
+                    >
+                        {level} <span className="opacity-60">{count}</span>
+                    </button>
+                ))}
+            </div>
+        )}
+        {timeField && (
+            <div className="flex items-center gap-1.5">
+                <Clock size={12} className="text-accents-5" />
+                <span className="text-accents-5">{timeField}</span>
+                <input
+                    type="datetime-local"
+                    value={timeFrom}
+                    onChange={(e) => setTimeFrom(e.target.value)}
+                    className="h-6 px-1.5 rounded border border-accents-2 bg-background text-accents-7 text-[11px] focus:outline-none focus:border-accents-5"
+                    title="From"
+                />
+                <span className="text-accents-4">to</span>
+                <input
+                    type="datetime-local"
+                    value={timeTo}
+                    onChange={(e) => setTimeTo(e.target.value)}
+                    className="h-6 px-1.5 rounded border border-accents-2 bg-background text-accents-7 text-[11px] focus:outline-none focus:border-accents-5"
+                    title="To"
+                />
+            </div>
+        )}
+        {hasLogFilters && (
+            <button
+                onClick={() => { setLevelFilter([]); setTimeFrom(''); setTimeTo(''); }}
+                className="flex items-center gap-1 text-accents-5 hover:text-accents-8"
+            >
+                <X size={12} /> Clear filters
+            </button>
+        )}
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full w-full bg-background">
         <Breadcrumbs />
+        {skippedLines.length > 0 && (
+            <div className="flex items-center gap-2 px-4 py-1.5 border-b border-accents-2 bg-error/5 text-error text-xs shrink-0">
+                <AlertTriangle size={12} className="shrink-0" />
+                <span className="truncate">
+                    {skippedLines.length} invalid line{skippedLines.length === 1 ? '' : 's'} skipped: {skippedLines.slice(0, MAX_LISTED_LINES).join(', ')}
+                    {skippedLines.length > MAX_LISTED_LINES && ', ...'}
+                </span>
+            </div>
+        )}
+        {currentType === 'array' && (levelField || timeField) && logFilters}
         
         <div className="flex-1 overflow-auto bg-background relative">
             {currentType === 'array' && (() => {
                 const arr = currentData as any[];
                 if (arr.length === 0) return <div className="h-full flex items-center justify-center text-accents-4 text-sm">Empty Array</div>;
 
-                const filteredArr = searchTerm 
-                    ? arr.filter(item => JSON.stringify(item).toLowerCase().includes(searchTerm.toLowerCase()))
-                    : arr;
+                const filteredArr = filterRows(arr);
 
                 if (filteredArr.length === 0) return <div className="h-full flex flex-col items-center justify-center text-accents-5 gap-2"><Filter size={24}/><span>No matches</span></div>;
 
@@ -203,7 +410,7 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
                                         {realIndex !== -1 ? realIndex + 1 : idx + 1}
                                     </td>
                                     {headers.map((col) => {
-                                        const val = (typeof row === 'object' && row !== null) ? row[col] : (col === 'Value' ? row : undefined);
+                                        const val = (typeof row === 'object' && row !== null && !isLosslessNumber(row)) ? row[col] : (col === 'Value' ? row : undefined);
                                         // If clicked, we go to: [...path, realIndex, col]
                                         return (
                                             <td key={`${idx}-${col}`} className="p-2 font-mono text-xs align-top max-w-xs break-words">
@@ -258,13 +465,13 @@ export const JsonTableView: React.FC<JsonTableViewProps> = ({ value, searchTerm
             {currentType === 'primitive' && (
                 <div className="h-full flex flex-col items-center justify-center p-8 bg-background">
                     <div className="bg-accents-1 p-8 rounded-xl border border-accents-2 shadow-sm text-center max-w-md w-full relative">
-                        <button onClick={() => setPath(prev => prev.slice(0, -1))} className="absolute top-4 left-4 p-1 hover:bg-accents-2 rounded text-accents-5">
+                        <button onClick={() => setPath(path.slice(0, -1))} className="absolute top-4 left-4 p-1 hover:bg-accents-2 rounded text-accents-5">
                              <ArrowLeft size={16} />
                         </button>
                         <div className="mb-4 text-accents-5 text-xs uppercase tracking-wider font-semibold border-b border-accents-2 pb-2">Value</div>
                         <div className="text-xl font-mono text-accents-8 break-all select-all max-h-60 overflow-y-auto">{String(currentData)}</div>
                          <div className="mt-4 pt-2 text-[10px] text-accents-4 border-t border-accents-2 flex justify-between">
-                            <span>Type: <span className="font-semibold text-accents-6">{typeof currentData}</span></span>
+                            <span>Type: <span className="font-semibold text-accents-6">{isLosslessNumber(currentData) ? 'number' : typeof currentData}</span></span>
                          </div>
                     </div>
                 </div>
@@ -13,15 +13,25 @@ import {
   Shrink,
   MoreHorizontal,
   ChevronsDown,
-  ChevronsUp
+  ChevronsUp,
+  X,
+  Loader2
 } from 'lucide-react';
-import { trackEvent } from '../lib/utils';
+import { trackEvent, getChildPath } from '../lib/utils';
+import { parseLossless, isLosslessNumber } from '../lib/lossless';
+import { DiffMark } from '../lib/structuralDiff';
+import { AnalysisResult } from '../lib/analysis';
 
 interface JsonGraphViewProps {
   value: string;
+  // Shared result from the analysis worker, null while it is running. Without it the view parses `value` itself.
+  analysis?: AnalysisResult | null;
   searchTerm?: string;
   searchTrigger?: number;
   onMatchCountChange?: (count: number | null) => void;
+  // Structural diff overlay keyed by node path
+  diffMarks?: Map<string, DiffMark> | null;
+  onClearDiff?: () => void;
 }
 
 type DataType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
@@ -29,6 +39,7 @@ type DataType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
 const getDataType = (value: any): DataType => {
   if (value === null) return 'null';
   if (Array.isArray(value)) return 'array';
+  if (isLosslessNumber(value)) return 'number';
   return typeof value as DataType;
 };
 
@@ -51,6 +62,7 @@ interface GraphContextType {
   globalAction: { type: GlobalActionType; id: number };
   searchTerm: string;
   focusNode: (rect: DOMRect) => void;
+  diffMarks: Map<string, DiffMark> | null;
 }
 
 const GraphContext = createContext<GraphContextType>({ 
@@ -58,18 +70,17 @@ const GraphContext = createContext<GraphContextType>({
   hideTooltip: () => {},
   globalAction: { type: 'idle', id: 0 },
   searchTerm: '',
-  focusNode: () => {}
+  focusNode: () => {},
+  diffMarks: null
 });
 
-// Helper to generate safe property paths
-const getChildPath = (parentPath: string, key: string, parentType: DataType) => {
-  if (parentType === 'array') return `${parentPath}[${key}]`;
-  // Check if key is a valid identifier
-  if (/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)) {
-    return `${parentPath}.${key}`;
-  }
-  // Safe bracket notation with escaping
-  return `${parentPath}["${key.replace(/"/g, '\\"')}"]`;
+// Node styling for the structural diff overlay
+const DIFF_MARK_STYLES: Record<DiffMark, { node: string; label: string; swatch: string }> = {
+  added: { node: 'bg-green-500/10 border-green-500/60', label: 'Added', swatch: 'bg-green-500' },
+  changed: { node: 'bg-amber-500/10 border-amber-500/60', label: 'Changed', swatch: 'bg-amber-500' },
+  moved: { node: 'bg-blue-500/10 border-blue-500/60', label: 'Moved', swatch: 'bg-blue-500' },
+  removed: { node: 'bg-red-500/10 border-red-500/60', label: 'Removed', swatch: 'bg-red-500' },
+  contains: { node: 'bg-accents-1 border-dashed border-accents-4', label: 'Contains changes', swatch: 'border border-dashed border-accents-4' },
 };
 
 // Configuration object for expansion logic (passed by reference)
@@ -90,7 +101,8 @@ const GraphNode: React.FC<{
   const type = getDataType(value);
   const isExpandable = type === 'object' || type === 'array';
   
-  const { showTooltip, hideTooltip, globalAction, searchTerm, focusNode } = useContext(GraphContext);
+  const { showTooltip, hideTooltip, globalAction, searchTerm, focusNode, diffMarks } = useContext(GraphContext);
+  const diffMark = diffMarks?.get(path);
 
   // Search Logic
   const isMatch = useMemo(() => {
@@ -212,7 +224,9 @@ const GraphNode: React.FC<{
           className={`
             flex items-center gap-2 px-3 py-2 rounded-lg border shadow-sm transition-all duration-200
             ${isExpandable ? 'cursor-pointer hover:border-accents-4' : ''}
-            ${isMatch ? 'bg-yellow-900/30 border-yellow-500/50 graph-search-match' : 'bg-accents-1 border-accents-2 hover:bg-accents-2'}
+            ${isMatch
+              ? 'bg-yellow-900/30 border-yellow-500/50 graph-search-match'
+              : diffMark ? DIFF_MARK_STYLES[diffMark].node : 'bg-accents-1 border-accents-2 hover:bg-accents-2'}
           `}
           onClick={isExpandable ? handleToggle : undefined}
           onDoubleClick={handleDoubleClick}
@@ -325,7 +339,7 @@ const Tooltip: React.FC<TooltipProps> = ({ data, onMouseEnter, onMouseLeave }) =
 
   const renderTooltipValue = () => {
     if (data.value === null) return 'null';
-    if (typeof data.value === 'object') {
+    if (typeof data.value === 'object' && !isLosslessNumber(data.value)) {
        if (Array.isArray(data.value)) return `Array (${data.value.length} items)`;
        return `Object (${Object.keys(data.value).length} keys)`;
     }
@@ -369,7 +383,7 @@ const Tooltip: React.FC<TooltipProps> = ({ data, onMouseEnter, onMouseLeave }) =
   );
 };
 
-export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, searchTerm = '', searchTrigger = 0, onMatchCountChange }) => {
+export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, analysis, searchTerm = '', searchTrigger = 0, onMatchCountChange, diffMarks = null, onClearDiff }) => {
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 40, y: 40 });
   const [tooltipData, setTooltipData] = useState<TooltipData | null>(null);
@@ -397,13 +411,19 @@ export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, searchTerm
   // We generate a unique graphKey when data successfully parses.
   // This key is used on the Root Node to force a full re-mount (and thus re-run initial expansion logic)
   const { parsedData, graphKey, expandableNodeCount } = useMemo(() => {
+    if (analysis === null) return { parsedData: null, graphKey: 'loading', expandableNodeCount: 0 };
+    if (analysis) {
+      if (analysis.data === undefined) return { parsedData: null, graphKey: 'error', expandableNodeCount: 0 };
+      return { parsedData: analysis.data, graphKey: Math.random().toString(36), expandableNodeCount: analysis.containerCount };
+    }
     try {
-      const data = JSON.parse(value);
+      // Big numbers keep their digits instead of being rounded
+      const data = parseLossless(value);
       
       // Calculate total expandable nodes (objects/arrays) for warning logic
       let count = 0;
       const traverse = (obj: any) => {
-        if (typeof obj === 'object' && obj !== null) {
+        if (typeof obj === 'object' && obj !== null && !isLosslessNumber(obj)) {
           count++;
           Object.values(obj).forEach(val => traverse(val));
         }
@@ -419,7 +439,7 @@ export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, searchTerm
     } catch (e) {
       return { parsedData: null, graphKey: 'error', expandableNodeCount: 0 };
     }
-  }, [value]);
+  }, [value, analysis]);
 
   // 2. Create Expansion Budget
   // This object is mutable and passed down the tree. 
@@ -510,8 +530,9 @@ export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, searchTerm
     },
     globalAction,
     searchTerm,
-    focusNode
-  }), [globalAction, searchTerm, focusNode]);
+    focusNode,
+    diffMarks
+  }), [globalAction, searchTerm, focusNode, diffMarks]);
 
   const handleTooltipMouseEnter = () => {
     if (timeoutRef.current) clearTimeout(timeoutRef.current);
@@ -523,6 +544,15 @@ export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, searchTerm
     }, 300);
   };
 
+  if (analysis === null) {
+    return (
+      <div className="h-full flex items-center justify-center gap-2 text-accents-5 text-sm">
+        <Loader2 size={16} className="animate-spin" />
+        Parsing document...
+      </div>
+    );
+  }
+
   if (parsedData === null) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-error gap-4 p-8 text-center">
@@ -767,6 +797,24 @@ export const JsonGraphView: React.FC<JsonGraphViewProps> = ({ value, searchTerm
           <div className="flex items-center gap-1.5"><ToggleLeft size={12} className="text-purple-600 dark:text-purple-400" /> Boolean</div>
         </div>
 
+        {/* Diff Legend */}
+        {diffMarks && (
+          <div className="absolute top-4 left-4 bg-accents-1/90 backdrop-blur border border-accents-2 pl-3 pr-1 py-1 rounded-md flex items-center gap-3 text-[10px] text-accents-5 z-40">
+            <span className="font-semibold uppercase tracking-wider">Diff</span>
+            {(['added', 'changed', 'moved', 'contains'] as DiffMark[]).map(mark => (
+              <div key={mark} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-sm ${DIFF_MARK_STYLES[mark].swatch}`} />
+                {DIFF_MARK_STYLES[mark].label}
+              </div>
+            ))}
+            {onClearDiff && (
+              <button onClick={onClearDiff} className="p-1 rounded hover:bg-accents-3 text-accents-5 hover:text-accents-8" title="Hide diff overlay">
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Tooltip Overlay */}
         {tooltipData && (
           <Tooltip 
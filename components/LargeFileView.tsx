@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { HardDrive, X, ChevronRight, ChevronDown, Loader2, AlertTriangle, ListTree, Table as TableIcon, ChevronLeft, FileOutput } from 'lucide-react';
+import { JsonTableView } from './JsonTableView';
+import { findRoot, indexContainer, extractEntries, readPage, readText, ContainerIndex, LargeFileRoot, LargeNodeKind, ExtractMode } from '../lib/largeFile';
+import { formatFileSize, trackEvent } from '../lib/utils';
+
+interface LargeFileViewProps {
+  file: File;
+  // Opens an extract as a normal, editable document
+  onExtract: (name: string, text: string) => void;
+  onClose: () => void;
+}
+
+type TreeRow =
+  | { type: 'node'; depth: number; label: string; start: number; end: number; kind: LargeNodeKind }
+  | { type: 'more'; depth: number; parent: number; shown: number; total: number };
+
+const ROW_HEIGHT = 24;
+// Extra rows rendered above and below the viewport so fast scrolling does not show gaps
+const OVERSCAN = 20;
+// Children shown per container before a "show more" row
+const CHILD_PAGE_SIZE = 1000;
+const TABLE_PAGE_SIZE = 100;
+const PREVIEW_BYTES = 120;
+// Extracts beyond this are better opened in large-file mode again
+const MAX_EXTRACT_SIZE = 20 * 1024 * 1024;
+
+const KIND_COLORS: Record<LargeNodeKind, string> = {
+  object: 'text-accents-5',
+  array: 'text-accents-5',
+  string: 'text-green-600 dark:text-green-400',
+  number: 'text-blue-600 dark:text-blue-400',
+  boolean: 'text-purple-600 dark:text-purple-400',
+  null: 'text-accents-4',
+};
+
+const isContainer = (kind: LargeNodeKind) => kind === 'object' || kind === 'array';
+
+/**
+ * Read-only view for files too big for the editor. Only the structure that is
+ * on screen is ever indexed or read: the tree is virtualized and nested
+ * containers are scanned when expanded.
+ */
+export const LargeFileView: React.FC<LargeFileViewProps> = ({ file, onExtract, onClose }) => {
+  const [root, setRoot] = useState<LargeFileRoot | null>(null);
+  const [indexes, setIndexes] = useState<Map<number, ContainerIndex>>(new Map());
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [indexing, setIndexing] = useState<Set<number>>(new Set());
+  const [shownCounts, setShownCounts] = useState<Map<number, number>>(new Map());
+  const [previews, setPreviews] = useState<Map<number, string>>(new Map());
+  const [selected, setSelected] = useState<number | null>(null);
+  const [mode, setMode] = useState<'tree' | 'table'>('tree');
+  const [page, setPage] = useState(0);
+  const [pageText, setPageText] = useState<string | null>(null);
+  const [extractCount, setExtractCount] = useState(100);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const cancelledRef = useRef(false);
+
+  // Index the top level as soon as the file is opened
+  useEffect(() => {
+    cancelledRef.current = false;
+    const open = async () => {
+      const found = await findRoot(file);
+      if (!found) throw new Error('The file is empty');
+      if (cancelledRef.current) return;
+      setRoot(found);
+      if (!isContainer(found.kind)) return;
+      const index = await indexContainer(file, found.start, fraction => setProgress(Math.floor(fraction * 100)), () => cancelledRef.current);
+      if (!index) return;
+      setIndexes(new Map([[found.start, index]]));
+      setExpanded(new Set([found.start]));
+      setSelected(found.start);
+      // NDJSON saved as .json: the scan stops after the first record
+      if (index.end < found.end) setError('The file holds more than one JSON value (NDJSON?). Only the first one is shown.');
+    };
+    open().catch(e => setError((e as Error).message));
+    return () => {
+      cancelledRef.current = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const measure = () => setViewportHeight(scrollRef.current?.clientHeight || 600);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, [mode, root]);
+
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    if (!root) return result;
+    const visit = (label: string, start: number, end: number, kind: LargeNodeKind, depth: number) => {
+      result.push({ type: 'node', depth, label, start, end, kind });
+      const index = indexes.get(start);
+      if (!index || !expanded.has(start)) return;
+      const total = index.starts.length;
+      const shown = Math.min(total, shownCounts.get(start) ?? CHILD_PAGE_SIZE);
+      for (let i = 0; i < shown; i++) {
+        visit(index.keys ? index.keys[i] : String(i), index.starts[i], index.ends[i], index.kinds[i], depth + 1);
+      }
+      if (shown < total) result.push({ type: 'more', depth: depth + 1, parent: start, shown, total });
+    };
+    visit('$', root.start, root.end, root.kind, 0);
+    return result;
+  }, [root, indexes, expanded, shownCounts]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(firstRow, lastRow);
+
+  // Primitive values are read lazily, only for rows on screen
+  useEffect(() => {
+    if (mode !== 'tree') return;
+    const missing = visibleRows.filter(row => row.type === 'node' && !isContainer(row.kind) && !previews.has(row.start)) as Extract<TreeRow, { type: 'node' }>[];
+    if (missing.length === 0) return;
+    let isStale = false;
+    Promise.all(missing.map(async row => {
+      const text = await readText(file, row.start, Math.min(row.end, row.start + PREVIEW_BYTES));
+      return [row.start, row.end - row.start > PREVIEW_BYTES ? `${text}…` : text] as const;
+    })).then(entries => {
+      if (isStale) return;
+      setPreviews(prev => {
+        const next = new Map(prev);
+        entries.forEach(([start, text]) => next.set(start, text));
+        return next;
+      });
+    });
+    return () => {
+      isStale = true;
+    };
+  }, [visibleRows, previews, file, mode]);
+
+  const selectedIndex = selected !== null ? indexes.get(selected) ?? null : null;
+
+  // The table shows one page of the selected container at a time
+  useEffect(() => {
+    if (mode !== 'table' || !selectedIndex) return;
+    let isStale = false;
+    setPageText(null);
+    readPage(file, selectedIndex, page * TABLE_PAGE_SIZE, TABLE_PAGE_SIZE).then(text => {
+      if (!isStale) setPageText(text);
+    });
+    return () => {
+      isStale = true;
+    };
+  }, [mode, selectedIndex, page, file]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [selected]);
+
+  const toggleNode = useCallback(async (start: number) => {
+    setSelected(start);
+    if (expanded.has(start)) {
+      setExpanded(prev => {
+        const next = new Set(prev);
+        next.delete(start);
+        return next;
+      });
+      return;
+    }
+    if (!indexes.has(start)) {
+      setIndexing(prev => new Set(prev).add(start));
+      try {
+        const index = await indexContainer(file, start, undefined, () => cancelledRef.current);
+        if (!index) return;
+        setIndexes(prev => new Map(prev).set(start, index));
+      } catch (e) {
+        setError((e as Error).message);
+        return;
+      } finally {
+        setIndexing(prev => {
+          const next = new Set(prev);
+          next.delete(start);
+          return next;
+        });
+      }
+    }
+    setExpanded(prev => new Set(prev).add(start));
+  }, [expanded, indexes, file]);
+
+  const showMore = (parent: number, shown: number) => {
+    setShownCounts(prev => new Map(prev).set(parent, shown + CHILD_PAGE_SIZE));
+  };
+
+  const handleExtract = async (extractMode: ExtractMode) => {
+    if (!selectedIndex) return;
+    trackEvent('large_file_extract', { mode: extractMode, count: extractCount });
+    setIsExtracting(true);
+    try {
+      const text = await extractEntries(file, selectedIndex, extractMode, extractCount);
+      if (text.length > MAX_EXTRACT_SIZE) {
+        setError(`The ${extractMode} extract is ${formatFileSize(text.length)}. Pick fewer entries.`);
+        return;
+      }
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      onExtract(`${baseName}.${extractMode}-${Math.min(extractCount, selectedIndex.starts.length)}.json`, text);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const rootIndex = root ? indexes.get(root.start) : undefined;
+  const isIndexingRoot = !!root && isContainer(root.kind) && !rootIndex && !error;
+  const pageCount = selectedIndex ? Math.max(1, Math.ceil(selectedIndex.starts.length / TABLE_PAGE_SIZE)) : 1;
+
+  const renderSummary = (row: Extract<TreeRow, { type: 'node' }>) => {
+    if (!isContainer(row.kind)) {
+      return <span className={`${KIND_COLORS[row.kind]} truncate`}>{previews.get(row.start) ?? '…'}</span>;
+    }
+    const index = indexes.get(row.start);
+    const brackets = row.kind === 'object' ? '{…}' : '[…]';
+    const detail = index
+      ? `${index.starts.length.toLocaleString()} ${row.kind === 'object' ? 'keys' : 'items'}`
+      : formatFileSize(row.end - row.start);
+    return <span className="text-accents-4">{brackets} <span className="text-accents-5">{detail}</span></span>;
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex flex-col bg-background animate-in fade-in duration-200">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-4 h-12 border-b border-accents-2 shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="p-1.5 rounded-md bg-accents-1 border border-accents-2">
+            <HardDrive size={16} className="text-accents-8" />
+          </div>
+          <div className="flex flex-col min-w-0">
+            <span className="text-sm font-semibold text-accents-8 truncate">{file.name}</span>
+            <span className="text-[11px] text-accents-5">
+              {formatFileSize(file.size)} · read-only large-file mode
+              {rootIndex && ` · ${rootIndex.type} with ${rootIndex.starts.length.toLocaleString()} ${rootIndex.type === 'object' ? 'keys' : 'items'}`}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <div className="flex items-center bg-accents-1 p-1 rounded-lg border border-accents-2">
+            <button
+              onClick={() => setMode('tree')}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-all ${mode === 'tree' ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'}`}
+            >
+              <ListTree size={14} />
+              Tree
+            </button>
+            <button
+              onClick={() => setMode('table')}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-all ${mode === 'table' ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'}`}
+            >
+              <TableIcon size={14} />
+              Table
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-md hover:bg-accents-2 text-accents-5 hover:text-accents-8 transition-colors"
+            title="Close large file"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Extraction bar */}
+      <div className="flex items-center gap-2 px-4 h-10 border-b border-accents-2 bg-accents-1/50 text-xs shrink-0">
+        <FileOutput size={14} className="text-accents-5" />
+        <span className="text-accents-5">Open</span>
+        <input
+          type="number"
+          min={1}
+          max={100000}
+          value={extractCount}
+          onChange={(e) => setExtractCount(Math.max(1, Math.min(100000, Number(e.target.value) || 1)))}
+          className="w-20 h-7 px-2 rounded-md bg-background border border-accents-2 text-accents-8 font-mono focus:outline-none focus:border-accents-5"
+        />
+        <span className="text-accents-5">entries of the selected container as a new document:</span>
+        {(['head', 'tail', 'sample'] as ExtractMode[]).map(extractMode => (
+          <button
+            key={extractMode}
+            onClick={() => handleExtract(extractMode)}
+            disabled={!selectedIndex || isExtracting}
+            className="h-7 px-3 rounded-md border border-accents-2 bg-background text-accents-7 hover:text-accents-8 hover:border-accents-4 disabled:opacity-50 disabled:cursor-not-allowed capitalize transition-colors"
+          >
+            {extractMode}
+          </button>
+        ))}
+        {isExtracting && <Loader2 size={14} className="animate-spin text-accents-5" />}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-2 text-xs text-error border-b border-accents-2 bg-error/5 shrink-0">
+          <AlertTriangle size={14} className="shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="p-0.5 rounded hover:bg-accents-2">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {isIndexingRoot ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-3 text-accents-5">
+          <Loader2 size={24} className="animate-spin" />
+          <span className="text-sm">Indexing {file.name}... {progress}%</span>
+          <div className="w-64 h-1 rounded-full bg-accents-2 overflow-hidden">
+            <div className="h-full bg-accents-8 transition-all duration-200" style={{ width: `${progress}%` }} />
+          </div>
+          <button onClick={onClose} className="text-xs text-accents-5 hover:text-accents-8 underline underline-offset-2">
+            Cancel
+          </button>
+        </div>
+      ) : mode === 'tree' ? (
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="flex-1 overflow-auto font-mono text-xs"
+        >
+          <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+            {visibleRows.map((row, i) => {
+              const top = (firstRow + i) * ROW_HEIGHT;
+              const indent = 12 + row.depth * 16;
+              if (row.type === 'more') {
+                return (
+                  <button
+                    key={`more-${row.parent}`}
+                    onClick={() => showMore(row.parent, row.shown)}
+                    className="absolute left-0 right-0 flex items-center text-left text-accents-5 hover:text-accents-8 hover:bg-accents-1"
+                    style={{ top, height: ROW_HEIGHT, paddingLeft: indent + 20 }}
+                  >
+                    Show next {Math.min(CHILD_PAGE_SIZE, row.total - row.shown).toLocaleString()} of {(row.total - row.shown).toLocaleString()} remaining
+                  </button>
+                );
+              }
+              const canExpand = isContainer(row.kind);
+              const isOpen = expanded.has(row.start);
+              return (
+                <div
+                  key={row.start}
+                  onClick={canExpand ? () => toggleNode(row.start) : undefined}
+                  className={`absolute left-0 right-0 flex items-center gap-1.5 pr-4 whitespace-nowrap ${canExpand ? 'cursor-pointer hover:bg-accents-1' : ''} ${selected === row.start ? 'bg-accents-1' : ''}`}
+                  style={{ top, height: ROW_HEIGHT, paddingLeft: indent }}
+                >
+                  <span className="w-4 shrink-0 text-accents-5">
+                    {indexing.has(row.start)
+                      ? <Loader2 size={12} className="animate-spin" />
+                      : canExpand && (isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+                  </span>
+                  <span className="text-accents-8 shrink-0">{row.label}</span>
+                  <span className="text-accents-4 shrink-0">:</span>
+                  {renderSummary(row)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col min-h-0">
+          <div className="flex items-center justify-between px-4 h-9 border-b border-accents-2 text-xs text-accents-5 shrink-0">
+            {selectedIndex ? (
+              <>
+                <span>
+                  {selectedIndex.type === 'object' ? 'Entries' : 'Rows'} {(page * TABLE_PAGE_SIZE + 1).toLocaleString()}
+                  {'–'}{Math.min((page + 1) * TABLE_PAGE_SIZE, selectedIndex.starts.length).toLocaleString()} of {selectedIndex.starts.length.toLocaleString()}
+                </span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setPage(p => Math.max(0, p - 1))}
+                    disabled={page === 0}
+                    className="p-1 rounded hover:bg-accents-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Previous page"
+                  >
+                    <ChevronLeft size={14} />
+                  </button>
+                  <span className="font-mono">{page + 1} / {pageCount.toLocaleString()}</span>
+                  <button
+                    onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                    disabled={page >= pageCount - 1}
+                    className="p-1 rounded hover:bg-accents-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Next page"
+                  >
+                    <ChevronRight size={14} />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <span>Select an object or array in the tree to page through it here.</span>
+            )}
+          </div>
+          <div className="flex-1 min-h-0 relative">
+            {selectedIndex && (pageText === null
+              ? (
+                <div className="absolute inset-0 flex items-center justify-center text-accents-5">
+                  <Loader2 size={20} className="animate-spin" />
+                </div>
+              )
+              : <JsonTableView value={pageText} />)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
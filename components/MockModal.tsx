@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Editor from '@monaco-editor/react';
+import { Dices, X, AlertTriangle, CheckCircle2, Copy, FilePlus } from 'lucide-react';
+import { Button } from './Button';
+import { defineThemes } from './Editor';
+import { generateMockData } from '../lib/mock';
+import { inferSchema, DEFAULT_INFER_SCHEMA_OPTIONS } from '../lib/inferSchema';
+import { validateSchema } from '../lib/schema';
+import { parseJsonText } from '../lib/relaxed';
+import { parseRecords } from '../lib/ndjson';
+import { formatPath, trackEvent } from '../lib/utils';
+import { AttachedSchema } from '../types';
+
+type MockSource = 'template' | 'schema' | 'attached';
+type MockOutput = 'array' | 'ndjson';
+
+interface MockModalProps {
+  isOpen: boolean;
+  document: string;
+  relaxed: boolean;
+  ndjson: boolean;
+  attachedSchema: AttachedSchema | null;
+  indentation: number | string;
+  theme: 'light' | 'dark';
+  onOpen: (content: string, ndjson: boolean) => void;
+  onClose: () => void;
+}
+
+const MAX_COUNT = 10000;
+
+const INPUT_CLASS = 'bg-background border border-accents-2 rounded-md px-2 py-1 text-accents-8 focus:outline-none focus:border-accents-5';
+
+export const MockModal: React.FC<MockModalProps> = ({ isOpen, document, relaxed, ndjson, attachedSchema, indentation, theme, onOpen, onClose }) => {
+  const [source, setSource] = useState<MockSource>('template');
+  const [count, setCount] = useState(10);
+  const [seed, setSeed] = useState('1');
+  const [output, setOutput] = useState<MockOutput>('array');
+  const [isCopied, setIsCopied] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsCopied(false);
+    if (source === 'attached' && !attachedSchema) setSource('template');
+  }, [isOpen]);
+
+  // The schema records are generated from, and whether they are checked against it afterwards
+  const schema = useMemo(() => {
+    if (!isOpen) return { value: null, error: null };
+    try {
+      if (source === 'attached') return { value: attachedSchema?.schema ?? null, error: null };
+      if (!document.trim()) return { value: null, error: 'The document is empty' };
+      if (source === 'schema') {
+        const value = parseJsonText(document, relaxed);
+        if (typeof value !== 'boolean' && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+          throw new Error('A JSON Schema must be an object or a boolean');
+        }
+        return { value, error: null };
+      }
+      // A template that is a list (or NDJSON) describes one record per element
+      const parsed = ndjson ? parseRecords(document, relaxed) : parseJsonText(document, relaxed);
+      const samples = Array.isArray(parsed) && parsed.length > 0 ? parsed : [parsed];
+      return { value: inferSchema(samples, { ...DEFAULT_INFER_SCHEMA_OPTIONS, ranges: true }), error: null };
+    } catch (e) {
+      return { value: null, error: (e as Error).message };
+    }
+  }, [isOpen, source, document, relaxed, ndjson, attachedSchema]);
+
+  const result = useMemo(() => {
+    if (schema.value === null) return { records: null, text: '', error: schema.error };
+    try {
+      const records = generateMockData(schema.value, { count, seed });
+      const text = output === 'ndjson'
+        ? records.map(record => JSON.stringify(record)).join('\n') + '\n'
+        : JSON.stringify(records, null, indentation);
+      return { records, text, error: null };
+    } catch (e) {
+      return { records: null, text: '', error: (e as Error).message };
+    }
+  }, [schema, count, seed, output, indentation]);
+
+  // Generated records should always pass; anything else points at a keyword the generator does not handle
+  const violations = useMemo(() => {
+    if (!result.records || schema.value === null) return [];
+    return result.records.flatMap((record, i) => validateSchema(record, schema.value).map(v => `[${i}]${formatPath(v.path).replace(/^\$/, '')}: ${v.message}`));
+  }, [result, schema]);
+
+  if (!isOpen) return null;
+
+  const handleCountChange = (value: string) => {
+    const parsed = Math.floor(Number(value));
+    setCount(Number.isFinite(parsed) ? Math.min(MAX_COUNT, Math.max(1, parsed)) : 1);
+  };
+
+  const handleCopy = async () => {
+    trackEvent('mock_copy', { source, count });
+    try {
+      await navigator.clipboard.writeText(result.text);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  const handleOpen = () => {
+    trackEvent('mock_generate', { source, count, output });
+    onOpen(result.text, output === 'ndjson');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl bg-background border border-accents-2 rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-accents-2 bg-accents-1 shrink-0">
+          <div className="flex items-center gap-2 text-accents-8 font-semibold">
+            <Dices className="w-5 h-5 text-blue-500" />
+            <h3>Mock Data</h3>
+          </div>
+          <button onClick={onClose} className="text-accents-4 hover:text-accents-8 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 min-h-0 flex-1">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-accents-5 shrink-0">
+            <label className="flex items-center gap-2">
+              From
+              <select value={source} onChange={(e) => setSource(e.target.value as MockSource)} className={INPUT_CLASS}>
+                <option value="template">Current document as a template</option>
+                <option value="schema">Current document as a JSON Schema</option>
+                <option value="attached" disabled={!attachedSchema}>
+                  Attached schema{attachedSchema ? ` (${attachedSchema.name})` : ''}
+                </option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Records
+              <input type="number" min={1} max={MAX_COUNT} value={count} onChange={(e) => handleCountChange(e.target.value)} className={`${INPUT_CLASS} w-20`} />
+            </label>
+            <label className="flex items-center gap-2" title="The same seed always generates the same records">
+              Seed
+              <input type="text" value={seed} onChange={(e) => setSeed(e.target.value)} className={`${INPUT_CLASS} w-24 font-mono`} />
+              <button
+                onClick={() => setSeed(String(Math.floor(Math.random() * 1000000)))}
+                className="p-1 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8"
+                title="New random seed"
+              >
+                <Dices size={14} />
+              </button>
+            </label>
+            <label className="flex items-center gap-2">
+              As
+              <select value={output} onChange={(e) => setOutput(e.target.value as MockOutput)} className={INPUT_CLASS}>
+                <option value="array">JSON array</option>
+                <option value="ndjson">NDJSON</option>
+              </select>
+            </label>
+          </div>
+
+          {result.error ? (
+            <div className="flex items-center gap-2 p-3 rounded-md border border-error/30 bg-error/10 text-xs text-error shrink-0">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span className="font-mono break-all">{result.error}</span>
+            </div>
+          ) : violations.length > 0 ? (
+            <div className="flex items-start gap-2 p-3 rounded-md border border-warning/30 bg-warning/10 text-xs text-warning shrink-0">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span className="font-mono break-all">
+                {violations.length} value{violations.length === 1 ? '' : 's'} do not match the schema, e.g. {violations[0]}
+              </span>
+            </div>
+          ) : result.records && (
+            <div className="flex items-center gap-2 text-xs text-success shrink-0">
+              <CheckCircle2 className="w-4 h-4" />
+              All {result.records.length} records match the schema
+            </div>
+          )}
+
+          <div className="h-[50vh] border border-accents-2 rounded-md overflow-hidden">
+            <Editor
+              height="100%"
+              language="json"
+              value={result.text}
+              beforeMount={defineThemes}
+              theme={theme === 'dark' ? 'vercel-dark' : 'vercel-light'}
+              loading={<div className="w-full h-full bg-background" />}
+              options={{
+                readOnly: true,
+                minimap: { enabled: false },
+                fontSize: 13,
+                fontFamily: "'JetBrains Mono', monospace",
+                lineHeight: 22,
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-accents-2 shrink-0">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="secondary" disabled={!result.records} onClick={handleCopy} icon={<Copy className="w-4 h-4" />}>
+            {isCopied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button variant="primary" disabled={!result.records} onClick={handleOpen} icon={<FilePlus className="w-4 h-4" />}>
+            Open in new tab
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { Diagnostic } from '../types';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+  onClose: () => void;
+}
+
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, onSelect, onClose }) => {
+  return (
+    <div className="h-48 flex flex-col bg-background border-t border-accents-2 shrink-0 transition-colors duration-300">
+      <div className="h-8 flex items-center justify-between px-4 border-b border-accents-2 bg-accents-1 shrink-0">
+        <div className="flex items-center gap-2 text-[11px] font-medium uppercase tracking-wider text-accents-5">
+          <span>Problems</span>
+          <span className="px-1.5 py-0.5 rounded-full bg-accents-2 text-accents-7 text-[10px]">{diagnostics.length}</span>
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8" title="Close Problems">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {diagnostics.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-xs text-accents-4">No problems detected</div>
+        ) : (
+          <ul className="divide-y divide-accents-2">
+            {diagnostics.map((diagnostic, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => onSelect(diagnostic)}
+                  className="w-full flex items-start gap-2 px-4 py-1.5 text-left text-xs hover:bg-accents-1 transition-colors"
+                >
+                  {diagnostic.severity === 'error'
+                    ? <AlertCircle size={12} className="text-error shrink-0 mt-0.5" />
+                    : <AlertTriangle size={12} className="text-warning shrink-0 mt-0.5" />}
+                  <span className="flex-1 min-w-0">
+                    <span className="text-accents-8">{diagnostic.message}</span>
+                    {diagnostic.hint && <span className="text-accents-5"> &middot; {diagnostic.hint}</span>}
+                  </span>
+                  {diagnostic.path && <span className="font-mono text-accents-5 truncate max-w-[40%]">{diagnostic.path}</span>}
+                  <span className="font-mono text-accents-4 shrink-0">
+                    [{diagnostic.startLineNumber}, {diagnostic.startColumn}]
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Code, GitGraph, Table, X, FilePlus2, AlertTriangle, Sparkles, Loader2 } from 'lucide-react';
+import { JsonEditor } from './Editor';
+import { JsonGraphView } from './JsonTreeView';
+import { JsonTableView } from './JsonTableView';
+import { Button } from './Button';
+import { trackEvent } from '../lib/utils';
+import { QueryLanguage } from '../lib/query';
+import { AiCancelledError } from '../lib/aiProviders';
+
+type ResultView = 'code' | 'graph' | 'table';
+
+interface QueryPanelProps {
+  // Serialized results, or null while there is nothing to show
+  resultText: string | null;
+  count: number;
+  error: string | null;
+  theme: 'light' | 'dark';
+  // Parsed document the question is about, or undefined while it does not parse
+  data: any;
+  language: QueryLanguage;
+  // Bumped by the toolbar to focus the question field
+  askTrigger: number;
+  // The generated expression replaces the query, where it can be edited and runs like a typed one
+  onExpressionGenerated: (expression: string) => void;
+  onOpenAsDocument: () => void;
+  onClose: () => void;
+}
+
+const VIEW_OPTIONS: { id: ResultView; label: string; icon: React.ReactNode }[] = [
+  { id: 'code', label: 'Code', icon: <Code size={12} /> },
+  { id: 'graph', label: 'Graph', icon: <GitGraph size={12} /> },
+  { id: 'table', label: 'Table', icon: <Table size={12} /> },
+];
+
+export const QueryPanel: React.FC<QueryPanelProps> = ({
+  resultText,
+  count,
+  error,
+  theme,
+  data,
+  language,
+  askTrigger,
+  onExpressionGenerated,
+  onOpenAsDocument,
+  onClose,
+}) => {
+  const [resultView, setResultView] = useState<ResultView>('code');
+  const [question, setQuestion] = useState('');
+  const [askError, setAskError] = useState<string | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const askInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (askTrigger > 0) askInputRef.current?.focus();
+  }, [askTrigger]);
+
+  // Closing the panel drops a pending translation
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || data === undefined || isAsking) return;
+    trackEvent('query_ask', { language });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAsking(true);
+    setAskError(null);
+    try {
+      // Loaded on demand, like every other AI feature
+      const ai = await import('../lib/ai').catch(() => {
+        throw new Error('The AI module could not be loaded. Check your connection and reload the page.');
+      });
+      onExpressionGenerated(await ai.translateQuery(question, data, language, controller.signal));
+    } catch (err) {
+      if (!(err instanceof AiCancelledError)) setAskError((err as Error).message);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsAsking(false);
+    }
+  };
+
+  const handleCancelAsk = () => {
+    trackEvent('query_ask_cancel');
+    abortRef.current?.abort();
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-background border-l border-accents-2 transition-colors duration-300">
+      <div className="h-10 flex items-center justify-between gap-2 px-3 border-b border-accents-2 bg-accents-1 shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-[11px] font-medium uppercase tracking-wider text-accents-5">Results</span>
+          {!error && resultText !== null && (
+            <span className="px-1.5 py-0.5 rounded-full bg-accents-2 text-accents-7 text-[10px] font-mono">{count}</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <div className="flex items-center bg-background p-0.5 rounded-md border border-accents-2">
+            {VIEW_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setResultView(option.id);
+                  trackEvent('query_switch_view', { mode: option.id });
+                }}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium transition-all ${
+                  resultView === option.id ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'
+                }`}
+                title={`Show results as ${option.label}`}
+              >
+                {option.icon}
+                <span className="hidden xl:inline">{option.label}</span>
+              </button>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onOpenAsDocument}
+            disabled={!!error || resultText === null}
+            icon={<FilePlus2 className="w-3.5 h-3.5" />}
+            title="Open results as a document"
+          >
+            <span className="hidden xl:inline">Open</span>
+          </Button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8" title="Close Results">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleAsk} className="px-3 py-2 border-b border-accents-2 shrink-0">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-3.5 h-3.5 text-purple-500 shrink-0" />
+          <input
+            ref={askInputRef}
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask, e.g. models released after 2022 with more than 250 hp"
+            disabled={isAsking}
+            className="flex-1 min-w-0 bg-transparent text-xs text-accents-8 placeholder:text-accents-4 focus:outline-none"
+          />
+          {isAsking ? (
+            <Button type="button" size="sm" onClick={handleCancelAsk} icon={<Loader2 className="w-3.5 h-3.5 animate-spin" />} title="Stop waiting for the AI model">
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!question.trim() || data === undefined}
+              title={data === undefined ? 'The document must be valid JSON' : `Translate into ${language === 'jsonpath' ? 'JSONPath' : 'JMESPath'}`}
+            >
+              Ask
+            </Button>
+          )}
+        </div>
+        <p className={`mt-1 text-[10px] ${askError ? 'text-error' : 'text-accents-4'}`}>
+          {askError || 'Only key names and types are sent to the model. The query runs here, and you can edit it in the toolbar.'}
+        </p>
+      </form>
+
+      <div className="flex-1 relative min-h-0">
+        {error ? (
+          <div className="h-full flex flex-col items-center justify-center text-error gap-3 p-6 text-center">
+            <AlertTriangle size={24} />
+            <p className="text-xs font-mono break-all">{error}</p>
+          </div>
+        ) : resultText === null ? (
+          <div className="h-full flex items-center justify-center p-6 text-center text-xs text-accents-4">
+            Type a query or ask a question to see results
+          </div>
+        ) : (
+          <>
+            <div className={`absolute inset-0 ${resultView === 'code' ? 'block' : 'hidden'}`}>
+              <JsonEditor value={resultText} onChange={() => {}} error={null} indentation={2} theme={theme} readOnly />
+            </div>
+            {resultView === 'graph' && (
+              <div className="absolute inset-0">
+                <JsonGraphView value={resultText} />
+              </div>
+            )}
+            {resultView === 'table' && (
+              <div className="absolute inset-0">
+                <JsonTableView value={resultText} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
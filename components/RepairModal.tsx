@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Wrench, X, Sparkles, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from './Button';
+import { defineThemes } from './Editor';
+import { repairJson } from '../lib/repair';
+import { trackEvent } from '../lib/utils';
+import { AiCancelledError } from '../lib/aiProviders';
+
+interface RepairModalProps {
+  isOpen: boolean;
+  // The broken document
+  original: string;
+  // Parse error of the original, passed on to the AI fallback
+  error: string | null;
+  theme: 'light' | 'dark';
+  // Opened from "Fix with AI": ask the model right away instead of offering it as a fallback
+  preferAi: boolean;
+  onApply: (text: string, source: 'local' | 'ai') => void;
+  onClose: () => void;
+}
+
+// Fix lists can get long for badly broken files; the diff shows the rest
+const MAX_LISTED_FIXES = 8;
+
+export const RepairModal: React.FC<RepairModalProps> = ({ isOpen, original, error, theme, preferAi, onApply, onClose }) => {
+  const [aiResult, setAiResult] = useState<string | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [isAiLoading, setIsAiLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The local engine is cheap, so it runs every time the modal opens
+  const repair = useMemo(() => (isOpen ? repairJson(original) : null), [isOpen, original]);
+
+  const handleAiRepair = async () => {
+    trackEvent(preferAi ? 'repair_ai' : 'repair_ai_fallback');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAiLoading(true);
+    setAiError(null);
+    try {
+      // Loaded on demand: the offline path must not depend on the AI client
+      const ai = await import('../lib/ai').catch(() => {
+        throw new Error('The AI module could not be loaded. Check your connection and reload the page.');
+      });
+      const fixed = await ai.fixJson(original, repair?.error || error || 'Invalid JSON', controller.signal);
+      try {
+        JSON.parse(fixed);
+      } catch (e) {
+        throw new Error('The model did not return valid JSON');
+      }
+      setAiResult(fixed);
+    } catch (e) {
+      if (!(e instanceof AiCancelledError)) setAiError((e as Error).message || 'AI repair failed');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsAiLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setAiResult(null);
+      setAiError(null);
+      setIsAiLoading(false);
+      if (preferAi) handleAiRepair();
+    }
+    return () => abortRef.current?.abort();
+  }, [isOpen, original]);
+
+  if (!isOpen || !repair) return null;
+
+  const handleCancelAi = () => {
+    trackEvent('repair_ai_cancel');
+    abortRef.current?.abort();
+  };
+
+  // In AI mode the diff stays empty until the model answers
+  const proposed = aiResult ?? (preferAi ? original : repair.text);
+  const canApply = aiResult !== null || (!preferAi && repair.isValid);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl bg-background border border-accents-2 rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-accents-2 bg-accents-1 shrink-0">
+          <div className="flex items-center gap-2 text-accents-8 font-semibold">
+            <Wrench className="w-5 h-5 text-amber-500" />
+            <h3>Repair JSON</h3>
+            <span className="text-xs font-normal text-accents-5">
+              {aiResult !== null
+                ? 'Suggested by AI'
+                : preferAi
+                  ? 'Fix with AI'
+                  : `${repair.fixes.length} ${repair.fixes.length === 1 ? 'fix' : 'fixes'} found offline`}
+            </span>
+          </div>
+          <button onClick={onClose} className="text-accents-4 hover:text-accents-8 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 min-h-0 flex-1">
+          {aiResult === null && !preferAi && repair.fixes.length > 0 && (
+            <ul className="flex flex-wrap gap-2 shrink-0">
+              {repair.fixes.slice(0, MAX_LISTED_FIXES).map((fix, index) => (
+                <li key={index} className="px-2 py-1 rounded-md bg-accents-1 border border-accents-2 text-xs text-accents-7">
+                  <span className="font-mono text-accents-4 mr-1.5">L{fix.lineNumber}</span>
+                  {fix.message}
+                </li>
+              ))}
+              {repair.fixes.length > MAX_LISTED_FIXES && (
+                <li className="px-2 py-1 text-xs text-accents-5">+{repair.fixes.length - MAX_LISTED_FIXES} more</li>
+              )}
+            </ul>
+          )}
+
+          {aiResult === null && (preferAi || !repair.isValid) && (
+            <div className="flex items-start gap-3 p-3 rounded-md border border-warning/30 bg-warning/10 text-xs shrink-0">
+              {preferAi ? <Sparkles className="w-4 h-4 text-purple-500 shrink-0 mt-0.5" /> : <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />}
+              <div className="flex-1 min-w-0">
+                {preferAi ? (
+                  <p className="text-accents-8 font-medium">
+                    {isAiLoading ? 'Asking the AI model to fix the document...' : 'The document was not changed'}
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-accents-8 font-medium">The offline repair could not produce valid JSON</p>
+                    <p className="text-accents-5 font-mono break-all mt-1">{repair.error}</p>
+                  </>
+                )}
+                {aiError && <p className="text-error mt-1">{aiError}</p>}
+              </div>
+              {isAiLoading ? (
+                <Button size="sm" onClick={handleCancelAi} icon={<Loader2 className="w-3.5 h-3.5 animate-spin" />} title="Stop waiting for the AI model">
+                  Cancel
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={handleAiRepair}
+                  icon={<Sparkles className="w-3.5 h-3.5 text-purple-500" />}
+                  title="Send the document to the AI model for repair"
+                >
+                  {preferAi ? 'Retry' : 'Try AI repair'}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {canApply && (
+            <div className="flex items-center gap-2 text-xs text-success shrink-0">
+              <CheckCircle2 className="w-4 h-4" />
+              <span>The result is valid JSON. Review the changes below before applying them.</span>
+            </div>
+          )}
+
+          <div className="h-[50vh] border border-accents-2 rounded-md overflow-hidden">
+            <DiffEditor
+              height="100%"
+              language="json"
+              original={original}
+              modified={proposed}
+              beforeMount={defineThemes}
+              theme={theme === 'dark' ? 'vercel-dark' : 'vercel-light'}
+              loading={<div className="w-full h-full bg-background" />}
+              options={{
+                readOnly: true,
+                originalEditable: false,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                fontSize: 13,
+                fontFamily: "'JetBrains Mono', monospace",
+                lineHeight: 22,
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-accents-2 shrink-0">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!canApply}
+            onClick={() => onApply(proposed, aiResult !== null ? 'ai' : 'local')}
+            icon={<Wrench className="w-4 h-4" />}
+          >
+            Apply fix
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
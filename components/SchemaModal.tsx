@@ -0,0 +1,260 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { FileCheck2, X, Upload, Unlink, Wand2, FilePlus } from 'lucide-react';
+import { Button } from './Button';
+import { SCHEMA_PRESETS } from '../lib/schemas';
+import { inferSchema, DEFAULT_INFER_SCHEMA_OPTIONS } from '../lib/inferSchema';
+import { parseLossless } from '../lib/lossless';
+import { parseRecords, NDJSON_EXTENSIONS } from '../lib/ndjson';
+import { AttachedSchema } from '../types';
+
+interface SchemaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  current: AttachedSchema | null;
+  onAttach: (schema: AttachedSchema) => void;
+  onDetach: () => void;
+  // The current document as samples (one per NDJSON record), null when it does not parse
+  documentSamples: any[] | null;
+  onInfer: (schema: Record<string, any>, sampleCount: number) => void;
+}
+
+interface SampleFile {
+  name: string;
+  samples: any[];
+}
+
+const REQUIRED_RATIOS = [
+  { value: 1, label: 'every sample' },
+  { value: 0.9, label: '90% of samples' },
+  { value: 0.5, label: 'half the samples' },
+];
+
+const readSamples = (name: string, text: string): any[] => {
+  if (NDJSON_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext))) return parseRecords(text, true);
+  return [parseLossless(text, { relaxed: true })];
+};
+
+const parseSchemaText = (text: string): AttachedSchema['schema'] => {
+  const parsed = JSON.parse(text);
+  if (typeof parsed !== 'boolean' && (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed))) {
+    throw new Error('A JSON Schema must be an object or a boolean');
+  }
+  return parsed;
+};
+
+export const SchemaModal: React.FC<SchemaModalProps> = ({ isOpen, onClose, current, onAttach, onDetach, documentSamples, onInfer }) => {
+  const [schemaText, setSchemaText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sampleFiles, setSampleFiles] = useState<SampleFile[]>([]);
+  const [useDocument, setUseDocument] = useState(true);
+  const [requiredRatio, setRequiredRatio] = useState(DEFAULT_INFER_SCHEMA_OPTIONS.requiredRatio);
+  const [inferEnums, setInferEnums] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const samplesInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSchemaText(current ? JSON.stringify(current.schema, null, 2) : '');
+      setError(null);
+    }
+  }, [isOpen, current]);
+
+  if (!isOpen) return null;
+
+  const handleAttachText = (name: string, text: string) => {
+    try {
+      onAttach({ name, schema: parseSchemaText(text) });
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => handleAttachText(file.name, String(reader.result || ''));
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+  };
+
+  const handleSamplesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    const added: SampleFile[] = [];
+    for (const file of files) {
+      try {
+        added.push({ name: file.name, samples: readSamples(file.name, await file.text()) });
+      } catch (err) {
+        setError(`${file.name}: ${(err as Error).message}`);
+        return;
+      }
+    }
+    setError(null);
+    setSampleFiles(prev => [...prev, ...added]);
+  };
+
+  const samples = [...(useDocument && documentSamples ? documentSamples : []), ...sampleFiles.flatMap(f => f.samples)];
+
+  const handleInfer = () => {
+    const schema = inferSchema(samples, {
+      requiredRatio,
+      maxEnumValues: inferEnums ? DEFAULT_INFER_SCHEMA_OPTIONS.maxEnumValues : 0,
+    });
+    onInfer(schema, samples.length);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-background border border-accents-2 rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-accents-2 bg-accents-1">
+          <div className="flex items-center gap-2 text-accents-8 font-semibold">
+            <FileCheck2 className="w-5 h-5 text-green-500" />
+            <h3>JSON Schema</h3>
+            {current && <span className="text-xs font-normal text-accents-5">Attached: {current.name}</span>}
+          </div>
+          <button onClick={onClose} className="text-accents-4 hover:text-accents-8 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-5 max-h-[80vh] overflow-y-auto">
+          <div>
+            <span className="block text-sm font-medium text-accents-5 mb-2">Pick a bundled schema</span>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {SCHEMA_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => onAttach(preset)}
+                  className={`text-left p-3 rounded-md border transition-colors ${
+                    current?.name === preset.name
+                      ? 'border-accents-5 bg-accents-1'
+                      : 'border-accents-2 hover:border-accents-5'
+                  }`}
+                >
+                  <div className="text-xs font-semibold text-accents-8">{preset.name}</div>
+                  <div className="text-[11px] text-accents-5 mt-1">{preset.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-accents-5 mb-2">Or infer one from samples</span>
+            <div className="flex flex-col gap-3 p-3 rounded-md border border-accents-2 text-xs text-accents-6">
+              <div className="flex flex-wrap items-center gap-2">
+                <label className={`flex items-center gap-2 ${documentSamples ? '' : 'text-accents-3'}`}>
+                  <input
+                    type="checkbox"
+                    checked={useDocument && !!documentSamples}
+                    disabled={!documentSamples}
+                    onChange={(e) => setUseDocument(e.target.checked)}
+                  />
+                  Current document{documentSamples && documentSamples.length > 1 ? ` (${documentSamples.length} records)` : ''}
+                </label>
+                {sampleFiles.map((file, i) => (
+                  <span key={`${file.name}-${i}`} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-accents-1 border border-accents-2 font-mono text-[11px]">
+                    {file.name}
+                    {file.samples.length > 1 && <span className="text-accents-4">×{file.samples.length}</span>}
+                    <button onClick={() => setSampleFiles(prev => prev.filter((_, j) => j !== i))} className="p-0.5 rounded-full text-accents-4 hover:text-accents-8" title="Remove sample">
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="file"
+                  ref={samplesInputRef}
+                  onChange={handleSamplesChange}
+                  className="hidden"
+                  multiple
+                  accept={['.json', '.json5', ...NDJSON_EXTENSIONS, 'application/json'].join(',')}
+                />
+                <button onClick={() => samplesInputRef.current?.click()} className="flex items-center gap-1 text-accents-5 hover:text-accents-8">
+                  <FilePlus size={12} /> Add sample files
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="flex items-center gap-2">
+                    Required when present in
+                    <select
+                      value={requiredRatio}
+                      onChange={(e) => setRequiredRatio(Number(e.target.value))}
+                      className="bg-background border border-accents-2 rounded-md px-2 py-1 text-accents-8 focus:outline-none focus:border-accents-5"
+                    >
+                      {REQUIRED_RATIOS.map(ratio => (
+                        <option key={ratio.value} value={ratio.value}>{ratio.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={inferEnums} onChange={(e) => setInferEnums(e.target.checked)} />
+                    Enums for repeated values
+                  </label>
+                </div>
+                <Button type="button" size="sm" disabled={samples.length === 0} onClick={handleInfer} icon={<Wand2 className="w-3.5 h-3.5" />}>
+                  Infer schema
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="schema-text" className="block text-sm font-medium text-accents-5 mb-2">
+              Or paste a schema
+            </label>
+            <textarea
+              id="schema-text"
+              value={schemaText}
+              onChange={(e) => {
+                setSchemaText(e.target.value);
+                setError(null);
+              }}
+              placeholder='{ "type": "object", "required": ["id"] }'
+              spellCheck={false}
+              className="w-full h-48 px-3 py-2 bg-background border border-accents-2 rounded-md focus:outline-none focus:ring-1 focus:ring-accents-5 text-xs font-mono resize-none placeholder:text-accents-3"
+            />
+            {error && <p className="mt-2 text-xs text-error font-mono">{error}</p>}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 pt-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleFileChange}
+                className="hidden"
+                accept=".json,application/json,application/schema+json"
+              />
+              <Button type="button" size="sm" onClick={() => fileInputRef.current?.click()} icon={<Upload className="w-3.5 h-3.5" />}>
+                Upload
+              </Button>
+              {current && (
+                <Button type="button" size="sm" variant="ghost" onClick={onDetach} icon={<Unlink className="w-3.5 h-3.5" />}>
+                  Detach
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <Button type="button" variant="secondary" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                disabled={!schemaText.trim()}
+                onClick={() => handleAttachText('Custom schema', schemaText)}
+              >
+                Attach
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
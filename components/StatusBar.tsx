@@ -1,26 +1,73 @@
 import React from 'react';
 import { EditorStats } from '../types';
-import { CheckCircle2, XCircle } from 'lucide-react';
+import { CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
 
 interface StatusBarProps {
   stats: EditorStats;
   error: string | null;
+  // Number of syntax errors; the first one is described by `error`
+  errorCount?: number;
+  onErrorClick?: () => void;
+  // Numbers that JSON.parse would round
+  precisionCount?: number;
+  schemaName?: string | null;
+  problemCount?: number;
+  onProblemsClick?: () => void;
 }
 
-export const StatusBar: React.FC<StatusBarProps> = ({ stats, error }) => {
+export const StatusBar: React.FC<StatusBarProps> = ({ stats, error, errorCount = 0, onErrorClick, precisionCount = 0, schemaName, problemCount = 0, onProblemsClick }) => {
   return (
     <div className="h-8 flex items-center justify-between px-4 bg-accents-1 border-t border-accents-2 text-[11px] font-mono text-accents-5 select-none shrink-0 z-10 transition-colors duration-300">
       <div className="flex items-center gap-4">
         {/* Validation Status */}
-        <div 
-          className={`flex items-center gap-1.5 transition-colors duration-300 ${error ? 'text-error' : 'text-green-500'}`}
-          title={error || "JSON syntax is valid"}
-        >
-          {error ? <XCircle size={12} /> : <CheckCircle2 size={12} />}
-          <span className="font-medium">
-            {error ? 'Invalid JSON' : 'Valid JSON'}
-          </span>
-        </div>
+        {error ? (
+          <button
+            onClick={onErrorClick}
+            className="flex items-center gap-1.5 text-error hover:opacity-80 transition-all duration-300"
+            title={`${error}. Click to jump to the first error.`}
+          >
+            <XCircle size={12} />
+            <span className="font-medium">Invalid JSON</span>
+            {errorCount > 1 && <span className="text-error/70">· {errorCount} errors</span>}
+          </button>
+        ) : (
+          <div 
+            className="flex items-center gap-1.5 transition-colors duration-300 text-green-500"
+            title="JSON syntax is valid"
+          >
+            <CheckCircle2 size={12} />
+            <span className="font-medium">Valid JSON</span>
+          </div>
+        )}
+
+        {/* Precision Warning */}
+        {precisionCount > 0 && (
+          <button
+            onClick={onProblemsClick}
+            className="flex items-center gap-1.5 text-warning hover:text-accents-8 transition-colors"
+            title={`${precisionCount} ${precisionCount === 1 ? 'number is' : 'numbers are'} too large or too precise for JavaScript and would change with JSON.parse. Click to toggle the Problems panel.`}
+          >
+            <AlertTriangle size={12} />
+            <span className="font-medium">
+              {precisionCount} imprecise {precisionCount === 1 ? 'number' : 'numbers'}
+            </span>
+          </button>
+        )}
+
+        {/* Schema Status */}
+        {schemaName && (
+          <button
+            onClick={onProblemsClick}
+            className={`flex items-center gap-1.5 hover:text-accents-8 transition-colors ${problemCount > 0 ? 'text-warning' : 'text-accents-5'}`}
+            title={`Validated against ${schemaName}. Click to toggle the Problems panel.`}
+          >
+            {problemCount > 0 ? <AlertTriangle size={12} /> : <CheckCircle2 size={12} />}
+            <span className="font-medium">
+              {problemCount} {problemCount === 1 ? 'problem' : 'problems'}
+            </span>
+            <span className="text-accents-4 hidden md:inline truncate max-w-[160px]">· {schemaName}</span>
+          </button>
+        )}
       </div>
       
       <div className="flex items-center gap-4 md:gap-6">
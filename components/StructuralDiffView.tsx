@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ChevronRight, Plus, Minus, PenLine, MoveVertical, CheckCircle2 } from 'lucide-react';
+import { StructuralDiff, DiffNode, DiffKind } from '../lib/structuralDiff';
+import { stringifyLossless } from '../lib/lossless';
+
+interface StructuralDiffViewProps {
+  diff: StructuralDiff;
+}
+
+export const DIFF_KIND_STYLES: Record<DiffKind, { label: string; text: string; badge: string; icon: React.ReactNode }> = {
+  added: { label: 'Added', text: 'text-green-600 dark:text-green-400', badge: 'bg-green-500/15 text-green-600 dark:text-green-400', icon: <Plus size={10} /> },
+  removed: { label: 'Removed', text: 'text-red-600 dark:text-red-400', badge: 'bg-red-500/15 text-red-600 dark:text-red-400', icon: <Minus size={10} /> },
+  changed: { label: 'Changed', text: 'text-amber-600 dark:text-amber-400', badge: 'bg-amber-500/15 text-amber-600 dark:text-amber-400', icon: <PenLine size={10} /> },
+  moved: { label: 'Moved', text: 'text-blue-600 dark:text-blue-400', badge: 'bg-blue-500/15 text-blue-600 dark:text-blue-400', icon: <MoveVertical size={10} /> },
+};
+
+const preview = (value: any) => {
+  if (value === undefined) return 'undefined';
+  const text = stringifyLossless(value, '');
+  return text.length > 60 ? text.substring(0, 60) + '...' : text;
+};
+
+const DiffTreeNode: React.FC<{ node: DiffNode; depth: number }> = ({ node, depth }) => {
+  const [isExpanded, setIsExpanded] = useState(depth < 4);
+  const hasChildren = node.children.length > 0;
+  const style = node.kind ? DIFF_KIND_STYLES[node.kind] : null;
+
+  return (
+    <div>
+      <div
+        className={`flex items-center gap-2 py-1 pr-4 text-xs font-mono hover:bg-accents-1 ${hasChildren ? 'cursor-pointer' : ''}`}
+        style={{ paddingLeft: 16 + depth * 16 }}
+        onClick={() => hasChildren && setIsExpanded(prev => !prev)}
+        title={node.path}
+      >
+        <span className={`w-3 shrink-0 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`}>
+          {hasChildren && <ChevronRight size={12} className="text-accents-5" />}
+        </span>
+        <span className={`font-semibold ${style ? style.text : 'text-accents-7'}`}>{node.name}</span>
+        {style && (
+          <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-sans font-medium ${style.badge}`}>
+            {style.icon}
+            {style.label}
+          </span>
+        )}
+        {node.kind === 'changed' && (
+          <span className="truncate">
+            <span className="text-red-600 dark:text-red-400 line-through">{preview(node.oldValue)}</span>
+            <span className="mx-1.5 text-accents-4">→</span>
+            <span className="text-green-600 dark:text-green-400">{preview(node.newValue)}</span>
+          </span>
+        )}
+        {node.kind === 'added' && <span className="truncate text-accents-5">{preview(node.newValue)}</span>}
+        {node.kind === 'removed' && <span className="truncate text-accents-5 line-through">{preview(node.oldValue)}</span>}
+        {node.kind === 'moved' && (
+          <span className="text-accents-5">[{node.fromIndex}] → [{node.toIndex}]</span>
+        )}
+      </div>
+      {hasChildren && isExpanded && node.children.map((child, index) => (
+        <DiffTreeNode key={`${child.kind || 'node'}-${child.path}-${index}`} node={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+};
+
+export const StructuralDiffView: React.FC<StructuralDiffViewProps> = ({ diff }) => {
+  const total = diff.counts.added + diff.counts.removed + diff.counts.changed + diff.counts.moved;
+
+  if (total === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-3 text-accents-5">
+        <CheckCircle2 size={28} className="text-green-500" />
+        <span className="text-sm">The documents are structurally identical</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-accents-2 shrink-0">
+        {(Object.keys(DIFF_KIND_STYLES) as DiffKind[]).map(kind => (
+          <span key={kind} className={`flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium ${DIFF_KIND_STYLES[kind].badge}`}>
+            {DIFF_KIND_STYLES[kind].icon}
+            {diff.counts[kind]} {DIFF_KIND_STYLES[kind].label.toLowerCase()}
+          </span>
+        ))}
+      </div>
+      <div className="flex-1 overflow-auto py-2">
+        <DiffTreeNode node={diff.root} depth={0} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { FileJson, Plus, X } from 'lucide-react';
+import { DocumentTab } from '../types';
+
+interface TabBarProps {
+  tabs: DocumentTab[];
+  activeTabId: string;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onNew: () => void;
+}
+
+export const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, onSelect, onClose, onRename, onNew }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editingId) inputRef.current?.select();
+  }, [editingId]);
+
+  const startRename = (tab: DocumentTab) => {
+    setEditingId(tab.id);
+    setDraftName(tab.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="h-9 flex items-end bg-accents-1 border-b border-accents-2 shrink-0 overflow-x-auto scrollbar-hide transition-colors duration-300">
+      {tabs.map(tab => {
+        const isActive = tab.id === activeTabId;
+        return (
+          <div
+            key={tab.id}
+            onClick={() => onSelect(tab.id)}
+            onDoubleClick={() => startRename(tab)}
+            onMouseDown={(e) => {
+              // Middle click closes, like browser tabs
+              if (e.button === 1) {
+                e.preventDefault();
+                onClose(tab.id);
+              }
+            }}
+            className={`group h-full flex items-center gap-2 pl-3 pr-1.5 border-r border-accents-2 text-xs cursor-pointer select-none shrink-0 max-w-[220px] transition-colors ${
+              isActive
+                ? 'bg-background text-accents-8 shadow-[inset_0_2px_0_0_var(--accents-8)]'
+                : 'text-accents-5 hover:text-accents-8 hover:bg-background/50'
+            }`}
+            title={`${tab.name} (double-click to rename)`}
+          >
+            <FileJson size={12} className="shrink-0" />
+            {editingId === tab.id ? (
+              <input
+                ref={inputRef}
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-background border border-accents-4 rounded px-1 py-0 text-xs text-accents-8 focus:outline-none w-32"
+              />
+            ) : (
+              <span className="truncate font-medium">{tab.name}</span>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(tab.id);
+              }}
+              className={`p-0.5 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8 ${isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+              title="Close tab"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={onNew}
+        className="h-full px-3 flex items-center text-accents-5 hover:text-accents-8 hover:bg-background/50 transition-colors shrink-0"
+        title="New document"
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+};
@@ -8,11 +8,12 @@ interface ToastProps {
 
 export const Toast: React.FC<ToastProps> = ({ toast, onClose }) => {
   useEffect(() => {
+    // Leave a little longer to reach an action button
     const timer = setTimeout(() => {
       onClose(toast.id);
-    }, 4000);
+    }, toast.action ? 6000 : 4000);
     return () => clearTimeout(timer);
-  }, [toast.id, onClose]);
+  }, [toast.id, toast.action, onClose]);
 
   const borderColors = {
     success: 'border-accents-2', // Vercel toasts are usually dark with subtle borders
@@ -34,7 +35,18 @@ export const Toast: React.FC<ToastProps> = ({ toast, onClose }) => {
       max-w-sm w-full
     `}>
       <div className={`w-1 h-1 rounded-full ${indicatorColors[toast.type]} shrink-0`} />
-      <p className="text-sm text-accents-8 font-medium">{toast.message}</p>
+      <p className="text-sm text-accents-8 font-medium flex-1">{toast.message}</p>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            onClose(toast.id);
+          }}
+          className="text-xs font-semibold text-accents-8 px-2 py-1 -my-1 rounded hover:bg-accents-2 transition-colors shrink-0"
+        >
+          {toast.action.label}
+        </button>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -7,9 +7,24 @@ import {
   Upload, 
   Trash2,
   ChevronDown,
-  Search
+  Search,
+  FileCheck2,
+  Filter,
+  MessageCircleQuestion,
+  History,
+  Undo2,
+  Redo2,
+  MessageSquareCode,
+  FileJson,
+  ScrollText,
+  FileCode2,
+  Braces,
+  Dices,
+  Bot
 } from 'lucide-react';
 import { Button } from './Button';
+import { QueryLanguage, QUERY_LANGUAGES } from '../lib/query';
+import { IMPORT_FORMATS, EXPORT_FORMATS } from '../lib/convert';
 
 interface ToolbarProps {
   onFormat: () => void;
@@ -17,6 +32,7 @@ interface ToolbarProps {
   onCopy: () => void;
   onClear: () => void;
   onDownload: () => void;
+  onExportAs: (formatId: string) => void;
   onUpload: (file: File) => void;
   hasContent: boolean;
   indentation: number | string;
@@ -25,6 +41,32 @@ interface ToolbarProps {
   onSearchChange: (value: string) => void;
   onSearchEnter: () => void;
   hasMatches: boolean | null;
+  onSchemaClick: () => void;
+  onXmlClick: () => void;
+  schemaName: string | null;
+  queryExpression: string;
+  onQueryChange: (value: string) => void;
+  queryLanguage: QueryLanguage;
+  onQueryLanguageChange: (value: QueryLanguage) => void;
+  hasQueryError: boolean;
+  onAskQueryClick: () => void;
+  isRelaxed: boolean;
+  onRelaxedChange: (value: boolean) => void;
+  onConvertToStrict: () => void;
+  isNdjson: boolean;
+  onNdjsonChange: (value: boolean) => void;
+  onConvertToJsonArray: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Name of the operation that would be undone/redone, null when there is none
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onHistoryClick: () => void;
+  isHistoryOpen: boolean;
+  onTypesClick: () => void;
+  isTypesOpen: boolean;
+  onMockClick: () => void;
+  onAiClick: () => void;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -33,6 +75,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onCopy,
   onClear,
   onDownload,
+  onExportAs,
   onUpload,
   hasContent,
   indentation,
@@ -40,7 +83,32 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   searchTerm,
   onSearchChange,
   onSearchEnter,
-  hasMatches
+  hasMatches,
+  onSchemaClick,
+  onXmlClick,
+  schemaName,
+  queryExpression,
+  onQueryChange,
+  queryLanguage,
+  onQueryLanguageChange,
+  hasQueryError,
+  onAskQueryClick,
+  isRelaxed,
+  onRelaxedChange,
+  onConvertToStrict,
+  isNdjson,
+  onNdjsonChange,
+  onConvertToJsonArray,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
+  onHistoryClick,
+  isHistoryOpen,
+  onTypesClick,
+  isTypesOpen,
+  onMockClick,
+  onAiClick
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -98,6 +166,38 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           <Button size="sm" onClick={onMinify} disabled={!hasContent} icon={<Minimize2 className="w-3.5 h-3.5"/>} title="Minify JSON">
             <span className="hidden lg:inline">Minify</span>
           </Button>
+          <Button
+            size="sm"
+            variant={isRelaxed ? 'primary' : 'secondary'}
+            onClick={() => onRelaxedChange(!isRelaxed)}
+            icon={<MessageSquareCode className="w-3.5 h-3.5"/>}
+            title={isRelaxed ? 'Relaxed mode: comments, trailing commas, single quotes and unquoted keys are accepted (JSON5 / JSONC)' : 'Accept JSON5 / JSONC input'}
+          >
+            <span className="hidden lg:inline">JSON5</span>
+          </Button>
+          {isRelaxed && (
+            <Button size="sm" onClick={onConvertToStrict} disabled={!hasContent} icon={<FileJson className="w-3.5 h-3.5"/>} title="Convert to strict JSON (removes comments)">
+              <span className="hidden xl:inline">To strict JSON</span>
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant={isNdjson ? 'primary' : 'secondary'}
+            onClick={() => onNdjsonChange(!isNdjson)}
+            icon={<ScrollText className="w-3.5 h-3.5"/>}
+            title={isNdjson ? 'NDJSON mode: every line is a separate JSON value' : 'Read one JSON value per line (NDJSON / JSON Lines)'}
+          >
+            <span className="hidden lg:inline">NDJSON</span>
+          </Button>
+          {isNdjson && (
+            <Button size="sm" onClick={onConvertToJsonArray} disabled={!hasContent} icon={<FileJson className="w-3.5 h-3.5"/>} title="Convert the records to a single JSON array">
+              <span className="hidden xl:inline">To JSON array</span>
+            </Button>
+          )}
+          <div className="flex items-center">
+            <Button size="sm" variant="ghost" onClick={onUndo} disabled={!undoLabel} icon={<Undo2 className="w-3.5 h-3.5"/>} title={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'} />
+            <Button size="sm" variant="ghost" onClick={onRedo} disabled={!redoLabel} icon={<Redo2 className="w-3.5 h-3.5"/>} title={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'} />
+          </div>
         </div>
 
         {/* GROUP 3: Search */}
@@ -123,6 +223,72 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 `}
               />
             </div>
+
+            {/* Query */}
+            <div className="flex items-center">
+              <div className="relative group">
+                <select
+                  value={queryLanguage}
+                  onChange={(e) => onQueryLanguageChange(e.target.value as QueryLanguage)}
+                  className="appearance-none bg-accents-1 border border-accents-2 border-r-0 text-accents-5 text-xs py-1.5 pl-2 pr-5 rounded-l-md hover:text-accents-8 focus:outline-none cursor-pointer font-medium"
+                  title="Query language"
+                >
+                  {QUERY_LANGUAGES.map(lang => (
+                    <option key={lang.id} value={lang.id}>{lang.label}</option>
+                  ))}
+                </select>
+                <ChevronDown className="w-3 h-3 absolute right-1.5 top-1/2 -translate-y-1/2 text-accents-5 pointer-events-none" />
+              </div>
+              <div className="relative">
+                <Filter className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-accents-5" />
+                <input
+                  type="text"
+                  placeholder="Query..."
+                  title={`e.g. ${QUERY_LANGUAGES.find(l => l.id === queryLanguage)?.placeholder}`}
+                  value={queryExpression}
+                  onChange={(e) => onQueryChange(e.target.value)}
+                  spellCheck={false}
+                  className={`
+                    bg-background border rounded-r-md pl-8 pr-7 py-1.5 text-xs font-mono text-accents-8 placeholder:text-accents-4 placeholder:font-sans focus:outline-none focus:w-56 lg:focus:w-80 transition-all
+                    ${queryExpression ? 'w-56 lg:w-80' : 'w-28'}
+                    ${hasQueryError
+                      ? 'border-error focus:border-error'
+                      : 'border-accents-2 focus:border-accents-5'}
+                  `}
+                />
+                <button
+                  onClick={onAskQueryClick}
+                  className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded text-accents-5 hover:text-purple-500"
+                  title="Ask a question in plain language"
+                >
+                  <MessageCircleQuestion className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+        </div>
+
+        {/* Validation */}
+        <div className="flex items-center gap-2 pr-4 border-r border-accents-2">
+          <Button
+            size="sm"
+            onClick={onSchemaClick}
+            icon={<FileCheck2 className={`w-3.5 h-3.5 ${schemaName ? 'text-green-500' : ''}`}/>}
+            title={schemaName ? `Validating against ${schemaName}` : 'Attach JSON Schema'}
+          >
+            <span className="hidden lg:inline max-w-[120px] truncate">{schemaName || 'Schema'}</span>
+          </Button>
+          <Button
+            size="sm"
+            onClick={onTypesClick}
+            className={isTypesOpen ? 'bg-accents-1 text-accents-8' : ''}
+            icon={<Braces className="w-3.5 h-3.5"/>}
+            title="Generate types and models from the document"
+          >
+            <span className="hidden lg:inline">Types</span>
+          </Button>
+          <Button size="sm" onClick={onMockClick} icon={<Dices className="w-3.5 h-3.5"/>} title="Generate mock data from the document or a schema">
+            <span className="hidden lg:inline">Mock</span>
+          </Button>
         </div>
 
         {/* GROUP 4: File Ops */}
@@ -132,19 +298,46 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             ref={fileInputRef}
             onChange={handleFileChange}
             className="hidden"
-            accept=".json,application/json"
+            accept={['.json', '.json5', '.jsonc', '.jsonl', '.ndjson', '.xml', ...IMPORT_FORMATS.flatMap(f => f.extensions), 'application/json'].join(',')}
           />
           <Button size="sm" onClick={() => fileInputRef.current?.click()} icon={<Upload className="w-3.5 h-3.5"/>} title="Import File">
             <span className="hidden sm:inline">Import</span>
           </Button>
-          <Button size="sm" onClick={onDownload} disabled={!hasContent} icon={<Download className="w-3.5 h-3.5"/>} title="Download File">
-            <span className="hidden sm:inline">Export</span>
+          <Button size="sm" onClick={onXmlClick} icon={<FileCode2 className="w-3.5 h-3.5"/>} title="Convert between XML and JSON">
+            <span className="hidden lg:inline">XML</span>
           </Button>
+          <div className="flex items-center">
+            <Button size="sm" onClick={onDownload} disabled={!hasContent} icon={<Download className="w-3.5 h-3.5"/>} title="Download File" className="rounded-r-none">
+              <span className="hidden sm:inline">Export</span>
+            </Button>
+            <div className="relative">
+              {/* Acts as a menu: picking a format exports right away */}
+              <select
+                value=""
+                onChange={(e) => onExportAs(e.target.value)}
+                disabled={!hasContent}
+                className="appearance-none h-full bg-background border border-l-0 border-accents-2 text-transparent text-xs py-1.5 pl-2 pr-4 rounded-r-md hover:border-accents-5 focus:outline-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed w-7"
+                title="Export as another format"
+              >
+                <option value="" disabled className="text-accents-5 bg-background">Export as...</option>
+                {EXPORT_FORMATS.map(format => (
+                  <option key={format.id} value={format.id} className="text-accents-8 bg-background">Export as {format.label}</option>
+                ))}
+              </select>
+              <ChevronDown className="w-3 h-3 absolute right-2 top-1/2 -translate-y-1/2 text-accents-5 pointer-events-none" />
+            </div>
+          </div>
         </div>
       </div>
 
       {/* GROUP 5: Actions */}
       <div className="flex items-center gap-2 ml-4 min-w-max">
+        <Button size="sm" onClick={onAiClick} variant="ghost" className="text-accents-4" icon={<Bot className="w-3.5 h-3.5 text-purple-500"/>} title="Generate or explain JSON with AI">
+          <span className="hidden sm:inline">AI</span>
+        </Button>
+        <Button size="sm" onClick={onHistoryClick} variant="ghost" className={isHistoryOpen ? 'text-accents-8 bg-accents-1' : 'text-accents-4'} icon={<History className="w-3.5 h-3.5"/>} title="Snapshot History">
+          <span className="hidden sm:inline">History</span>
+        </Button>
         <Button size="sm" onClick={onClear} disabled={!hasContent} variant="ghost" className="text-accents-4 hover:text-error" icon={<Trash2 className="w-3.5 h-3.5"/>} title="Clear All">
           <span className="hidden sm:inline">Clear</span>
         </Button>
@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import Editor from '@monaco-editor/react';
+import { X, Copy, Check, Download, AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+import { defineThemes } from './Editor';
+import { MODEL_LANGUAGES, FIELD_NAMINGS, FieldNaming, getDefaultSettings } from '../lib/models';
+import { downloadFile, trackEvent } from '../lib/utils';
+
+interface TypesPanelProps {
+  // Parsed document, undefined while it does not parse
+  value: any;
+  theme: 'light' | 'dark';
+  onClose: () => void;
+}
+
+const ROOT_NAME = 'Root';
+
+const SELECT_CLASS = 'bg-background border border-accents-2 rounded-md px-1.5 py-0.5 text-[11px] text-accents-8 focus:outline-none focus:border-accents-5 disabled:opacity-50';
+
+export const TypesPanel: React.FC<TypesPanelProps> = ({ value, theme, onClose }) => {
+  const [languageId, setLanguageId] = useState(MODEL_LANGUAGES[0].id);
+  const [naming, setNaming] = useState<FieldNaming>('idiomatic');
+  // Settings are kept per language so switching back and forth keeps them
+  const [settingsByLanguage, setSettingsByLanguage] = useState<Record<string, Record<string, string>>>(() =>
+    Object.fromEntries(MODEL_LANGUAGES.map(language => [language.id, getDefaultSettings(language)]))
+  );
+  const [isCopied, setIsCopied] = useState(false);
+
+  const language = MODEL_LANGUAGES.find(l => l.id === languageId) ?? MODEL_LANGUAGES[0];
+  const settings = settingsByLanguage[language.id];
+
+  const output = useMemo(() => {
+    if (value === undefined) return null;
+    return language.generate(value, { rootName: ROOT_NAME, naming, settings });
+  }, [value, language, naming, settings]);
+
+  const handleLanguageChange = (id: string) => {
+    trackEvent('types_switch_language', { language: id });
+    setLanguageId(id);
+  };
+
+  const handleSettingChange = (settingId: string, choiceId: string) => {
+    trackEvent('types_change_setting', { language: language.id, setting: settingId, value: choiceId });
+    setSettingsByLanguage(prev => ({ ...prev, [language.id]: { ...prev[language.id], [settingId]: choiceId } }));
+  };
+
+  const handleCopy = async () => {
+    if (output === null) return;
+    trackEvent('types_copy', { language: language.id });
+    try {
+      await navigator.clipboard.writeText(output);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    if (output === null) return;
+    trackEvent('types_download', { language: language.id });
+    downloadFile(output, `${ROOT_NAME.toLowerCase()}.${language.extension}`, 'text/plain');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-background border-l border-accents-2 transition-colors duration-300">
+      <div className="h-10 flex items-center justify-between gap-2 px-3 border-b border-accents-2 bg-accents-1 shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-[11px] font-medium uppercase tracking-wider text-accents-5">Types</span>
+          <select value={language.id} onChange={(e) => handleLanguageChange(e.target.value)} className={SELECT_CLASS} title="Target language">
+            {MODEL_LANGUAGES.map(l => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleCopy}
+            disabled={output === null}
+            icon={isCopied ? <Check className="w-3.5 h-3.5 text-success" /> : <Copy className="w-3.5 h-3.5" />}
+            title="Copy generated code"
+          >
+            <span className="hidden xl:inline">{isCopied ? 'Copied' : 'Copy'}</span>
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleDownload}
+            disabled={output === null}
+            icon={<Download className="w-3.5 h-3.5" />}
+            title={`Download .${language.extension}`}
+          />
+          <button onClick={onClose} className="p-1 rounded hover:bg-accents-2 text-accents-5 hover:text-accents-8" title="Close Types">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-1.5 border-b border-accents-2 text-[11px] text-accents-5 shrink-0">
+        <label className="flex items-center gap-1.5" title={language.renamesFields ? 'Field names; the JSON key is kept in an annotation when it differs' : 'Fields always match the JSON keys'}>
+          Fields
+          <select value={naming} onChange={(e) => setNaming(e.target.value as FieldNaming)} disabled={!language.renamesFields} className={SELECT_CLASS}>
+            {FIELD_NAMINGS.map(n => (
+              <option key={n.id} value={n.id}>{n.label}</option>
+            ))}
+          </select>
+        </label>
+        {language.settings.map(setting => (
+          <label key={setting.id} className="flex items-center gap-1.5">
+            {setting.label}
+            <select value={settings[setting.id]} onChange={(e) => handleSettingChange(setting.id, e.target.value)} className={SELECT_CLASS}>
+              {setting.choices.map(choice => (
+                <option key={choice.id} value={choice.id}>{choice.label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex-1 relative min-h-0">
+        {output === null ? (
+          <div className="h-full flex flex-col items-center justify-center text-accents-4 gap-3 p-6 text-center">
+            <AlertTriangle size={24} />
+            <p className="text-xs">Types are generated from a valid document</p>
+          </div>
+        ) : (
+          <Editor
+            height="100%"
+            language={language.editorLanguage}
+            value={output}
+            beforeMount={defineThemes}
+            theme={theme === 'dark' ? 'vercel-dark' : 'vercel-light'}
+            loading={<div className="w-full h-full bg-background" />}
+            options={{
+              readOnly: true,
+              minimap: { enabled: false },
+              fontSize: 13,
+              fontFamily: "'JetBrains Mono', monospace",
+              lineHeight: 22,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
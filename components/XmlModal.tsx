@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Editor from '@monaco-editor/react';
+import { FileCode2, X, ArrowRight, AlertTriangle, Copy, Download, Upload, FilePlus } from 'lucide-react';
+import { Button } from './Button';
+import { defineThemes } from './Editor';
+import { xmlToJson, jsonToXml, XmlOptions, XmlConvention, XML_CONVENTIONS, DEFAULT_XML_OPTIONS } from '../lib/xml';
+import { parseLossless } from '../lib/lossless';
+import { parseNdjson } from '../lib/ndjson';
+import { downloadFile, trackEvent } from '../lib/utils';
+
+export type XmlDirection = 'toJson' | 'toXml';
+
+interface XmlModalProps {
+  isOpen: boolean;
+  // XML to start from, e.g. an imported .xml file; otherwise the modal converts the document to XML
+  initialXml: string | null;
+  document: string;
+  relaxed: boolean;
+  ndjson: boolean;
+  indentation: number | string;
+  theme: 'light' | 'dark';
+  onReplace: (json: string) => void;
+  onOpenAsNew: (json: string) => void;
+  onClose: () => void;
+}
+
+const EDITOR_OPTIONS = {
+  minimap: { enabled: false },
+  fontSize: 13,
+  fontFamily: "'JetBrains Mono', monospace",
+  lineHeight: 22,
+  scrollBeyondLastLine: false,
+  automaticLayout: true,
+};
+
+export const XmlModal: React.FC<XmlModalProps> = ({ isOpen, initialXml, document, relaxed, ndjson, indentation, theme, onReplace, onOpenAsNew, onClose }) => {
+  const [direction, setDirection] = useState<XmlDirection>('toXml');
+  const [xmlInput, setXmlInput] = useState('');
+  const [options, setOptions] = useState<XmlOptions>(DEFAULT_XML_OPTIONS);
+  const [isCopied, setIsCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // XML pasted into the editor is picked up as the source
+    const source = initialXml ?? (document.trim().startsWith('<') ? document : null);
+    setDirection(source !== null ? 'toJson' : 'toXml');
+    setXmlInput(source ?? '');
+    setIsCopied(false);
+  }, [isOpen, initialXml]);
+
+  const conversion = useMemo(() => {
+    if (!isOpen) return { output: '', error: null };
+    try {
+      if (direction === 'toJson') {
+        if (!xmlInput.trim()) return { output: '', error: null };
+        return { output: xmlToJson(xmlInput, options, indentation), error: null };
+      }
+      if (!document.trim()) return { output: '', error: null };
+      let value: any;
+      if (ndjson) {
+        const doc = parseNdjson(document, { relaxed });
+        if (doc.syntaxDiagnostics.length > 0) throw new Error('The document has invalid lines');
+        value = doc.records;
+      } else {
+        value = parseLossless(document, { relaxed });
+      }
+      return { output: jsonToXml(value, options, indentation), error: null };
+    } catch (e) {
+      return { output: '', error: (e as Error).message };
+    }
+  }, [isOpen, direction, xmlInput, document, relaxed, ndjson, options, indentation]);
+
+  if (!isOpen) return null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(setXmlInput);
+    e.target.value = '';
+  };
+
+  const handleCopy = async () => {
+    trackEvent('xml_copy');
+    try {
+      await navigator.clipboard.writeText(conversion.output);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    trackEvent('xml_download', { convention: options.convention });
+    downloadFile(conversion.output, 'data.xml', 'application/xml');
+  };
+
+  const editorTheme = theme === 'dark' ? 'vercel-dark' : 'vercel-light';
+  const canUse = !conversion.error && conversion.output !== '';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl bg-background border border-accents-2 rounded-xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-accents-2 bg-accents-1 shrink-0">
+          <div className="flex items-center gap-2 text-accents-8 font-semibold">
+            <FileCode2 className="w-5 h-5 text-orange-500" />
+            <h3>XML Converter</h3>
+          </div>
+          <button onClick={onClose} className="text-accents-4 hover:text-accents-8 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 min-h-0 flex-1">
+          <div className="flex flex-wrap items-center gap-4 text-xs shrink-0">
+            <div className="flex items-center bg-accents-1 p-1 rounded-lg border border-accents-2">
+              {(['toXml', 'toJson'] as XmlDirection[]).map(d => (
+                <button
+                  key={d}
+                  onClick={() => setDirection(d)}
+                  className={`flex items-center gap-1.5 px-3 py-1 rounded-md font-medium transition-all ${direction === d ? 'bg-accents-8 text-background shadow-sm' : 'text-accents-5 hover:text-accents-8'}`}
+                >
+                  {d === 'toXml' ? 'JSON' : 'XML'}
+                  <ArrowRight size={12} />
+                  {d === 'toXml' ? 'XML' : 'JSON'}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-accents-5">
+              Mapping
+              <select
+                value={options.convention}
+                onChange={(e) => setOptions({ ...options, convention: e.target.value as XmlConvention })}
+                className="bg-background border border-accents-2 rounded-md px-2 py-1 text-accents-8 focus:outline-none focus:border-accents-5"
+                title={XML_CONVENTIONS.find(c => c.id === options.convention)?.example}
+              >
+                {XML_CONVENTIONS.map(c => (
+                  <option key={c.id} value={c.id}>{c.label}</option>
+                ))}
+              </select>
+            </label>
+            {direction === 'toJson' && (
+              <label className={`flex items-center gap-2 ${options.convention === 'attributes' ? 'text-accents-5' : 'text-accents-3'}`}>
+                <input
+                  type="checkbox"
+                  checked={options.inferTypes && options.convention === 'attributes'}
+                  disabled={options.convention !== 'attributes'}
+                  onChange={(e) => setOptions({ ...options, inferTypes: e.target.checked })}
+                />
+                Infer numbers and booleans
+              </label>
+            )}
+            <span className="font-mono text-accents-4 truncate">{XML_CONVENTIONS.find(c => c.id === options.convention)?.example}</span>
+          </div>
+
+          {conversion.error && (
+            <div className="flex items-center gap-2 p-3 rounded-md border border-error/30 bg-error/10 text-xs text-error shrink-0">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span className="font-mono break-all">{conversion.error}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 h-[55vh]">
+            <div className="flex flex-col min-h-0 border border-accents-2 rounded-md overflow-hidden">
+              <div className="flex items-center justify-between px-3 h-8 border-b border-accents-2 bg-accents-1 text-[11px] uppercase tracking-wider text-accents-5 shrink-0">
+                <span>{direction === 'toJson' ? 'XML input' : 'Current document'}</span>
+                {direction === 'toJson' && (
+                  <>
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".xml,application/xml,text/xml" />
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 normal-case tracking-normal hover:text-accents-8">
+                      <Upload size={12} /> Load file
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="flex-1 min-h-0">
+                <Editor
+                  height="100%"
+                  language={direction === 'toJson' ? 'xml' : 'json'}
+                  value={direction === 'toJson' ? xmlInput : document}
+                  onChange={(value) => direction === 'toJson' && setXmlInput(value || '')}
+                  beforeMount={defineThemes}
+                  theme={editorTheme}
+                  loading={<div className="w-full h-full bg-background" />}
+                  options={{ ...EDITOR_OPTIONS, readOnly: direction !== 'toJson' }}
+                />
+              </div>
+            </div>
+            <div className="flex flex-col min-h-0 border border-accents-2 rounded-md overflow-hidden">
+              <div className="flex items-center px-3 h-8 border-b border-accents-2 bg-accents-1 text-[11px] uppercase tracking-wider text-accents-5 shrink-0">
+                Preview
+              </div>
+              <div className="flex-1 min-h-0">
+                <Editor
+                  height="100%"
+                  language={direction === 'toJson' ? 'json' : 'xml'}
+                  value={conversion.output}
+                  beforeMount={defineThemes}
+                  theme={editorTheme}
+                  loading={<div className="w-full h-full bg-background" />}
+                  options={{ ...EDITOR_OPTIONS, readOnly: true }}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-accents-2 shrink-0">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          {direction === 'toJson' ? (
+            <>
+              <Button variant="secondary" disabled={!canUse} onClick={() => onOpenAsNew(conversion.output)} icon={<FilePlus className="w-4 h-4" />}>
+                Open in new tab
+              </Button>
+              <Button variant="primary" disabled={!canUse} onClick={() => onReplace(conversion.output)} icon={<FileCode2 className="w-4 h-4" />}>
+                Replace document
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="secondary" disabled={!canUse} onClick={handleCopy} icon={<Copy className="w-4 h-4" />}>
+                {isCopied ? 'Copied' : 'Copy XML'}
+              </Button>
+              <Button variant="primary" disabled={!canUse} onClick={handleDownload} icon={<Download className="w-4 h-4" />}>
+                Download .xml
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
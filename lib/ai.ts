@@ -1,45 +1,115 @@
-import { GoogleGenAI } from "@google/genai";
+import { getProvider, AiSettings, AiCancelledError, AiNotConfiguredError } from './aiProviders';
+import { loadAiSettings } from './storage';
+import { generateTypeScript, DEFAULT_TYPESCRIPT_OPTIONS } from './typescript';
+import { QueryLanguage } from './query';
 
-// Initialize the client
-// The API key is guaranteed to be available in process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export { AiNotConfiguredError, AiCancelledError } from './aiProviders';
+
+// Documents sent for an explanation are cut to this many characters; the structure is clear long before
+const MAX_EXPLAIN_CHARS = 60000;
+
+// Settings are read on every request, so a change in the settings form applies to the next one
+const request = async (
+  prompt: string,
+  system: string,
+  json: boolean,
+  failure: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const settings = loadAiSettings();
+  const provider = getProvider(settings.provider);
+  try {
+    const text = await provider.complete({ system, prompt, json }, settings, signal);
+    if (signal?.aborted) throw new AiCancelledError();
+    return text;
+  } catch (error) {
+    if (signal?.aborted || error instanceof AiCancelledError) throw new AiCancelledError();
+    console.error(`${failure}:`, error);
+    throw error instanceof AiNotConfiguredError ? error : new Error(`${failure}. ${(error as Error).message}`);
+  }
+};
 
 /**
  * Generates JSON data based on a natural language prompt.
  */
-export const generateJson = async (prompt: string): Promise<string> => {
+export const generateJson = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  return request(
+    prompt,
+    "You are a specialized JSON generator. Your output must be strictly valid JSON. Do not include markdown formatting (like ```json ... ```). Do not include any conversational text. If the user asks for a specific structure, follow it precisely.",
+    true,
+    'Failed to generate JSON',
+    signal
+  );
+};
+
+/**
+ * Attempts to fix invalid JSON syntax.
+ */
+export const fixJson = async (malformedJson: string, errorMessage: string, signal?: AbortSignal): Promise<string> => {
+  return request(
+    `Error: ${errorMessage}\n\nInvalid JSON:\n${malformedJson}`,
+    "You are a JSON syntax repair engine. You will be provided with invalid JSON and an error message. Correct the syntax errors (such as missing commas, unquoted keys, trailing commas, or mismatched brackets) and return the valid JSON. Do not change the data values unless they cause the syntax error. Return ONLY the raw JSON string without markdown.",
+    true,
+    'Failed to fix JSON syntax',
+    signal
+  );
+};
+
+/**
+ * Summarizes what a document contains: its purpose, main entities and
+ * anything unusual. Returns plain text.
+ */
+export const explainJson = async (document: string, signal?: AbortSignal): Promise<string> => {
+  const truncated = document.length > MAX_EXPLAIN_CHARS;
+  const excerpt = truncated ? `${document.slice(0, MAX_EXPLAIN_CHARS)}\n... (truncated, ${document.length} characters in total)` : document;
+  return request(
+    excerpt,
+    "You explain JSON documents to developers. In a few short paragraphs of plain text (no markdown headings, no code blocks), say what the document most likely represents, describe its structure and the meaning of its main fields, and point out anything notable such as inconsistent types, suspicious values or missing data. Be concise and concrete.",
+    false,
+    'Failed to explain the document',
+    signal
+  );
+};
+
+/**
+ * Sends a one-word request with unsaved settings, so the settings form can
+ * check the server, model and key before they are stored.
+ */
+export const testConnection = async (settings: AiSettings, signal?: AbortSignal): Promise<void> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: "You are a specialized JSON generator. Your output must be strictly valid JSON. Do not include markdown formatting (like ```json ... ```). Do not include any conversational text. If the user asks for a specific structure, follow it precisely.",
-        responseMimeType: "application/json",
-      },
-    });
-    return response.text || '';
+    await getProvider(settings.provider).complete({ system: 'Reply with the single word OK.', prompt: 'ping', json: false }, settings, signal);
   } catch (error) {
-    console.error("AI Generation Error:", error);
-    throw new Error("Failed to generate JSON. Please try again.");
+    if (signal?.aborted) throw new AiCancelledError();
+    throw error;
   }
 };
 
 /**
- * Attempts to fix invalid JSON syntax.
+ * Turns a question about the document into a JSONPath or JMESPath
+ * expression. The model only sees the document's shape as TypeScript
+ * declarations (key names and types), never its values; the expression is
+ * run locally by the caller.
  */
-export const fixJson = async (malformedJson: string, errorMessage: string): Promise<string> => {
+export const translateQuery = async (question: string, data: any, language: QueryLanguage, signal?: AbortSignal): Promise<string> => {
+  const structure = generateTypeScript(data, DEFAULT_TYPESCRIPT_OPTIONS);
+  const syntax = language === 'jsonpath'
+    ? 'a JSONPath expression as understood by jsonpath-plus. It must start with $ and filters use the form [?(@.field > 1)]'
+    : 'a JMESPath expression. Literals in comparisons use backticks, e.g. [?price > `10`]';
+  const text = await request(
+    `Document structure (the root value has type Root):\n${structure}\n\nQuestion: ${question}`,
+    `You translate questions about a JSON document into ${syntax}. You are given the document's structure as TypeScript declarations, not its data, so use the field names exactly as declared and put any constants from the question directly into the expression. Answer with a JSON object of the form {"expression": "..."} and nothing else.`,
+    true,
+    'Failed to translate the question',
+    signal
+  );
+  let expression: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Error: ${errorMessage}\n\nInvalid JSON:\n${malformedJson}`,
-      config: {
-        systemInstruction: "You are a JSON syntax repair engine. You will be provided with invalid JSON and an error message. Correct the syntax errors (such as missing commas, unquoted keys, trailing commas, or mismatched brackets) and return the valid JSON. Do not change the data values unless they cause the syntax error. Return ONLY the raw JSON string without markdown.",
-        responseMimeType: "application/json",
-      },
-    });
-    return response.text || '';
-  } catch (error) {
-    console.error("AI Fix Error:", error);
-    throw new Error("Failed to fix JSON syntax.");
+    expression = JSON.parse(text).expression;
+  } catch (e) {
+    expression = undefined;
+  }
+  if (typeof expression !== 'string' || !expression.trim()) {
+    throw new Error('The model did not return an expression. Try rephrasing the question.');
   }
+  return expression.trim();
 };
@@ -0,0 +1,153 @@
+/**
+ * AI providers. Every feature talks to a provider through `complete`, so the
+ * model behind it can be Gemini or any server that speaks the OpenAI chat
+ * completions API (Ollama, llama.cpp, LM Studio, vLLM...). Which one is
+ * used, and with what key, is a runtime setting stored in the browser.
+ */
+
+export type AiProviderId = 'openai' | 'gemini';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  // Base URL of an OpenAI-compatible server, up to and including /v1
+  baseUrl: string;
+  model: string;
+  // Optional for local servers
+  apiKey: string;
+}
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  // Ask for a JSON response where the provider supports it
+  json: boolean;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  // Shown next to the settings so nobody sends data somewhere by accident
+  notice: string;
+  defaultModel: string;
+  requiresKey: boolean;
+  complete: (request: CompletionRequest, settings: AiSettings, signal?: AbortSignal) => Promise<string>;
+}
+
+export class AiNotConfiguredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiNotConfiguredError';
+  }
+}
+
+export class AiCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'AiCancelledError';
+  }
+}
+
+// A local Ollama server out of the box: nothing leaves the machine until someone changes it
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'openai',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: '',
+};
+
+// Local models like to wrap JSON in ```json fences even when asked not to
+const stripCodeFence = (text: string): string => {
+  const match = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] : text;
+};
+
+const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (Ollama, llama.cpp, LM Studio)',
+  notice: 'Requests go only to the server at the base URL below.',
+  defaultModel: DEFAULT_AI_SETTINGS.model,
+  requiresKey: false,
+  complete: async (request, settings, signal) => {
+    if (!settings.baseUrl.trim()) throw new AiNotConfiguredError('Set the base URL of your model server in AI settings.');
+    const url = `${settings.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.prompt },
+          ],
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+          stream: false,
+        }),
+        signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) throw new AiCancelledError();
+      // fetch only says "Failed to fetch"; the usual causes are a stopped server or CORS
+      throw new Error(`Could not reach ${url}. Check that the server is running and allows requests from this page (for Ollama, set OLLAMA_ORIGINS).`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`The model server answered ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('The model server returned an unexpected response');
+    return stripCodeFence(content);
+  },
+};
+
+const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  notice: 'Documents are sent to Google. Do not use this for data that must stay on your machines.',
+  defaultModel: 'gemini-3-flash-preview',
+  requiresKey: true,
+  complete: async (request, settings, signal) => {
+    if (!settings.apiKey) throw new AiNotConfiguredError('Gemini needs an API key. Add one in AI settings.');
+    // Loaded on demand so the SDK is only downloaded by people who use it
+    const { GoogleGenAI } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.system,
+        responseMimeType: request.json ? 'application/json' : 'text/plain',
+        abortSignal: signal,
+      },
+    });
+    return stripCodeFence(response.text || '');
+  },
+};
+
+export const AI_PROVIDERS: AiProvider[] = [openAiProvider, geminiProvider];
+
+export const getProvider = (id: AiProviderId): AiProvider => AI_PROVIDERS.find(p => p.id === id) ?? openAiProvider;
+
+// True for this machine and private networks; anything else is flagged in the settings
+export const isPrivateEndpoint = (baseUrl: string): boolean => {
+  let host: string;
+  try {
+    host = new URL(baseUrl).hostname.replace(/^\[|\]$/g, '');
+  } catch (e) {
+    return false;
+  }
+  return (
+    host === 'localhost' ||
+    host === '::1' ||
+    /\.(local|internal|lan)$/.test(host) ||
+    /^127\./.test(host) ||
+    /^10\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host)
+  );
+};
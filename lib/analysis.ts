@@ -0,0 +1,211 @@
+import { Diagnostic, EditorStats, AttachedSchema } from '../types';
+import { JsonPathSegment } from './parser';
+import { parseLossless, isLosslessNumber, LosslessNumber, getPrecisionDiagnostics } from './lossless';
+import { getSyntaxDiagnostics, describeDiagnostic } from './syntax';
+import { getSchemaDiagnostics } from './schema';
+import { parseNdjson, getRecordDiagnostics } from './ndjson';
+import { getStats, formatPath } from './utils';
+import { runQuery, QueryDocument, QueryLanguage, QueryResult } from './query';
+
+/**
+ * Everything the app derives from the document text after an edit settles:
+ * the parsed value, stats, diagnostics and a search index. It runs in a Web
+ * Worker (see analysis.worker.ts) so big documents never block typing; the
+ * functions here are plain and also work on the main thread.
+ */
+
+export interface AnalysisRequest {
+  text: string;
+  relaxed: boolean;
+  // One JSON value per line; the records are analyzed as an array
+  ndjson: boolean;
+  schema: AttachedSchema['schema'] | null;
+}
+
+export interface AnalysisResult {
+  // Parsed document, undefined when the text is empty or invalid
+  data: any;
+  parseError: string | null;
+  stats: EditorStats;
+  // Number of objects and arrays, used to warn before expanding everything
+  containerCount: number;
+  syntaxDiagnostics: Diagnostic[];
+  schemaDiagnostics: Diagnostic[];
+  precisionDiagnostics: Diagnostic[];
+  // LosslessNumber positions; class instances do not survive postMessage and are revived from these
+  losslessPaths: JsonPathSegment[][];
+}
+
+export type AnalysisPhase = 'parse' | 'index' | 'validate';
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  // 0-100 across all phases
+  percent: number;
+}
+
+export interface SearchEntry {
+  path: JsonPathSegment[];
+  // Lower-cased property name or primitive value
+  text: string;
+}
+
+export interface SearchResult {
+  count: number;
+  // $-style paths of the first matches
+  paths: string[];
+}
+
+// Progress is reported per top-level entry; nested work is not worth the bookkeeping
+const PARSE_DONE = 40;
+const INDEX_DONE = 85;
+const MAX_SEARCH_PATHS = 200;
+
+export const analyzeDocument = (
+  request: AnalysisRequest,
+  onProgress: (progress: AnalysisProgress) => void = () => {}
+): { result: AnalysisResult; index: SearchEntry[]; document: QueryDocument | null } => {
+  const { text, relaxed, ndjson, schema } = request;
+  const result: AnalysisResult = {
+    data: undefined,
+    parseError: null,
+    stats: getStats(text),
+    containerCount: 0,
+    syntaxDiagnostics: [],
+    schemaDiagnostics: [],
+    precisionDiagnostics: [],
+    losslessPaths: [],
+  };
+  const index: SearchEntry[] = [];
+  if (!text.trim()) return { result, index, document: null };
+
+  onProgress({ phase: 'parse', percent: 0 });
+  const records = ndjson ? parseNdjson(text, { relaxed }) : null;
+  if (records) {
+    // Broken lines are reported, the remaining records are still shown
+    result.syntaxDiagnostics = records.syntaxDiagnostics;
+    result.data = records.records;
+    if (records.records.length === 0) {
+      result.parseError = describeDiagnostic(records.syntaxDiagnostics[0]);
+      result.data = undefined;
+      return { result, index, document: null };
+    }
+  } else {
+    try {
+      result.data = parseLossless(text, { relaxed });
+    } catch (e) {
+      // Syntax errors are only worth the detailed scan when parsing failed
+      result.syntaxDiagnostics = getSyntaxDiagnostics(text, { relaxed });
+      const [first] = result.syntaxDiagnostics;
+      result.parseError = first ? describeDiagnostic(first) : (e as Error).message;
+      return { result, index, document: null };
+    }
+  }
+  onProgress({ phase: 'index', percent: PARSE_DONE });
+
+  const visit = (value: any, path: JsonPathSegment[]) => {
+    if (isLosslessNumber(value)) {
+      result.losslessPaths.push(path);
+      index.push({ path, text: value.raw.toLowerCase() });
+    } else if (value !== null && typeof value === 'object') {
+      result.containerCount++;
+      const isArray = Array.isArray(value);
+      Object.keys(value).forEach(key => {
+        const segment = isArray ? Number(key) : key;
+        const childPath = [...path, segment];
+        if (!isArray) index.push({ path: childPath, text: key.toLowerCase() });
+        visit(value[key], childPath);
+      });
+    } else {
+      index.push({ path, text: String(value).toLowerCase() });
+    }
+  };
+
+  // Walk the top level by hand so progress can be reported between entries
+  const root = result.data;
+  if (root !== null && typeof root === 'object' && !isLosslessNumber(root)) {
+    result.containerCount++;
+    const isArray = Array.isArray(root);
+    const keys = Object.keys(root);
+    let lastPercent = PARSE_DONE;
+    keys.forEach((key, i) => {
+      const segment = isArray ? Number(key) : key;
+      if (!isArray) index.push({ path: [segment], text: key.toLowerCase() });
+      visit(root[key], [segment]);
+      const percent = PARSE_DONE + Math.floor(((i + 1) / keys.length) * (INDEX_DONE - PARSE_DONE));
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        onProgress({ phase: 'index', percent });
+      }
+    });
+  } else {
+    visit(root, []);
+  }
+
+  onProgress({ phase: 'validate', percent: INDEX_DONE });
+  if (records) {
+    // Each record is validated on its own line
+    result.precisionDiagnostics = getRecordDiagnostics(records, line => getPrecisionDiagnostics(line, { relaxed }));
+    if (schema !== null) result.schemaDiagnostics = getRecordDiagnostics(records, line => getSchemaDiagnostics(line, schema, { relaxed }));
+  } else {
+    result.precisionDiagnostics = getPrecisionDiagnostics(text, { relaxed });
+    if (schema !== null) result.schemaDiagnostics = getSchemaDiagnostics(text, schema, { relaxed });
+  }
+  onProgress({ phase: 'validate', percent: 100 });
+
+  // Queries run later against the same parse; the source lets results keep their literals
+  const texts = records ? records.lines.map(line => line.text) : [text];
+  return { result, index, document: { data: result.data, texts, ndjson: !!records, relaxed } };
+};
+
+// Queries the last analyzed document
+export const queryDocument = (document: QueryDocument | null, expression: string, language: QueryLanguage): QueryResult => {
+  if (!document) throw new Error('The document is not valid JSON');
+  return runQuery(document, expression, language);
+};
+
+export const searchIndex = (index: SearchEntry[], term: string): SearchResult => {
+  const needle = term.toLowerCase();
+  const paths: string[] = [];
+  let count = 0;
+  if (!needle) return { count, paths };
+  index.forEach(entry => {
+    if (!entry.text.includes(needle)) return;
+    count++;
+    if (paths.length < MAX_SEARCH_PATHS) paths.push(formatPath(entry.path));
+  });
+  return { count, paths };
+};
+
+/**
+ * Puts LosslessNumber instances back after a result crossed the worker
+ * boundary, where structured cloning turned them into plain objects.
+ */
+export const reviveLosslessNumbers = (result: AnalysisResult): AnalysisResult => {
+  result.losslessPaths.forEach(path => {
+    if (path.length === 0) {
+      result.data = new LosslessNumber(result.data.raw);
+      return;
+    }
+    let parent = result.data;
+    path.slice(0, -1).forEach(segment => {
+      parent = parent[segment];
+    });
+    const key = path[path.length - 1];
+    parent[key] = new LosslessNumber(parent[key].raw);
+  });
+  return result;
+};
+
+// Messages between the app and analysis.worker.ts
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; id: number; request: AnalysisRequest }
+  | { type: 'search'; id: number; term: string }
+  | { type: 'query'; id: number; expression: string; language: QueryLanguage };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'result'; id: number; result: AnalysisResult }
+  | { type: 'search'; id: number; result: SearchResult }
+  | { type: 'query'; id: number; result: QueryResult }
+  | { type: 'error'; id: number; message: string };
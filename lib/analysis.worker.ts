@@ -0,0 +1,26 @@
+import { analyzeDocument, searchIndex, queryDocument, SearchEntry, AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysis';
+import { QueryDocument } from './query';
+
+// Index of the last analyzed document; searches run against it
+let index: SearchEntry[] = [];
+let doc: QueryDocument | null = null;
+
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const message = event.data;
+  try {
+    if (message.type === 'analyze') {
+      const analysis = analyzeDocument(message.request, progress => post({ type: 'progress', id: message.id, progress }));
+      index = analysis.index;
+      doc = analysis.document;
+      post({ type: 'result', id: message.id, result: analysis.result });
+    } else if (message.type === 'query') {
+      post({ type: 'query', id: message.id, result: queryDocument(doc, message.expression, message.language) });
+    } else {
+      post({ type: 'search', id: message.id, result: searchIndex(index, message.term) });
+    }
+  } catch (e) {
+    post({ type: 'error', id: message.id, message: (e as Error).message || 'Analysis failed' });
+  }
+};
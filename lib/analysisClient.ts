@@ -0,0 +1,130 @@
+import {
+  analyzeDocument,
+  searchIndex,
+  queryDocument,
+  reviveLosslessNumbers,
+  AnalysisRequest,
+  AnalysisResult,
+  AnalysisProgress,
+  SearchEntry,
+  SearchResult,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+} from './analysis';
+import { QueryDocument, QueryLanguage, QueryResult } from './query';
+
+/**
+ * Runs document analysis in a Web Worker. A new analysis supersedes the one
+ * in flight: JSON.parse cannot be interrupted, so the busy worker is
+ * terminated and a fresh one takes over.
+ */
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export interface AnalysisClient {
+  analyze: (request: AnalysisRequest, onProgress?: (progress: AnalysisProgress) => void) => Promise<AnalysisResult>;
+  // Searches the last analyzed document
+  search: (term: string) => Promise<SearchResult>;
+  // Runs a JSONPath / JMESPath query against the last analyzed document
+  query: (expression: string, language: QueryLanguage) => Promise<QueryResult>;
+  // Stops the running analysis, if any
+  cancel: () => void;
+  dispose: () => void;
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export const createAnalysisClient = (): AnalysisClient => {
+  // Without worker support everything runs inline on the main thread
+  if (typeof Worker === 'undefined') {
+    let index: SearchEntry[] = [];
+    let doc: QueryDocument | null = null;
+    return {
+      analyze: async (request, onProgress) => {
+        const analysis = analyzeDocument(request, onProgress);
+        index = analysis.index;
+        doc = analysis.document;
+        return analysis.result;
+      },
+      search: async (term) => searchIndex(index, term),
+      query: async (expression, language) => queryDocument(doc, expression, language),
+      cancel: () => {},
+      dispose: () => {},
+    };
+  }
+
+  let worker: Worker | null = null;
+  let nextId = 1;
+  let runningAnalysisId: number | null = null;
+  const pending = new Map<number, PendingRequest>();
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    runningAnalysisId = null;
+  };
+
+  const terminate = (error: Error) => {
+    worker?.terminate();
+    worker = null;
+    rejectAll(error);
+  };
+
+  const handleMessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    if (message.type === 'progress') {
+      request.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.id === runningAnalysisId) runningAnalysisId = null;
+    if (message.type === 'error') request.reject(new Error(message.message));
+    else if (message.type === 'result') request.resolve(reviveLosslessNumbers(message.result));
+    else request.resolve(message.result);
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = handleMessage;
+      worker.onerror = (event) => terminate(new Error(event.message || 'Analysis worker crashed'));
+    }
+    return worker;
+  };
+
+  const send = <T>(message: AnalysisWorkerRequest, onProgress?: (progress: AnalysisProgress) => void): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      pending.set(message.id, { resolve, reject, onProgress });
+      getWorker().postMessage(message);
+    });
+  };
+
+  const cancel = () => {
+    if (runningAnalysisId !== null) terminate(new AnalysisCancelledError());
+  };
+
+  return {
+    analyze: (request, onProgress) => {
+      // Stale work is thrown away rather than waited for
+      cancel();
+      const id = nextId++;
+      runningAnalysisId = id;
+      return send<AnalysisResult>({ type: 'analyze', id, request }, onProgress);
+    },
+    search: (term) => send<SearchResult>({ type: 'search', id: nextId++, term }),
+    query: (expression, language) => send<QueryResult>({ type: 'query', id: nextId++, expression, language }),
+    cancel,
+    dispose: () => terminate(new AnalysisCancelledError()),
+  };
+};
@@ -0,0 +1,56 @@
+import { yamlToJson, jsonToYaml, YAML_EXTENSIONS } from './yaml';
+import { csvToJson } from './csv';
+import { jsonToXml, DEFAULT_XML_OPTIONS } from './xml';
+import { tomlToJson, jsonToToml } from './toml';
+import { iniToJson, jsonToIni, envToJson, jsonToEnv, ENV_FILE_PATTERN } from './ini';
+
+/**
+ * Formats that are converted to JSON when a file is imported, and that a
+ * document can be exported to. The editor itself always holds JSON.
+ */
+
+export interface ImportFormat {
+  id: string;
+  label: string;
+  extensions: string[];
+  // For files recognised by name rather than extension, e.g. .env.local
+  pattern?: RegExp;
+  // Converts file content to JSON text; throws an Error with a readable message
+  toJson: (text: string, indentation: number | string) => string;
+}
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // `multiDocument` is set for NDJSON, whose records may map to several documents
+  fromJson: (value: any, multiDocument: boolean) => string;
+}
+
+export const IMPORT_FORMATS: ImportFormat[] = [
+  { id: 'yaml', label: 'YAML', extensions: YAML_EXTENSIONS, toJson: yamlToJson },
+  // CSV files from European spreadsheets often use semicolons; the delimiter is detected
+  { id: 'csv', label: 'CSV', extensions: ['.csv'], toJson: (text, indentation) => csvToJson(text, indentation) },
+  { id: 'tsv', label: 'TSV', extensions: ['.tsv'], toJson: (text, indentation) => csvToJson(text, indentation, '\t') },
+  { id: 'toml', label: 'TOML', extensions: ['.toml'], toJson: tomlToJson },
+  { id: 'ini', label: 'INI', extensions: ['.ini', '.cfg', '.conf'], toJson: iniToJson },
+  { id: 'env', label: '.env', extensions: ['.env'], pattern: ENV_FILE_PATTERN, toJson: envToJson },
+];
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'yaml', label: 'YAML', extension: 'yaml', mimeType: 'application/yaml', fromJson: jsonToYaml },
+  // Other XML mappings are available in the XML converter
+  { id: 'xml', label: 'XML', extension: 'xml', mimeType: 'application/xml', fromJson: value => jsonToXml(value, DEFAULT_XML_OPTIONS, 2) },
+  { id: 'toml', label: 'TOML', extension: 'toml', mimeType: 'application/toml', fromJson: jsonToToml },
+  { id: 'ini', label: 'INI', extension: 'ini', mimeType: 'text/plain', fromJson: jsonToIni },
+  { id: 'env', label: '.env', extension: 'env', mimeType: 'text/plain', fromJson: jsonToEnv },
+];
+
+export const findImportFormat = (fileName: string): ImportFormat | null => {
+  const name = fileName.toLowerCase();
+  return IMPORT_FORMATS.find(format => format.pattern?.test(name) || format.extensions.some(ext => name.endsWith(ext))) ?? null;
+};
+
+// "deploy.yaml" -> "deploy.json"
+export const toJsonFileName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '') + '.json';
@@ -0,0 +1,211 @@
+import { isLosslessNumber, formatLossless, stringifyLossless } from './lossless';
+
+/**
+ * CSV / TSV <-> arrays of objects. Quoting follows RFC 4180: fields holding
+ * the delimiter, quotes or line breaks are wrapped in double quotes and
+ * embedded quotes are doubled.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// How nested objects and arrays end up in cells on export
+export type CsvNestedMode = 'dotted' | 'json';
+
+export interface CsvExportOptions {
+  delimiter: CsvDelimiter;
+  nested: CsvNestedMode;
+}
+
+// Numbers as JSON writes them; leading zeros ("007") are kept as text because they are usually codes
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+export const parseCsv = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Skip a byte order mark left by spreadsheet exports
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) throw new Error('Unterminated quoted field at the end of the file');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no record
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+};
+
+// Picks the delimiter that splits the header line into the most columns
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const header = text.split(/\r?\n/, 1)[0];
+  const candidates: CsvDelimiter[] = [',', ';', '\t'];
+  const counts = candidates.map(d => header.split(d).length);
+  return candidates[counts.indexOf(Math.max(...counts))];
+};
+
+// JSON literal for a cell: empty cells and "null" become null, numbers keep their digits
+const inferCell = (cell: string): string => {
+  const trimmed = cell.trim();
+  const lower = trimmed.toLowerCase();
+  if (trimmed === '' || lower === 'null') return 'null';
+  if (lower === 'true' || lower === 'false') return lower;
+  if (NUMBER_PATTERN.test(trimmed)) return trimmed;
+  // Cells written in "JSON cells" mode round-trip back to objects and arrays
+  if ((trimmed.startsWith('{') && trimmed.endsWith('}')) || (trimmed.startsWith('[') && trimmed.endsWith(']'))) {
+    try {
+      JSON.parse(trimmed);
+      return trimmed;
+    } catch (e) {
+      // Plain text that happens to start with a bracket
+    }
+  }
+  return JSON.stringify(cell);
+};
+
+interface TreeNode {
+  [key: string]: TreeNode | string;
+}
+
+/**
+ * Whether dotted headers ("user.name") should rebuild nesting, so files
+ * exported with dotted columns import as the objects they came from. A header
+ * that is also the prefix of another ("a" and "a.b") keeps every column flat.
+ */
+const hasNestedHeaders = (headers: string[]): boolean => {
+  const prefixes = new Set<string>();
+  headers.forEach(h => {
+    const parts = h.split('.');
+    for (let i = 1; i < parts.length; i++) prefixes.add(parts.slice(0, i).join('.'));
+  });
+  return prefixes.size > 0 && !headers.some(h => prefixes.has(h));
+};
+
+const buildRecord = (headers: string[], cells: string[], isNested: boolean): string => {
+  if (!isNested) {
+    return `{${headers.map((h, i) => `${JSON.stringify(h)}:${inferCell(cells[i] ?? '')}`).join(',')}}`;
+  }
+
+  // Null prototypes, so headers like "__proto__.x" stay ordinary keys instead of reaching Object.prototype
+  const root: TreeNode = Object.create(null);
+  headers.forEach((header, i) => {
+    const parts = header.split('.');
+    let node = root;
+    parts.slice(0, -1).forEach(part => {
+      if (typeof node[part] !== 'object') node[part] = Object.create(null);
+      node = node[part] as TreeNode;
+    });
+    node[parts[parts.length - 1]] = inferCell(cells[i] ?? '');
+  });
+
+  // Objects whose keys are 0, 1, 2... were arrays before flattening
+  const write = (node: TreeNode | string): string => {
+    if (typeof node === 'string') return node;
+    const keys = Object.keys(node);
+    if (keys.length > 0 && keys.every((key, i) => key === String(i))) return `[${keys.map(key => write(node[key])).join(',')}]`;
+    return `{${keys.map(key => `${JSON.stringify(key)}:${write(node[key])}`).join(',')}}`;
+  };
+  return write(root);
+};
+
+/**
+ * Converts CSV / TSV text to a JSON array of objects keyed by the header row.
+ * Numbers, booleans and nulls are inferred; everything else stays a string.
+ */
+export const csvToJson = (text: string, indentation: number | string, delimiter: CsvDelimiter = detectDelimiter(text)): string => {
+  const rows = parseCsv(text, delimiter);
+  if (rows.length === 0) throw new Error('The file is empty');
+  const [header, ...records] = rows;
+  // Rows longer than the header keep their extra cells under columnN keys
+  const width = records.reduce((max, cells) => Math.max(max, cells.length), header.length);
+  // Unnamed or repeated columns still get distinct keys
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, i) => {
+    const key = (header[i] ?? '').trim() || `column${i + 1}`;
+    const count = seen.get(key) || 0;
+    seen.set(key, count + 1);
+    return count === 0 ? key : `${key}_${count + 1}`;
+  });
+  const isNested = hasNestedHeaders(headers);
+  return formatLossless(`[${records.map(cells => buildRecord(headers, cells, isNested)).join(',')}]`, indentation);
+};
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !isLosslessNumber(value);
+
+const flatten = (value: any, prefix: string, out: Record<string, any>) => {
+  const keys = Object.keys(value);
+  // Empty containers have no leaf to hold them, so they are kept as JSON
+  if (keys.length === 0) {
+    out[prefix] = value;
+    return;
+  }
+  keys.forEach(key => {
+    const child = value[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) flatten(child, path, out);
+    else out[path] = child;
+  });
+};
+
+const toCell = (value: any, delimiter: CsvDelimiter): string => {
+  let text: string;
+  if (value === null || value === undefined) text = '';
+  else if (isLosslessNumber(value)) text = value.raw;
+  else if (typeof value === 'object') text = stringifyLossless(value, '');
+  else text = String(value);
+  if (text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Writes rows as CSV / TSV. Objects become one column per key (nested keys
+ * flattened to "a.b" or kept as JSON, depending on `nested`); other values
+ * go to a single "value" column.
+ */
+export const toCsv = (rows: any[], options: CsvExportOptions): string => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  const records = rows.map(row => {
+    const record: Record<string, any> = Object.create(null);
+    if (!isPlainObject(row) || Array.isArray(row)) record.value = row;
+    else if (options.nested === 'dotted') flatten(row, '', record);
+    else Object.assign(record, row);
+    Object.keys(record).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+    return record;
+  });
+  const lines = [headers, ...records.map(record => headers.map(h => record[h]))];
+  return lines.map(cells => cells.map(cell => toCell(cell, options.delimiter)).join(options.delimiter)).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,182 @@
+import { isLosslessNumber } from './lossless';
+import { FORMAT_PATTERNS } from './schema';
+
+/**
+ * Infers a JSON Schema (draft 2020-12) from one or more sample documents.
+ * Samples are merged position by position, so with the default options
+ * every sample validates against the result. Beyond types it records:
+ *
+ * - formats, when every string at a position is e.g. a uuid or an email;
+ * - enums, for strings that repeat a handful of distinct values;
+ * - required keys, from the share of objects that contain each key.
+ */
+
+export interface InferSchemaOptions {
+  // Share of objects (0-1) that must contain a key for it to be required
+  requiredRatio: number;
+  // Strings with at most this many distinct values become an enum; 0 disables enums
+  maxEnumValues: number;
+  // Record the observed number ranges and array lengths as minimum/maximum and minItems/maxItems
+  ranges?: boolean;
+}
+
+export const DEFAULT_INFER_SCHEMA_OPTIONS: InferSchemaOptions = { requiredRatio: 1, maxEnumValues: 8 };
+
+export const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Checked in this order; the first format every string matches wins
+const INFERRED_FORMATS = ['uuid', 'date-time', 'date', 'email', 'uri'];
+
+// The validator's uri pattern accepts anything with a colon, which would turn times like "10:30" into URIs
+const LOOKS_LIKE_URI = /^(?:[a-z][a-z0-9+.-]*:\/\/|mailto:|urn:)/i;
+
+type JsonType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'array' | 'object';
+
+interface Stats {
+  types: Set<JsonType>;
+  stringCount: number;
+  // Distinct strings and how often they occur; null once there are too many for an enum
+  values: Map<string, number> | null;
+  // Formats every string so far has matched
+  formats: Set<string> | null;
+  minimum: number;
+  maximum: number;
+  minItems: number;
+  maxItems: number;
+  objectCount: number;
+  properties: Map<string, Stats>;
+  // Number of objects each key appeared in
+  keyCounts: Map<string, number>;
+  items: Stats | null;
+}
+
+const createStats = (): Stats => ({
+  types: new Set(),
+  stringCount: 0,
+  values: new Map(),
+  formats: null,
+  minimum: Infinity,
+  maximum: -Infinity,
+  minItems: Infinity,
+  maxItems: -Infinity,
+  objectCount: 0,
+  properties: new Map(),
+  keyCounts: new Map(),
+  items: null,
+});
+
+const matchFormats = (text: string): Set<string> => {
+  return new Set(INFERRED_FORMATS.filter(format => {
+    if (format === 'uri' && !LOOKS_LIKE_URI.test(text)) return false;
+    return FORMAT_PATTERNS[format].test(text);
+  }));
+};
+
+const addNumber = (stats: Stats, value: number, isInteger: boolean) => {
+  stats.types.add(isInteger ? 'integer' : 'number');
+  stats.minimum = Math.min(stats.minimum, value);
+  stats.maximum = Math.max(stats.maximum, value);
+};
+
+const addValue = (stats: Stats, value: any, maxEnumValues: number) => {
+  if (value === null || value === undefined) {
+    stats.types.add('null');
+  } else if (isLosslessNumber(value)) {
+    addNumber(stats, Number(value.raw), /^-?\d+$/.test(value.raw));
+  } else if (typeof value === 'number') {
+    addNumber(stats, value, Number.isInteger(value));
+  } else if (typeof value === 'boolean') {
+    stats.types.add('boolean');
+  } else if (typeof value === 'string') {
+    stats.types.add('string');
+    stats.stringCount++;
+    if (stats.values) {
+      stats.values.set(value, (stats.values.get(value) || 0) + 1);
+      if (stats.values.size > maxEnumValues) stats.values = null;
+    }
+    const formats = matchFormats(value);
+    stats.formats = stats.formats === null ? formats : new Set(Array.from(stats.formats).filter(f => formats.has(f)));
+  } else if (Array.isArray(value)) {
+    stats.types.add('array');
+    stats.minItems = Math.min(stats.minItems, value.length);
+    stats.maxItems = Math.max(stats.maxItems, value.length);
+    if (!stats.items) stats.items = createStats();
+    value.forEach(item => addValue(stats.items!, item, maxEnumValues));
+  } else if (typeof value === 'object') {
+    stats.types.add('object');
+    stats.objectCount++;
+    Object.keys(value).forEach(key => {
+      if (!stats.properties.has(key)) stats.properties.set(key, createStats());
+      stats.keyCounts.set(key, (stats.keyCounts.get(key) || 0) + 1);
+      addValue(stats.properties.get(key)!, value[key], maxEnumValues);
+    });
+  }
+};
+
+// A value list is only an enum when values repeat; three distinct names seen once each are not a category
+const isEnum = (stats: Stats, maxEnumValues: number): boolean => {
+  if (!stats.values || maxEnumValues <= 0 || stats.values.size === 0) return false;
+  return stats.stringCount >= stats.values.size * 1.5;
+};
+
+const toSchema = (stats: Stats, options: InferSchemaOptions): Record<string, any> => {
+  const schema: Record<string, any> = {};
+  const types = Array.from(stats.types).filter(type => type !== 'integer' || !stats.types.has('number'));
+  // Nothing was seen here, e.g. the items of arrays that were always empty
+  if (types.length === 0) return schema;
+  schema.type = types.length === 1 ? types[0] : types;
+
+  if (stats.types.has('string')) {
+    const format = INFERRED_FORMATS.find(f => stats.formats?.has(f));
+    if (format) {
+      schema.format = format;
+    } else if (isEnum(stats, options.maxEnumValues)) {
+      // Only string values are listed, so other types still need their own entry
+      const values: any[] = Array.from(stats.values!.keys()).sort();
+      if (types.length === 1) {
+        delete schema.type;
+        schema.enum = values;
+      } else if (types.length === 2 && stats.types.has('null')) {
+        delete schema.type;
+        schema.enum = [...values, null];
+      }
+    }
+  }
+
+  if (options.ranges && (stats.types.has('integer') || stats.types.has('number'))) {
+    schema.minimum = stats.minimum;
+    schema.maximum = stats.maximum;
+  }
+
+  if (stats.types.has('object')) {
+    // Null prototype, so a sample key "__proto__" becomes a property like any other
+    const properties: Record<string, any> = Object.create(null);
+    const required: string[] = [];
+    stats.properties.forEach((child, key) => {
+      properties[key] = toSchema(child, options);
+      if (stats.keyCounts.get(key)! >= stats.objectCount * options.requiredRatio) required.push(key);
+    });
+    schema.properties = properties;
+    if (required.length > 0) schema.required = required;
+  }
+
+  if (stats.items) {
+    const items = toSchema(stats.items, options);
+    if (Object.keys(items).length > 0) schema.items = items;
+    if (options.ranges) {
+      schema.minItems = stats.minItems;
+      schema.maxItems = stats.maxItems;
+    }
+  }
+  return schema;
+};
+
+/**
+ * Builds a schema that every sample validates against. Pass one sample for
+ * a single document, or several (files, NDJSON records) to merge them.
+ */
+export const inferSchema = (samples: any[], options: InferSchemaOptions = DEFAULT_INFER_SCHEMA_OPTIONS): Record<string, any> => {
+  const stats = createStats();
+  samples.forEach(sample => addValue(stats, sample, options.maxEnumValues));
+  return { $schema: SCHEMA_DIALECT, ...toSchema(stats, options) };
+};
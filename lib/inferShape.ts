@@ -0,0 +1,144 @@
+import { isLosslessNumber } from './lossless';
+
+/**
+ * Structural inference shared by the code generators. Every value seen at a
+ * position is merged into one Shape: a set of the kinds that occurred there,
+ * with object fields and array items merged recursively. Elements of an
+ * array therefore share one shape, keys missing from some objects are
+ * optional and mixed kinds become unions.
+ */
+
+export type PrimitiveKind = 'string' | 'integer' | 'number' | 'boolean';
+
+export interface ObjectShape {
+  // Number of objects merged
+  count: number;
+  // In order of first appearance
+  fields: Map<string, Shape>;
+}
+
+export interface Shape {
+  // Number of values merged, nulls included
+  count: number;
+  nullable: boolean;
+  primitives: Set<PrimitiveKind>;
+  object: ObjectShape | null;
+  // Shape of the elements, merged across every array seen here
+  array: Shape | null;
+}
+
+export const createShape = (): Shape => ({ count: 0, nullable: false, primitives: new Set(), object: null, array: null });
+
+export const addSample = (shape: Shape, value: any): Shape => {
+  shape.count++;
+  if (value === null || value === undefined) {
+    shape.nullable = true;
+  } else if (isLosslessNumber(value)) {
+    shape.primitives.add(/^-?\d+$/.test(value.raw) ? 'integer' : 'number');
+  } else if (typeof value === 'number') {
+    shape.primitives.add(Number.isInteger(value) ? 'integer' : 'number');
+  } else if (typeof value === 'string' || typeof value === 'boolean') {
+    shape.primitives.add(typeof value as PrimitiveKind);
+  } else if (Array.isArray(value)) {
+    if (!shape.array) shape.array = createShape();
+    value.forEach(item => addSample(shape.array!, item));
+  } else if (typeof value === 'object') {
+    if (!shape.object) shape.object = { count: 0, fields: new Map() };
+    shape.object.count++;
+    Object.keys(value).forEach(key => {
+      if (!shape.object!.fields.has(key)) shape.object!.fields.set(key, createShape());
+      addSample(shape.object!.fields.get(key)!, value[key]);
+    });
+  }
+  return shape;
+};
+
+export const inferShape = (value: any): Shape => addSample(createShape(), value);
+
+// A field is optional when some of the objects merged at its position lacked it
+export const isOptionalField = (parent: ObjectShape, field: Shape) => field.count < parent.count;
+
+// Integers are only kept apart from floats when no float was seen at the same position
+export const getNumberKind = (shape: Shape): 'integer' | 'number' | null => {
+  if (shape.primitives.has('number')) return 'number';
+  if (shape.primitives.has('integer')) return 'integer';
+  return null;
+};
+
+// Number of distinct kinds, not counting null
+export const countKinds = (shape: Shape): number => {
+  const primitives = Array.from(shape.primitives).filter(kind => kind !== 'integer' || !shape.primitives.has('number'));
+  return primitives.length + (shape.object ? 1 : 0) + (shape.array ? 1 : 0);
+};
+
+const splitWords = (text: string): string[] => {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+export const toPascalCase = (text: string): string => splitWords(text).map(capitalize).join('');
+
+export const toCamelCase = (text: string): string => {
+  const pascal = toPascalCase(text);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+export const toSnakeCase = (text: string): string => splitWords(text).map(word => word.toLowerCase()).join('_');
+
+// Good enough for type names: "users" -> "user", "categories" -> "category"
+export const singularize = (word: string): string => {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|us|is)$/i.test(word)) return word;
+  if (/(x|ch|sh|ses)$/i.test(word) && /es$/i.test(word)) return word.slice(0, -2);
+  if (/s$/i.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+export interface NamedObject {
+  name: string;
+  object: ObjectShape;
+}
+
+/**
+ * Walks the shape and gives every object type a name derived from where it
+ * was found: the key for nested objects, the singular key for array
+ * elements. Names are unique; `formatName` applies the target language's
+ * convention. Objects are listed root first.
+ */
+export const collectObjects = (
+  root: Shape,
+  rootName: string,
+  formatName: (name: string) => string = toPascalCase
+): { objects: NamedObject[]; names: Map<ObjectShape, string> } => {
+  const objects: NamedObject[] = [];
+  const names = new Map<ObjectShape, string>();
+  const used = new Set<string>();
+
+  const reserve = (base: string) => {
+    const formatted = formatName(base) || formatName('Item') || 'Item';
+    let name = /^\d/.test(formatted) ? `T${formatted}` : formatted;
+    for (let i = 2; used.has(name); i++) name = `${formatted}${i}`;
+    used.add(name);
+    return name;
+  };
+
+  const visit = (shape: Shape, base: string) => {
+    if (shape.object && !names.has(shape.object)) {
+      const name = reserve(base);
+      names.set(shape.object, name);
+      objects.push({ name, object: shape.object });
+      shape.object.fields.forEach((field, key) => visit(field, key));
+    }
+    if (shape.array) visit(shape.array, singularize(base) === base ? `${base} Item` : singularize(base));
+  };
+
+  // A root that is not an object still owns its name, for the alias the generator writes
+  if (!root.object) used.add(formatName(rootName));
+  visit(root, rootName);
+  return { objects, names };
+};
@@ -0,0 +1,188 @@
+import { isLosslessNumber, stringifyLossless } from './lossless';
+
+/**
+ * INI and .env files <-> JSON. Both formats are untyped, so values always
+ * import as strings; nothing is guessed. On export, numbers and booleans
+ * are written as their text and nested values need a section (INI) or a
+ * key prefix (.env), which nests again on import.
+ */
+
+// .env, .env.local, production.env...
+export const ENV_FILE_PATTERN = /(^|[\\/])\.env(\.[\w-]+)?$|\.env$/i;
+
+// Separator for nested keys in .env files, as used by most config loaders (e.g. DATABASE__HOST)
+const ENV_NESTING = '__';
+
+// Double-quoted text is what jsonToIni writes (JSON string escapes); anything it cannot decode is taken as is
+const decodeDoubleQuoted = (quoted: string): string => {
+  try {
+    return JSON.parse(quoted);
+  } catch (e) {
+    return quoted.slice(1, -1);
+  }
+};
+
+const unquote = (value: string): string => {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) return decodeDoubleQuoted(value);
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1);
+  return value;
+};
+
+// Null prototypes keep keys like "__proto__" or "constructor" ordinary data
+const createRecord = (): Record<string, any> => Object.create(null);
+
+const isRecord = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// The object at `path`, created as needed; a section that was already seen is reused with its keys
+const getSection = (target: Record<string, any>, path: string[]): Record<string, any> => {
+  let node = target;
+  path.forEach(part => {
+    if (!isRecord(node[part])) node[part] = createRecord();
+    node = node[part];
+  });
+  return node;
+};
+
+/**
+ * Sections become objects ([a.b] nests), keys before the first section stay
+ * at the top level and `key[] = value` lines collect into arrays.
+ */
+export const iniToJson = (text: string, indentation: number | string): string => {
+  const result = createRecord();
+  let section = result;
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) return;
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      const path = header[1].split('.').map(part => part.trim());
+      section = getSection(result, path);
+      return;
+    }
+    const separator = line.search(/[=:]/);
+    if (separator <= 0) throw new Error(`Invalid INI line ${i + 1}: expected "key = value"`);
+    const key = line.slice(0, separator).trim();
+    const value = unquote(line.slice(separator + 1).trim());
+    if (key.endsWith('[]')) {
+      const name = key.slice(0, -2);
+      if (!Array.isArray(section[name])) section[name] = [];
+      section[name].push(value);
+    } else {
+      section[key] = value;
+    }
+  });
+  return JSON.stringify(result, null, indentation);
+};
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (isLosslessNumber(value)) return value.raw;
+  return String(value);
+};
+
+const isSection = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+const quoteIni = (text: string) => (/^\s|\s$|[;#"=]/.test(text) ? JSON.stringify(text) : text);
+
+export const jsonToIni = (value: any): string => {
+  if (!isSection(value)) throw new Error('An INI file must be an object at the top level');
+  const lines: string[] = [];
+
+  const writeEntries = (node: Record<string, any>, path: string[]) => {
+    const keys = Object.keys(node);
+    const plain = keys.filter(key => !isSection(node[key]));
+    if (path.length > 0 && (plain.length > 0 || keys.length === 0)) {
+      if (lines.length > 0) lines.push('');
+      lines.push(`[${path.join('.')}]`);
+    }
+    plain.forEach(key => {
+      const item = node[key];
+      if (Array.isArray(item)) {
+        item.forEach(entry => lines.push(`${key}[] = ${quoteIni(isSection(entry) || Array.isArray(entry) ? stringifyLossless(entry, '') : toText(entry))}`));
+      } else {
+        lines.push(`${key} = ${quoteIni(toText(item))}`);
+      }
+    });
+    keys.filter(key => isSection(node[key])).forEach(key => writeEntries(node[key], [...path, key]));
+  };
+
+  writeEntries(value, []);
+  return lines.join('\n') + '\n';
+};
+
+// Whether every existing value along `path` is an object, so nothing is overwritten by nesting
+const isNestable = (target: Record<string, any>, path: string[]): boolean => {
+  let node = target;
+  for (const part of path) {
+    if (node[part] === undefined) return true;
+    if (!isRecord(node[part])) return false;
+    node = node[part];
+  }
+  return true;
+};
+
+// Double-quoted values support JSON string escapes (\n, \t, \uXXXX...); single-quoted ones are literal
+const readEnvValue = (raw: string): string => {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    const end = value.lastIndexOf('"');
+    if (end <= 0) return value.slice(1);
+    const quoted = value.slice(0, end + 1);
+    try {
+      return JSON.parse(quoted);
+    } catch (e) {
+      // Hand-written files may escape characters JSON does not know (e.g. \$); only the common ones are decoded
+      return quoted.slice(1, -1).replace(/\\n/g, '\n').replace(/\\"/g, '"').replace(/\\\\/g, '\\');
+    }
+  }
+  if (value.startsWith("'")) {
+    const end = value.lastIndexOf("'");
+    return value.slice(1, end > 0 ? end : undefined);
+  }
+  // Unquoted values end at an inline comment
+  return value.replace(/\s+#.*$/, '');
+};
+
+/**
+ * DATABASE__HOST=x becomes { "DATABASE": { "HOST": "x" } }, mirroring
+ * jsonToEnv. A key that would nest under a plain value (DATABASE=x before
+ * DATABASE__HOST) or has an empty part (__A) stays as written.
+ */
+export const envToJson = (text: string, indentation: number | string): string => {
+  const result = createRecord();
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][\w.-]*)\s*=(.*)$/);
+    if (!match) throw new Error(`Invalid .env line ${i + 1}: expected KEY=value`);
+    const value = readEnvValue(match[2]);
+    const path = match[1].split(ENV_NESTING);
+    const parents = path.slice(0, -1);
+    const canNest = path.every(part => part !== '') && isNestable(result, parents);
+    if (canNest) getSection(result, parents)[path[path.length - 1]] = value;
+    else result[match[1]] = value;
+  });
+  return JSON.stringify(result, null, indentation);
+};
+
+const quoteEnv = (text: string) => (text === '' || /^[\w.\/:@+-]+$/.test(text) ? text : JSON.stringify(text));
+
+/**
+ * Writes one KEY=value line per leaf. Nested objects are flattened with "__"
+ * (database.host becomes database__host) and arrays are written as JSON.
+ */
+export const jsonToEnv = (value: any): string => {
+  if (!isSection(value)) throw new Error('A .env file must be an object at the top level');
+  const lines: string[] = [];
+  const write = (node: Record<string, any>, prefix: string) => {
+    Object.keys(node).forEach(key => {
+      const name = `${prefix}${key}`.replace(/[^\w.-]/g, '_');
+      const item = node[key];
+      if (isSection(item)) write(item, `${name}${ENV_NESTING}`);
+      else lines.push(`${name}=${quoteEnv(Array.isArray(item) ? stringifyLossless(item, '') : toText(item))}`);
+    });
+  };
+  write(value, '');
+  return lines.join('\n') + '\n';
+};
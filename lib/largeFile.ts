@@ -0,0 +1,243 @@
+/**
+ * Large-file mode: structural indexing of documents too big for the editor.
+ *
+ * The file is never loaded as one string. Containers are scanned in chunks
+ * straight from the File, recording the byte range of each child (and the
+ * key, for objects). Nested containers are only indexed when they are opened,
+ * and values are read back one slice at a time.
+ *
+ * The scanner tracks brackets, strings and separators but does not validate
+ * the document; JSON structure characters are all ASCII, so scanning UTF-8
+ * bytes directly is safe.
+ */
+
+export type LargeNodeKind = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+export interface ContainerIndex {
+  type: 'object' | 'array';
+  // Byte range of the container, brackets included
+  start: number;
+  end: number;
+  // Byte ranges of the children, in document order
+  starts: number[];
+  ends: number[];
+  kinds: LargeNodeKind[];
+  // Property names; null for arrays
+  keys: string[] | null;
+}
+
+export interface LargeFileRoot {
+  // Byte range of the top-level value
+  start: number;
+  end: number;
+  kind: LargeNodeKind;
+}
+
+export type ExtractMode = 'head' | 'tail' | 'sample';
+
+// Bigger chunks scan faster but block the main thread for longer between yields
+const CHUNK_SIZE = 1024 * 1024;
+
+const QUOTE = 34;
+const BACKSLASH = 92;
+const COMMA = 44;
+const COLON = 58;
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+const OPEN_BRACKET = 91;
+const CLOSE_BRACKET = 93;
+
+const isWhitespaceByte = (b: number) => b === 32 || b === 10 || b === 13 || b === 9;
+
+export const getKindFromByte = (b: number): LargeNodeKind => {
+  if (b === OPEN_BRACE) return 'object';
+  if (b === OPEN_BRACKET) return 'array';
+  if (b === QUOTE) return 'string';
+  if (b === 116 || b === 102) return 'boolean'; // t, f
+  if (b === 110) return 'null'; // n
+  return 'number';
+};
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+};
+
+export const readText = (file: Blob, start: number, end: number): Promise<string> => file.slice(start, end).text();
+
+const decoder = new TextDecoder();
+
+const decodeKey = (bytes: number[]): string => {
+  const raw = decoder.decode(Uint8Array.from(bytes));
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch (e) {
+    return raw;
+  }
+};
+
+// Containers and strings must close where the file ends; other scalars are short enough to parse
+const isPlausibleRoot = (head: Uint8Array, last: number, root: LargeFileRoot): boolean => {
+  if (root.kind === 'object') return last === CLOSE_BRACE;
+  if (root.kind === 'array') return last === CLOSE_BRACKET;
+  if (root.kind === 'string') return last === QUOTE;
+  if (root.end > head.length) return false;
+  try {
+    JSON.parse(decoder.decode(head.subarray(root.start, root.end)));
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Locates the top-level value. Only the first chunk is read: containers end
+ * at the last significant byte of the file, which is found from the tail.
+ * Throws if the file does not hold a JSON value (CSV, YAML...).
+ */
+export const findRoot = async (file: Blob): Promise<LargeFileRoot | null> => {
+  const head = await readBytes(file, 0, Math.min(file.size, 64 * 1024));
+  let start = 0;
+  // Skip a byte order mark and leading whitespace
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) start = 3;
+  while (start < head.length && isWhitespaceByte(head[start])) start++;
+  if (start >= head.length) return null;
+
+  const tail = await readBytes(file, Math.max(0, file.size - 64 * 1024), file.size);
+  let end = tail.length;
+  while (end > 0 && isWhitespaceByte(tail[end - 1])) end--;
+  const root: LargeFileRoot = { start, end: file.size - tail.length + end, kind: getKindFromByte(head[start]) };
+  if (!isPlausibleRoot(head, tail[end - 1], root)) throw new Error('The file is not JSON. Large-file mode opens a single JSON object or array.');
+  return root;
+};
+
+/**
+ * Scans the container that starts at `start` and records its direct children.
+ * Resolves with null when `isCancelled` returns true between chunks.
+ */
+export const indexContainer = async (
+  file: Blob,
+  start: number,
+  onProgress: (fraction: number) => void = () => {},
+  isCancelled: () => boolean = () => false
+): Promise<ContainerIndex | null> => {
+  const first = (await readBytes(file, start, start + 1))[0];
+  if (first !== OPEN_BRACE && first !== OPEN_BRACKET) throw new Error('Not an object or array');
+  const isObject = first === OPEN_BRACE;
+  const index: ContainerIndex = { type: isObject ? 'object' : 'array', start, end: file.size, starts: [], ends: [], kinds: [], keys: isObject ? [] : null };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Direct children: waiting for a key (objects) or a value
+  let expectKey = false;
+  let expectValue = false;
+  let inChild = false;
+  let keyBytes: number[] | null = null;
+  // End of the last significant byte, so child ranges exclude trailing whitespace
+  let lastSignificant = start;
+
+  for (let base = start; base < file.size; base += CHUNK_SIZE) {
+    if (isCancelled()) return null;
+    const bytes = await readBytes(file, base, Math.min(file.size, base + CHUNK_SIZE));
+
+    for (let i = 0; i < bytes.length; i++) {
+      const b = bytes[i];
+      const offset = base + i;
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (b === BACKSLASH) {
+          escaped = true;
+        } else if (b === QUOTE) {
+          inString = false;
+          if (keyBytes) {
+            index.keys!.push(decodeKey(keyBytes));
+            keyBytes = null;
+          }
+          lastSignificant = offset + 1;
+          continue;
+        }
+        if (keyBytes) keyBytes.push(b);
+        lastSignificant = offset + 1;
+        continue;
+      }
+      if (isWhitespaceByte(b)) continue;
+
+      // A closing bracket right after "[" is an empty container, not a child
+      if (depth === 1 && expectValue && b !== CLOSE_BRACKET && b !== CLOSE_BRACE) {
+        expectValue = false;
+        inChild = true;
+        index.starts.push(offset);
+        index.kinds.push(getKindFromByte(b));
+      }
+
+      if (b === QUOTE) {
+        inString = true;
+        if (depth === 1 && expectKey) {
+          expectKey = false;
+          keyBytes = [];
+        }
+      } else if (b === OPEN_BRACE || b === OPEN_BRACKET) {
+        depth++;
+        if (depth === 1) {
+          expectKey = isObject;
+          expectValue = !isObject;
+        }
+      } else if (b === CLOSE_BRACE || b === CLOSE_BRACKET) {
+        depth--;
+        if (depth === 0) {
+          if (inChild) index.ends.push(lastSignificant);
+          index.end = offset + 1;
+          onProgress(1);
+          return index;
+        }
+      } else if (depth === 1 && b === COMMA) {
+        if (inChild) index.ends.push(lastSignificant);
+        inChild = false;
+        expectKey = isObject;
+        expectValue = !isObject;
+      } else if (depth === 1 && b === COLON && isObject) {
+        expectValue = true;
+      }
+      lastSignificant = offset + 1;
+    }
+    onProgress((base + bytes.length - start) / (file.size - start));
+  }
+
+  // Truncated file: keep what was found so far
+  if (inChild) index.ends.push(lastSignificant);
+  if (index.keys && index.keys.length > index.starts.length) index.keys.length = index.starts.length;
+  return index;
+};
+
+const pickIndexes = (count: number, limit: number, mode: ExtractMode): number[] => {
+  const n = Math.min(count, limit);
+  if (mode === 'head') return Array.from({ length: n }, (_, i) => i);
+  if (mode === 'tail') return Array.from({ length: n }, (_, i) => count - n + i);
+  // Sample without replacement, kept in document order
+  const picked = new Set<number>();
+  while (picked.size < n) picked.add(Math.floor(Math.random() * count));
+  return Array.from(picked).sort((a, b) => a - b);
+};
+
+// Copies the picked children byte for byte into a standalone document
+const buildDocument = async (file: Blob, index: ContainerIndex, picked: number[]): Promise<string> => {
+  const values = await Promise.all(picked.map(i => readText(file, index.starts[i], index.ends[i])));
+  if (index.type === 'array') return `[${values.join(',')}]`;
+  return `{${values.map((value, i) => `${JSON.stringify(index.keys![picked[i]])}:${value}`).join(',')}}`;
+};
+
+/**
+ * Builds a document from the first, last or randomly sampled children of a
+ * container.
+ */
+export const extractEntries = (file: Blob, index: ContainerIndex, mode: ExtractMode, limit: number): Promise<string> => {
+  return buildDocument(file, index, pickIndexes(index.starts.length, limit, mode));
+};
+
+// A page of children for the table view
+export const readPage = (file: Blob, index: ContainerIndex, offset: number, size: number): Promise<string> => {
+  const count = Math.max(0, Math.min(size, index.starts.length - offset));
+  return buildDocument(file, index, Array.from({ length: count }, (_, i) => offset + i));
+};
@@ -0,0 +1,306 @@
+import { Diagnostic } from '../types';
+import { parseTree, createPositionMapper, offsetsToRange, JsonNode, JsonPathSegment, ParseOptions } from './parser';
+import { formatPath } from './utils';
+
+/**
+ * Lossless parsing and serialization.
+ *
+ * JSON.parse turns every number into a double, so 64-bit IDs such as
+ * 9007199254740993 silently change, and JSON.stringify rewrites 1.0 as 1.
+ * The functions here work from the syntax tree instead and copy each
+ * number (and string) through exactly as it was written.
+ */
+
+/**
+ * A number that a JavaScript double cannot hold exactly. Views get one of
+ * these instead of the rounded value; it prints as the original digits.
+ */
+export class LosslessNumber {
+  readonly raw: string;
+
+  constructor(raw: string) {
+    this.raw = raw;
+  }
+
+  valueOf(): number {
+    return Number(this.raw);
+  }
+
+  toString(): string {
+    return this.raw;
+  }
+
+  // Serializers that do not know about this class get the nearest double
+  toJSON(): number {
+    return this.valueOf();
+  }
+}
+
+export const isLosslessNumber = (value: unknown): value is LosslessNumber => value instanceof LosslessNumber;
+
+const STRICT_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const DECIMAL_NUMBER = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// Numbers with 15 significant digits or fewer always survive a round trip, so
+// documents without long digit runs or large exponents can skip the tree walk
+const MAY_LOSE_PRECISION = /(?:\d\.?){16}|[eE][+-]?\d{3}/;
+
+// Literals that JSON.stringify would write differently without changing the value: 1.0, 1e3, -0, 0.0000001
+const MAY_HAVE_NUMBER_FORMATTING = /\d\.\d*0(?!\d)|\d[eE]|-0(?![.\d])|\.0{6}/;
+
+// Reduces a decimal literal to a canonical "digits e exponent" form, e.g. "1.50e2" -> "15e1"
+const canonicalDecimal = (raw: string): string | null => {
+  const match = DECIMAL_NUMBER.exec(raw);
+  if (!match) return null;
+  const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+  let digits = (integer + fraction).replace(/^0+/, '');
+  let power = Number(exponent) - fraction.length;
+  if (!digits) return '0';
+  const trailing = digits.length - digits.replace(/0+$/, '').length;
+  digits = digits.slice(0, digits.length - trailing);
+  power += trailing;
+  return `${sign === '-' ? '-' : ''}${digits}e${power}`;
+};
+
+/**
+ * Whether reading this number literal into a double changes its value.
+ * Formatting-only differences such as 1.0 vs 1 do not count.
+ */
+export const losesPrecision = (raw: string): boolean => {
+  const unsigned = raw.replace(/^[+-]/, '');
+  if (unsigned === 'Infinity' || unsigned === 'NaN') return false;
+  if (/^0[xX]/.test(unsigned)) {
+    const value = Number(unsigned);
+    return !Number.isFinite(value) || BigInt(unsigned) !== BigInt(value);
+  }
+  const value = Number(raw.replace(/^\+/, ''));
+  // Overflow to Infinity, or underflow of a non-zero literal to 0
+  if (!Number.isFinite(value)) return true;
+  return canonicalDecimal(raw) !== canonicalDecimal(String(value));
+};
+
+/**
+ * Whether the text may hold number literals that a round trip through
+ * JSON.stringify would reformat. False means parsed values can be written
+ * back without looking at the source.
+ */
+export const hasNumberFormatting = (text: string): boolean => MAY_HAVE_NUMBER_FORMATTING.test(text);
+
+// Numeric equality that sees every digit: 9007199254740993 and 9007199254740992 differ, 1.0 and 1 do not
+export const isSameNumber = (a: number | LosslessNumber, b: number | LosslessNumber): boolean => {
+  const canonicalA = canonicalDecimal(String(a));
+  const canonicalB = canonicalDecimal(String(b));
+  return canonicalA !== null && canonicalB !== null ? canonicalA === canonicalB : Number(a) === Number(b);
+};
+
+// Converts a relaxed number literal to strict JSON without going through a double when possible
+const toStrictNumber = (raw: string, value: number): string => {
+  if (STRICT_NUMBER.test(raw)) return raw;
+  const unsigned = raw.replace(/^[+-]/, '');
+  const sign = raw.startsWith('-') ? '-' : '';
+  if (/^0[xX]/.test(unsigned)) return sign + BigInt(unsigned).toString();
+  const decimal = (sign + unsigned).replace(/^(-?)\./, '$10.').replace(/\.(?=[eE]|$)/, '');
+  if (STRICT_NUMBER.test(decimal)) return decimal;
+  // NaN and Infinity have no JSON equivalent and become null, as with JSON.stringify
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Strict documents copy strings verbatim; relaxed ones re-encode anything JSON.parse would reject
+const serializeString = (text: string, node: JsonNode, relaxed: boolean): string => {
+  const raw = text.slice(node.offset, node.offset + node.length);
+  if (!relaxed) return raw;
+  if (raw.startsWith('"')) {
+    try {
+      JSON.parse(raw);
+      return raw;
+    } catch (e) {
+      // Fall back to re-encoding the decoded value
+    }
+  }
+  return JSON.stringify(node.value);
+};
+
+// Same whitespace rules as JSON.stringify: numbers mean that many spaces (up to 10)
+const getIndentUnit = (indentation: number | string): string => {
+  return typeof indentation === 'number' ? ' '.repeat(Math.min(Math.max(indentation, 0), 10)) : indentation.slice(0, 10);
+};
+
+/**
+ * Writes a syntax tree back out as strict JSON, copying literals from `text`.
+ * With `relaxed`, JSON5-only literals are converted to their JSON form.
+ */
+export const serializeTree = (text: string, root: JsonNode, indentation: number | string, relaxed: boolean = false): string => {
+  const unit = getIndentUnit(indentation);
+  const colon = unit ? ': ' : ':';
+
+  const write = (node: JsonNode, indent: string): string => {
+    switch (node.type) {
+      case 'object':
+      case 'array': {
+        const [open, close] = node.type === 'object' ? ['{', '}'] : ['[', ']'];
+        if (node.children!.length === 0) return open + close;
+        const inner = indent + unit;
+        const items = node.children!.map(child => {
+          if (child.type !== 'property') return write(child, inner);
+          const [key, value] = child.children!;
+          return serializeString(text, key, relaxed) + colon + write(value, inner);
+        });
+        if (!unit) return open + items.join(',') + close;
+        return `${open}\n${inner}${items.join(`,\n${inner}`)}\n${indent}${close}`;
+      }
+      case 'string':
+        return serializeString(text, node, relaxed);
+      case 'number':
+        return toStrictNumber(text.slice(node.offset, node.offset + node.length), node.value);
+      default:
+        return String(node.value);
+    }
+  };
+
+  return write(root, '');
+};
+
+/**
+ * Pretty-prints strict JSON like JSON.stringify(JSON.parse(text), null, indentation),
+ * but keeps number and string literals exactly as written. Duplicate keys are
+ * kept too. Throws on invalid input.
+ */
+export const formatLossless = (text: string, indentation: number | string): string => {
+  return serializeTree(text, parseTree(text), indentation);
+};
+
+export const minifyLossless = (text: string): string => formatLossless(text, '');
+
+// Source text of each element of an array document; any other document is a single item
+export const splitItems = (text: string): string[] => {
+  const root = parseTree(text);
+  if (root.type !== 'array') return [text.trim()];
+  return (root.children || []).map(node => text.slice(node.offset, node.offset + node.length));
+};
+
+/**
+ * Appends `addition` to the array document `text`: the elements of an
+ * array, or the value itself. Literals are copied as written.
+ */
+export const appendItems = (text: string, addition: string, indentation: number | string): string => {
+  if (parseTree(text).type !== 'array') throw new Error('Only an array document can be appended to');
+  return formatLossless(`[${[...splitItems(text), ...splitItems(addition)].join(',')}]`, indentation);
+};
+
+// Stand-in for exact number literals while JSON.stringify runs; replaced by the bare literal afterwards
+const NUMBER_MARKER = '\u0000number:';
+const NUMBER_MARKER_PATTERN = /"\\u0000number:([-+.\w]+)"/g;
+
+/**
+ * JSON.stringify that keeps every digit: LosslessNumbers are written as their
+ * original literal, and big integers from other parsers (YAML, TOML) that
+ * arrive as BigInt are written as plain number literals instead of throwing.
+ */
+export const stringifyLossless = (value: any, indentation: number | string): string => {
+  const json = JSON.stringify(value, function (this: any, key, v) {
+    // toJSON has already turned a LosslessNumber into a double; the holder still has the original
+    const original = this[key];
+    if (isLosslessNumber(original)) return `${NUMBER_MARKER}${toStrictNumber(original.raw, original.valueOf())}`;
+    if (typeof v !== 'bigint') return v;
+    return Number.isSafeInteger(Number(v)) ? Number(v) : `${NUMBER_MARKER}${v}`;
+  }, indentation);
+  return json === undefined ? 'null' : json.replace(NUMBER_MARKER_PATTERN, '$1');
+};
+
+// Converts LosslessNumbers for writers that understand BigInt, so big integers keep their digits
+export const toBigIntOrNumber = (value: LosslessNumber): bigint | number => {
+  return /^-?\d+$/.test(value.raw) ? BigInt(value.raw) : Number(value.raw);
+};
+
+// Re-serializes valid JSON with the given indentation; invalid text is returned untouched
+export const normalizeJson = (text: string, indentation: number | string): string => {
+  if (!text.trim()) return text;
+  try {
+    return formatLossless(text, indentation);
+  } catch (e) {
+    return text;
+  }
+};
+
+/**
+ * Like JSON.parse, but numbers that would lose precision come back as
+ * LosslessNumber instances holding the original digits.
+ */
+export const parseLossless = (text: string, options: ParseOptions = {}): any => {
+  if (!options.relaxed && !MAY_LOSE_PRECISION.test(text)) return JSON.parse(text);
+  let root: JsonNode;
+  try {
+    root = parseTree(text, options);
+  } catch (e) {
+    if (options.relaxed) throw e;
+    // Let JSON.parse produce the usual error message
+    return JSON.parse(text);
+  }
+
+  const toValue = (node: JsonNode): any => {
+    switch (node.type) {
+      case 'object': {
+        const obj: Record<string, any> = {};
+        node.children!.forEach(prop => {
+          // defineProperty keeps "__proto__" as an own key, like JSON.parse does
+          Object.defineProperty(obj, prop.children![0].value, {
+            value: toValue(prop.children![1]),
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        });
+        return obj;
+      }
+      case 'array':
+        return node.children!.map(toValue);
+      case 'number': {
+        const raw = text.slice(node.offset, node.offset + node.length);
+        return losesPrecision(raw) ? new LosslessNumber(raw) : node.value;
+      }
+      default:
+        return node.value;
+    }
+  };
+
+  return toValue(root);
+};
+
+/**
+ * Warnings for every number that JSON.parse (and therefore most JavaScript
+ * tools) would silently change. Returns an empty list for invalid text.
+ */
+export const getPrecisionDiagnostics = (text: string, options: ParseOptions = {}): Diagnostic[] => {
+  if (!MAY_LOSE_PRECISION.test(text)) return [];
+  let root: JsonNode;
+  try {
+    root = parseTree(text, options);
+  } catch (e) {
+    return [];
+  }
+
+  const toPosition = createPositionMapper(text);
+  const diagnostics: Diagnostic[] = [];
+
+  const walk = (node: JsonNode, path: JsonPathSegment[]) => {
+    if (node.type === 'object') {
+      node.children!.forEach(prop => walk(prop.children![1], [...path, prop.children![0].value]));
+    } else if (node.type === 'array') {
+      node.children!.forEach((child, index) => walk(child, [...path, index]));
+    } else if (node.type === 'number') {
+      const raw = text.slice(node.offset, node.offset + node.length);
+      if (!losesPrecision(raw)) return;
+      diagnostics.push({
+        source: 'precision',
+        severity: 'warning',
+        message: `${raw} cannot be represented exactly in JavaScript and reads as ${node.value}`,
+        hint: 'Prettify and Minify keep the original digits, but other tools may not; consider storing it as a string',
+        path: formatPath(path),
+        ...offsetsToRange(toPosition, node.offset, node.offset + node.length),
+      });
+    }
+  };
+
+  walk(root, []);
+  return diagnostics;
+};
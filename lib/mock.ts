@@ -0,0 +1,456 @@
+/**
+ * Offline mock data from a JSON Schema. Generation is driven by a seeded
+ * PRNG, so the same schema, seed and count always give the same records.
+ *
+ * Supported: type (incl. type arrays), enum, const, properties/required,
+ * items/prefixItems, min/maxItems, uniqueItems, minimum/maximum (and the
+ * exclusive forms), multipleOf, min/maxLength, simple patterns, formats,
+ * allOf/anyOf/oneOf and local $refs. Strings without a format get realistic
+ * values picked from the property name (email, firstName, city, createdAt...).
+ */
+
+export interface Random {
+  // Uniform in [0, 1)
+  next: () => number;
+  // Integer in [min, max]
+  int: (min: number, max: number) => number;
+  pick: <T>(items: T[]) => T;
+  chance: (probability: number) => boolean;
+}
+
+// FNV-1a, so any text (or number) can be used as a seed
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny, fast and good enough for test data
+export const createRandom = (seed: string | number): Random => {
+  let state = hashSeed(String(seed));
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+  return {
+    next,
+    int,
+    pick: items => items[int(0, items.length - 1)],
+    chance: probability => next() < probability,
+  };
+};
+
+const FIRST_NAMES = ['Ada', 'Alan', 'Grace', 'Linus', 'Margaret', 'Dennis', 'Barbara', 'Ken', 'Frances', 'Tim', 'Radia', 'Guido', 'Katherine', 'Bjarne', 'Hedy', 'James'];
+const LAST_NAMES = ['Lovelace', 'Turing', 'Hopper', 'Torvalds', 'Hamilton', 'Ritchie', 'Liskov', 'Thompson', 'Allen', 'Berners-Lee', 'Perlman', 'Rossum', 'Johnson', 'Stroustrup', 'Lamarr', 'Gosling'];
+const CITIES = ['Lisbon', 'Berlin', 'Toronto', 'Osaka', 'Nairobi', 'Austin', 'Melbourne', 'Bogota', 'Oslo', 'Seoul', 'Dublin', 'Cape Town'];
+const COUNTRIES = ['Portugal', 'Germany', 'Canada', 'Japan', 'Kenya', 'United States', 'Australia', 'Colombia', 'Norway', 'South Korea', 'Ireland', 'South Africa'];
+const STREETS = ['Main St', 'Oak Avenue', 'Station Road', 'Park Lane', 'Harbor Way', 'Maple Drive', 'Hill Street', 'River Road'];
+const COMPANIES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Labs', 'Stark Industries', 'Hooli', 'Vandelay Industries', 'Wayne Enterprises'];
+const COLORS = ['red', 'green', 'blue', 'orange', 'purple', 'teal', 'black', 'white'];
+const STATUSES = ['active', 'inactive', 'pending', 'archived'];
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD'];
+const LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP', 'pt-BR'];
+const WORDS = [
+  'alpha', 'bright', 'cloud', 'delta', 'echo', 'field', 'garden', 'harbor', 'island', 'jungle', 'kernel', 'lemon',
+  'meadow', 'nectar', 'orbit', 'pixel', 'quartz', 'river', 'signal', 'timber', 'urban', 'velvet', 'willow', 'zenith',
+];
+const DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+const DAY = 24 * 60 * 60 * 1000;
+// Dates fall in 2020-2025 so they look plausible without depending on today's date
+const DATE_START = Date.UTC(2020, 0, 1);
+const DATE_SPAN = 6 * 365 * DAY;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const words = (random: Random, min: number, max: number) => {
+  return Array.from({ length: random.int(min, max) }, () => random.pick(WORDS)).join(' ');
+};
+
+const sentence = (random: Random) => {
+  const text = words(random, 4, 10);
+  return text.charAt(0).toUpperCase() + text.slice(1) + '.';
+};
+
+const uuid = (random: Random) => {
+  const hex = (length: number) => Array.from({ length }, () => random.int(0, 15).toString(16)).join('');
+  return `${hex(8)}-${hex(4)}-4${hex(3)}-${random.pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`;
+};
+
+const dateTime = (random: Random) => new Date(DATE_START + Math.floor(random.next() * DATE_SPAN)).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const FORMATS: Record<string, (random: Random) => string> = {
+  'date-time': dateTime,
+  date: random => dateTime(random).slice(0, 10),
+  time: random => `${pad(random.int(0, 23))}:${pad(random.int(0, 59))}:${pad(random.int(0, 59))}`,
+  email: random => `${random.pick(FIRST_NAMES)}.${random.pick(LAST_NAMES)}@${random.pick(DOMAINS)}`.toLowerCase().replace(/[^a-z0-9.@-]/g, ''),
+  uri: random => `https://${random.pick(DOMAINS)}/${random.pick(WORDS)}/${random.int(1, 9999)}`,
+  uuid,
+  ipv4: random => Array.from({ length: 4 }, () => random.int(1, 254)).join('.'),
+  ipv6: random => Array.from({ length: 8 }, () => random.int(0, 0xffff).toString(16)).join(':'),
+  hostname: random => `${random.pick(WORDS)}.${random.pick(DOMAINS)}`,
+};
+
+// Realistic strings for common property names; checked in order on the lowercased name
+const NAMED_STRINGS: [RegExp, (random: Random) => string][] = [
+  [/e-?mail/, FORMATS.email],
+  [/(^|_)(url|uri|website|homepage|link|href)$|url$/, FORMATS.uri],
+  [/(^|_)uuid$|guid/, uuid],
+  [/(^|_)(created|updated|deleted|modified|published)($|_)|_at$|timestamp/, dateTime],
+  [/date|birthday|dob/, FORMATS.date],
+  [/first_?name|given_?name/, random => random.pick(FIRST_NAMES)],
+  [/last_?name|family_?name|surname/, random => random.pick(LAST_NAMES)],
+  [/user_?name|login|handle/, random => `${random.pick(FIRST_NAMES).toLowerCase()}${random.int(1, 999)}`],
+  [/company|organi[sz]ation|employer/, random => random.pick(COMPANIES)],
+  [/city|town/, random => random.pick(CITIES)],
+  [/country/, random => random.pick(COUNTRIES)],
+  [/street|address/, random => `${random.int(1, 999)} ${random.pick(STREETS)}`],
+  [/zip|postal/, random => pad(random.int(10000, 99999), 5)],
+  [/phone|mobile|fax/, random => `+1-${random.int(200, 999)}-${random.int(200, 999)}-${pad(random.int(0, 9999), 4)}`],
+  [/colou?r/, random => random.pick(COLORS)],
+  [/status|state/, random => random.pick(STATUSES)],
+  [/currency/, random => random.pick(CURRENCIES)],
+  [/locale|lang/, random => random.pick(LOCALES)],
+  [/(^|_)ip(_?address)?$/, FORMATS.ipv4],
+  [/host/, FORMATS.hostname],
+  [/description|summary|bio|comment|note|message|body|text|content/, sentence],
+  [/title|subject|headline|label/, random => {
+    const text = words(random, 2, 4);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }],
+  [/name/, random => `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`],
+  [/(^|_)id$|key|token|code|sku|slug/, random => `${random.pick(WORDS)}-${random.int(1000, 99999)}`],
+];
+
+// Ranges for unconstrained numbers with a telling name
+const NAMED_RANGES: [RegExp, number, number][] = [
+  [/(^|_)age$/, 18, 90],
+  [/year/, 1990, 2025],
+  [/month/, 1, 12],
+  [/day/, 1, 28],
+  [/hour/, 0, 23],
+  [/minute|second/, 0, 59],
+  [/percent|ratio|score/, 0, 100],
+  [/rating|stars/, 1, 5],
+  [/(^|_)lat(itude)?$/, -90, 90],
+  [/(^|_)(lng|lon|long|longitude)$/, -180, 180],
+  [/price|amount|cost|total|balance|salary/, 1, 5000],
+  [/count|quantity|qty|size|length/, 0, 100],
+  [/(^|_)id$|id$/, 1, 100000],
+];
+
+const normalizeName = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+// --- Patterns -------------------------------------------------------------
+
+// Character sets for the escapes and classes we can generate from
+const DIGITS = '0123456789';
+const WORD_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_';
+const ESCAPES: Record<string, string> = { d: DIGITS, w: WORD_CHARS, s: ' ' };
+
+type PatternNode = { chars: string } | { alternatives: PatternToken[][] };
+interface PatternToken {
+  node: PatternNode;
+  min: number;
+  max: number;
+}
+
+/**
+ * Parses the regex subset that covers most schema patterns: literals,
+ * escapes, [classes] with ranges, groups with alternation and the usual
+ * quantifiers. Anything else throws and the caller falls back.
+ */
+const parsePattern = (pattern: string): PatternToken[][] => {
+  let i = 0;
+
+  const parseClass = (): string => {
+    let chars = '';
+    i++; // [
+    if (pattern[i] === '^') throw new Error('Negated classes are not supported');
+    while (i < pattern.length && pattern[i] !== ']') {
+      let char = pattern[i++];
+      if (char === '\\') {
+        const escaped = pattern[i++];
+        if (ESCAPES[escaped]) {
+          chars += ESCAPES[escaped];
+          continue;
+        }
+        char = escaped;
+      }
+      if (pattern[i] === '-' && pattern[i + 1] && pattern[i + 1] !== ']') {
+        const end = pattern[i + 1];
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) chars += String.fromCharCode(code);
+        i += 2;
+      } else {
+        chars += char;
+      }
+    }
+    i++; // ]
+    return chars;
+  };
+
+  const parseQuantifier = (): [number, number] => {
+    const char = pattern[i];
+    if (char === '?') return (i++, [0, 1]);
+    if (char === '*') return (i++, [0, 4]);
+    if (char === '+') return (i++, [1, 4]);
+    if (char === '{') {
+      const match = pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+      if (!match) throw new Error('Invalid quantifier');
+      i += match[0].length;
+      const min = Number(match[1]);
+      return [min, match[2] ? (match[3] ? Number(match[3]) : min + 4) : min];
+    }
+    return [1, 1];
+  };
+
+  const parseAlternatives = (): PatternToken[][] => {
+    const alternatives: PatternToken[][] = [[]];
+    while (i < pattern.length && pattern[i] !== ')') {
+      const char = pattern[i];
+      let node: PatternNode;
+      if (char === '|') {
+        alternatives.push([]);
+        i++;
+        continue;
+      } else if (char === '^' || char === '$') {
+        i++;
+        continue;
+      } else if (char === '(') {
+        i++;
+        if (pattern.startsWith('?:', i)) i += 2;
+        node = { alternatives: parseAlternatives() };
+        i++; // )
+      } else if (char === '[') {
+        node = { chars: parseClass() };
+      } else if (char === '\\') {
+        const escaped = pattern[i + 1];
+        node = { chars: ESCAPES[escaped] ?? escaped };
+        i += 2;
+      } else if (char === '.') {
+        node = { chars: WORD_CHARS };
+        i++;
+      } else {
+        node = { chars: char };
+        i++;
+      }
+      const [min, max] = parseQuantifier();
+      if (pattern[i] === '?') i++; // lazy quantifiers generate the same strings
+      alternatives[alternatives.length - 1].push({ node, min, max });
+    }
+    return alternatives;
+  };
+
+  return parseAlternatives();
+};
+
+const generateFromPattern = (pattern: string, random: Random): string | null => {
+  try {
+    const render = (alternatives: PatternToken[][]): string => {
+      return random.pick(alternatives).map(token => {
+        let text = '';
+        const times = random.int(token.min, token.max);
+        for (let n = 0; n < times; n++) {
+          text += 'chars' in token.node ? random.pick(token.node.chars.split('')) : render(token.node.alternatives);
+        }
+        return text;
+      }).join('');
+    };
+    const text = render(parsePattern(pattern));
+    return new RegExp(pattern, 'u').test(text) ? text : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Schemas --------------------------------------------------------------
+
+type Schema = Record<string, any> | boolean;
+
+interface Context {
+  root: Schema;
+  random: Random;
+}
+
+// Nesting limit for recursive schemas (trees, linked lists)
+const MAX_DEPTH = 8;
+
+const resolveRef = (ref: string, root: Schema): Schema => {
+  if (!ref.startsWith('#')) throw new Error(`Only local $refs are supported: ${ref}`);
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, part) => {
+      if (node === undefined || node === null || typeof node !== 'object' || !(part in node)) {
+        throw new Error(`Cannot resolve $ref ${ref}`);
+      }
+      return node[part];
+    }, root);
+};
+
+// Folds $ref and allOf into one schema so the generator only looks at plain keywords
+const flatten = (schema: Schema, context: Context, depth: number): Record<string, any> => {
+  if (typeof schema === 'boolean') return {};
+  let result: Record<string, any> = { ...schema };
+  if (typeof result.$ref === 'string') {
+    if (depth > MAX_DEPTH * 4) throw new Error(`$ref ${result.$ref} does not terminate`);
+    const { $ref, ...rest } = result;
+    result = { ...flatten(resolveRef($ref, context.root), context, depth + 1), ...rest };
+  }
+  if (Array.isArray(result.allOf)) {
+    const { allOf, ...rest } = result;
+    result = allOf.reduce((merged: Record<string, any>, part: Schema) => {
+      const flat = flatten(part, context, depth + 1);
+      return {
+        ...merged,
+        ...flat,
+        properties: { ...merged.properties, ...flat.properties },
+        required: [...(merged.required || []), ...(flat.required || [])],
+      };
+    }, rest);
+  }
+  return result;
+};
+
+const getTypes = (schema: Record<string, any>): string[] => {
+  if (Array.isArray(schema.type)) return schema.type;
+  if (typeof schema.type === 'string') return [schema.type];
+  if (schema.properties || schema.required || schema.additionalProperties) return ['object'];
+  if (schema.items || schema.prefixItems) return ['array'];
+  if (schema.minimum !== undefined || schema.maximum !== undefined) return ['number'];
+  return ['string'];
+};
+
+const generateNumber = (schema: Record<string, any>, isInteger: boolean, name: string, random: Random): number => {
+  const named = NAMED_RANGES.find(([pattern]) => pattern.test(name));
+  let min = schema.minimum ?? (typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : undefined);
+  let max = schema.maximum ?? (typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : undefined);
+  if (min === undefined && max === undefined) [min, max] = named ? [named[1], named[2]] : [0, 1000];
+  else if (min === undefined) min = Math.min(0, max - 1000);
+  else if (max === undefined) max = Math.max(min + 1000, 0);
+
+  const step = typeof schema.multipleOf === 'number' && schema.multipleOf > 0 ? schema.multipleOf : isInteger ? 1 : 0;
+  if (step > 0) {
+    // Pick a multiple inside the range, skipping excluded bounds
+    let low = Math.ceil(min / step);
+    let high = Math.floor(max / step);
+    if (typeof schema.exclusiveMinimum === 'number' && low * step <= schema.exclusiveMinimum) low++;
+    if (typeof schema.exclusiveMaximum === 'number' && high * step >= schema.exclusiveMaximum) high--;
+    if (high < low) return low * step;
+    return Number((random.int(low, high) * step).toFixed(10));
+  }
+  let value = Math.round((min + random.next() * (max - min)) * 100) / 100;
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) value = (schema.exclusiveMinimum + max) / 2;
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) value = (min + schema.exclusiveMaximum) / 2;
+  return value;
+};
+
+const generateString = (schema: Record<string, any>, name: string, random: Random): string => {
+  let text: string | null = null;
+  if (typeof schema.format === 'string' && FORMATS[schema.format]) text = FORMATS[schema.format](random);
+  if (text === null && typeof schema.pattern === 'string') text = generateFromPattern(schema.pattern, random);
+  if (text === null) {
+    const named = NAMED_STRINGS.find(([pattern]) => pattern.test(name));
+    text = named ? named[1](random) : words(random, 1, 3);
+  }
+  // Formats and patterns win over lengths; free text is padded or cut to fit
+  if (schema.format || schema.pattern) return text;
+  const minLength = schema.minLength ?? 0;
+  const maxLength = schema.maxLength ?? Infinity;
+  while (text.length < minLength) text += ` ${random.pick(WORDS)}`;
+  return text.length > maxLength ? text.slice(0, maxLength).trimEnd().padEnd(Math.min(minLength, maxLength), 'x') : text;
+};
+
+const singularName = (name: string) => name.replace(/ies$/, 'y').replace(/s$/, '');
+
+const generateValue = (input: Schema, context: Context, name: string, depth: number): any => {
+  const { random } = context;
+  // Nothing is valid against `false`
+  if (input === false) return null;
+  const schema = flatten(input, context, 0);
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return random.pick(schema.enum);
+
+  const branches = schema.oneOf || schema.anyOf;
+  if (Array.isArray(branches) && branches.length > 0) {
+    const { oneOf, anyOf, ...rest } = schema;
+    const branch = flatten(random.pick(branches), context, 0);
+    return generateValue({ ...rest, ...branch }, context, name, depth);
+  }
+
+  const types = getTypes(schema);
+  const concrete = types.filter(type => type !== 'null');
+  // Nullable values are mostly filled in, but null shows up now and then
+  if (concrete.length === 0 || (types.includes('null') && random.chance(0.1))) return null;
+  const type = random.pick(concrete);
+  const key = normalizeName(name);
+
+  switch (type) {
+    case 'string':
+      return generateString(schema, key, random);
+    case 'integer':
+    case 'number':
+      return generateNumber(schema, type === 'integer', key, random);
+    case 'boolean':
+      return random.chance(0.5);
+    case 'array': {
+      const prefixItems: Schema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+      const minItems = schema.minItems ?? Math.min(depth >= MAX_DEPTH ? 0 : 1, schema.maxItems ?? 1);
+      // Deep in a recursive schema, arrays stay as short as allowed
+      const maxItems = depth >= MAX_DEPTH ? minItems : Math.min(schema.maxItems ?? minItems + 4, minItems + 10);
+      const length = random.int(minItems, Math.max(minItems, maxItems));
+      const items: any[] = [];
+      const seen = new Set<string>();
+      for (let i = 0, attempts = 0; items.length < length && attempts < length * 10; attempts++) {
+        const itemSchema = i < prefixItems.length ? prefixItems[i] : schema.items ?? true;
+        if (itemSchema === false) break;
+        const item = generateValue(itemSchema, context, singularName(name), depth + 1);
+        const serialized = JSON.stringify(item);
+        if (schema.uniqueItems && seen.has(serialized)) continue;
+        seen.add(serialized);
+        items.push(item);
+        i++;
+      }
+      return items;
+    }
+    case 'object': {
+      // Null prototype, so properties like "__proto__" are set as data
+      const result: Record<string, any> = Object.create(null);
+      const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+      const properties: Record<string, Schema> = schema.properties || {};
+      Object.keys(properties).forEach(prop => {
+        // Optional properties are usually present, and dropped deep in recursive schemas
+        if (!required.has(prop) && (depth >= MAX_DEPTH || !random.chance(0.8))) return;
+        result[prop] = generateValue(properties[prop], context, prop, depth + 1);
+      });
+      required.forEach(prop => {
+        if (!Object.prototype.hasOwnProperty.call(result, prop)) result[prop] = generateValue(true, context, prop, depth + 1);
+      });
+      return result;
+    }
+    default:
+      return null;
+  }
+};
+
+export interface MockOptions {
+  count: number;
+  seed: string;
+}
+
+/**
+ * Generates `count` records from a schema. Throws for schemas it cannot
+ * follow, e.g. remote $refs.
+ */
+export const generateMockData = (schema: Schema, options: MockOptions): any[] => {
+  const context: Context = { root: schema, random: createRandom(options.seed) };
+  return Array.from({ length: options.count }, () => generateValue(schema, context, '', 0));
+};
@@ -0,0 +1,529 @@
+import {
+  Shape,
+  ObjectShape,
+  inferShape,
+  collectObjects,
+  getNumberKind,
+  isOptionalField,
+  toPascalCase,
+  toCamelCase,
+  toSnakeCase,
+} from './inferShape';
+import { generateTypeScript, TypeScriptStyle } from './typescript';
+
+/**
+ * Model code generators built on the inferred shape. Type names are always
+ * PascalCase; field names follow the chosen convention and, where that
+ * changes the name, keep the JSON key through the language's usual
+ * serializer annotation (json tags, serde, Jackson, System.Text.Json,
+ * kotlinx.serialization, Pydantic aliases).
+ */
+
+export type FieldNaming = 'idiomatic' | 'preserve' | 'camel' | 'snake' | 'pascal';
+
+export const FIELD_NAMINGS: { id: FieldNaming; label: string }[] = [
+  { id: 'idiomatic', label: 'Idiomatic' },
+  { id: 'preserve', label: 'As in JSON' },
+  { id: 'camel', label: 'camelCase' },
+  { id: 'snake', label: 'snake_case' },
+  { id: 'pascal', label: 'PascalCase' },
+];
+
+// A per-language choice; the first choice is the default
+export interface ModelSetting {
+  id: string;
+  label: string;
+  choices: { id: string; label: string }[];
+}
+
+export interface ModelOptions {
+  rootName: string;
+  naming: FieldNaming;
+  settings: Record<string, string>;
+}
+
+export interface ModelLanguage {
+  id: string;
+  label: string;
+  // Monaco language id for the output pane
+  editorLanguage: string;
+  extension: string;
+  // False when field names must match the JSON keys (TypeScript)
+  renamesFields: boolean;
+  settings: ModelSetting[];
+  generate: (value: any, options: ModelOptions) => string;
+}
+
+interface Field {
+  key: string;
+  name: string;
+  shape: Shape;
+  optional: boolean;
+}
+
+interface TypeNames {
+  string: string;
+  integer: string;
+  number: string;
+  boolean: string;
+  // Used for mixed kinds and for positions where only null was seen
+  any: string;
+  list: (item: string) => string;
+  union?: (types: string[]) => string;
+}
+
+const formatFieldName = (key: string, naming: FieldNaming, idiomatic: FieldNaming): string => {
+  const style = naming === 'idiomatic' ? idiomatic : naming;
+  let name: string;
+  if (style === 'camel') name = toCamelCase(key);
+  else if (style === 'snake') name = toSnakeCase(key);
+  else if (style === 'pascal') name = toPascalCase(key);
+  else name = key.replace(/[^A-Za-z0-9_]/g, '_');
+  if (!name) name = 'field';
+  return /^\d/.test(name) ? `_${name}` : name;
+};
+
+// Field names are unique per type; `toName` applies the convention and escapes keywords
+const getFields = (object: ObjectShape, toName: (key: string) => string): Field[] => {
+  const used = new Set<string>();
+  return Array.from(object.fields.entries()).map(([key, shape]) => {
+    const base = toName(key);
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+    used.add(name);
+    return { key, name, shape, optional: isOptionalField(object, shape) };
+  });
+};
+
+const renderType = (
+  shape: Shape,
+  names: Map<ObjectShape, string>,
+  types: TypeNames,
+  // Applied to array elements, which can be null themselves
+  wrapItem: (type: string, item: Shape) => string
+): string => {
+  const kinds: string[] = [];
+  if (shape.primitives.has('string')) kinds.push(types.string);
+  const numberKind = getNumberKind(shape);
+  if (numberKind) kinds.push(types[numberKind]);
+  if (shape.primitives.has('boolean')) kinds.push(types.boolean);
+  if (shape.object) kinds.push(names.get(shape.object)!);
+  if (shape.array) kinds.push(types.list(wrapItem(renderType(shape.array, names, types, wrapItem), shape.array)));
+  if (kinds.length === 1) return kinds[0];
+  if (kinds.length > 1 && types.union) return types.union(kinds);
+  return types.any;
+};
+
+const prepare = (value: any, options: ModelOptions) => {
+  const root = inferShape(value);
+  const { objects, names } = collectObjects(root, options.rootName, toPascalCase);
+  // Documents that are not an object at the top level (usually an array of records) get an alias
+  const aliasName = root.object ? null : toPascalCase(options.rootName) || 'Root';
+  return { root, objects, names, aliasName };
+};
+
+const indent = (lines: string[], unit: string) => lines.map(line => (line ? unit + line : line));
+
+// gofmt aligns the field names, types and tags of a struct in columns
+const alignColumns = (rows: string[][]): string[] => {
+  const widths = rows.reduce<number[]>((acc, row) => row.map((cell, i) => Math.max(acc[i] || 0, cell.length)), []);
+  return rows.map(row => row.map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]) : cell)).join(' ').trimEnd());
+};
+
+// --- Go -------------------------------------------------------------------
+
+const generateGo = (value: any, options: ModelOptions): string => {
+  const { root, objects, names, aliasName } = prepare(value, options);
+  const usePointers = options.settings.nullable === 'pointer';
+  const omitEmpty = options.settings.optional === 'omitempty';
+  const types: TypeNames = { string: 'string', integer: 'int64', number: 'float64', boolean: 'bool', any: 'any', list: item => `[]${item}` };
+  // Slices, maps and interfaces can already be nil
+  const canBeNil = (type: string) => type.startsWith('[]') || type === 'any';
+  const pointerTo = (type: string) => (usePointers && !canBeNil(type) ? `*${type}` : type);
+  const wrapItem = (type: string, item: Shape) => (item.nullable ? pointerTo(type) : type);
+
+  const blocks = objects.map(({ name, object }) => {
+    const fields = getFields(object, key => {
+      // Only exported (capitalized) fields are encoded by encoding/json
+      const fieldName = formatFieldName(key, options.naming, 'pascal').replace(/^_/, 'F');
+      return fieldName.charAt(0).toUpperCase() + fieldName.slice(1);
+    });
+    const rows = fields.map(field => {
+      const base = renderType(field.shape, names, types, wrapItem);
+      const type = field.shape.nullable || field.optional ? pointerTo(base) : base;
+      const tag = `\`json:"${field.key.replace(/"/g, '\\"')}${field.optional && omitEmpty ? ',omitempty' : ''}"\``;
+      return [field.name, type, tag];
+    });
+    if (rows.length === 0) return `type ${name} struct{}`;
+    return [`type ${name} struct {`, ...indent(alignColumns(rows), '\t'), '}'].join('\n');
+  });
+  if (aliasName) blocks.unshift(`type ${aliasName} ${renderType(root, names, types, wrapItem)}`);
+  return ['package models', ...blocks].join('\n\n') + '\n';
+};
+
+// --- Rust -----------------------------------------------------------------
+
+const RUST_KEYWORDS = new Set([
+  'as', 'async', 'await', 'break', 'const', 'continue', 'dyn', 'else', 'enum', 'extern', 'false', 'fn', 'for', 'if',
+  'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'static', 'struct', 'trait',
+  'true', 'type', 'unsafe', 'use', 'where', 'while', 'abstract', 'become', 'box', 'do', 'final', 'macro', 'override',
+  'priv', 'typeof', 'unsized', 'virtual', 'yield', 'try',
+]);
+// These cannot be raw identifiers
+const RUST_RESERVED = new Set(['self', 'Self', 'super', 'crate']);
+
+const generateRust = (value: any, options: ModelOptions): string => {
+  const { root, objects, names, aliasName } = prepare(value, options);
+  const optionalAsDefault = options.settings.optional === 'default';
+  let usesValue = false;
+  const types: TypeNames = {
+    string: 'String',
+    integer: 'i64',
+    number: 'f64',
+    boolean: 'bool',
+    get any() {
+      usesValue = true;
+      return 'Value';
+    },
+    list: item => `Vec<${item}>`,
+  };
+  const wrapItem = (type: string, item: Shape) => (item.nullable ? `Option<${type}>` : type);
+
+  const blocks = objects.map(({ name, object }) => {
+    const fields = getFields(object, key => {
+      const fieldName = formatFieldName(key, options.naming, 'snake');
+      if (RUST_RESERVED.has(fieldName)) return `${fieldName}_`;
+      return RUST_KEYWORDS.has(fieldName) ? `r#${fieldName}` : fieldName;
+    });
+    const lines: string[] = [];
+    fields.forEach(field => {
+      const base = renderType(field.shape, names, types, wrapItem);
+      const isOption = field.shape.nullable || (field.optional && !optionalAsDefault);
+      const attributes: string[] = [];
+      if (field.name.replace(/^r#/, '') !== field.key) attributes.push(`rename = ${JSON.stringify(field.key)}`);
+      if (field.optional) attributes.push(isOption ? 'default, skip_serializing_if = "Option::is_none"' : 'default');
+      if (attributes.length > 0) lines.push(`#[serde(${attributes.join(', ')})]`);
+      lines.push(`pub ${field.name}: ${isOption ? `Option<${base}>` : base},`);
+    });
+    // #[serde(default)] on a struct-typed field needs that struct to implement Default
+    const derive = `#[derive(Debug, Clone, ${optionalAsDefault ? 'Default, ' : ''}Serialize, Deserialize)]`;
+    if (lines.length === 0) return `${derive}\npub struct ${name} {}`;
+    return [derive, `pub struct ${name} {`, ...indent(lines, '    '), '}'].join('\n');
+  });
+  if (aliasName) blocks.unshift(`pub type ${aliasName} = ${renderType(root, names, types, wrapItem)};`);
+  const imports = ['use serde::{Deserialize, Serialize};', ...(usesValue ? ['use serde_json::Value;'] : [])];
+  return [imports.join('\n'), ...blocks].join('\n\n') + '\n';
+};
+
+// --- Python ---------------------------------------------------------------
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+  'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+const generatePython = (value: any, options: ModelOptions): string => {
+  const { root, objects, names, aliasName } = prepare(value, options);
+  const isPydantic = options.settings.framework === 'pydantic';
+  const useOptional = options.settings.nullable === 'optional';
+  const typing = new Set<string>();
+  const nullable = (type: string) => {
+    if (!useOptional) return `${type} | None`;
+    typing.add('Optional');
+    return `Optional[${type}]`;
+  };
+  const types: TypeNames = {
+    string: 'str',
+    integer: 'int',
+    number: 'float',
+    boolean: 'bool',
+    get any() {
+      typing.add('Any');
+      return 'Any';
+    },
+    list: item => `list[${item}]`,
+    union: kinds => {
+      if (!useOptional) return kinds.join(' | ');
+      typing.add('Union');
+      return `Union[${kinds.join(', ')}]`;
+    },
+  };
+  const wrapItem = (type: string, item: Shape) => (item.nullable && type !== 'Any' ? nullable(type) : type);
+
+  // Classes are written before the classes that use them
+  const blocks = objects.slice().reverse().map(({ name, object }) => {
+    const fields = getFields(object, key => {
+      const fieldName = formatFieldName(key, options.naming, 'snake');
+      return PYTHON_KEYWORDS.has(fieldName) ? `${fieldName}_` : fieldName;
+    });
+    // Dataclass fields with a default must come after those without
+    const ordered = isPydantic ? fields : [...fields.filter(f => !f.optional), ...fields.filter(f => f.optional)];
+    const lines = ordered.map(field => {
+      const base = renderType(field.shape, names, types, wrapItem);
+      const type = (field.shape.nullable || field.optional) && base !== 'Any' ? nullable(base) : base;
+      const renamed = field.name !== field.key;
+      if (isPydantic && renamed) {
+        return `${field.name}: ${type} = Field(${field.optional ? 'None, ' : ''}alias=${JSON.stringify(field.key)})`;
+      }
+      const line = `${field.name}: ${type}${field.optional ? ' = None' : ''}`;
+      return renamed ? `${line}  # JSON key: ${JSON.stringify(field.key)}` : line;
+    });
+    const header = isPydantic ? [`class ${name}(BaseModel):`] : ['@dataclass', `class ${name}:`];
+    return [...header, ...indent(lines.length > 0 ? lines : ['pass'], '    ')].join('\n');
+  });
+  if (aliasName) blocks.push(`${aliasName} = ${renderType(root, names, types, wrapItem)}`);
+
+  const imports = ['from __future__ import annotations', ''];
+  if (!isPydantic) imports.push('from dataclasses import dataclass');
+  if (typing.size > 0) imports.push(`from typing import ${Array.from(typing).sort().join(', ')}`);
+  if (isPydantic) imports.push(`from pydantic import BaseModel${/= Field\(/.test(blocks.join('\n')) ? ', Field' : ''}`);
+  return [imports.join('\n'), ...blocks].join('\n\n\n') + '\n';
+};
+
+// --- Java -----------------------------------------------------------------
+
+const JAVA_KEYWORDS = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default',
+  'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements', 'import',
+  'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private', 'protected', 'public', 'return',
+  'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try',
+  'void', 'volatile', 'while', 'true', 'false', 'null', 'record', 'var', 'yield',
+]);
+
+const JAVA_PRIMITIVES: Record<string, string> = { Long: 'long', Double: 'double', Boolean: 'boolean' };
+
+const generateJava = (value: any, options: ModelOptions): string => {
+  const { root, objects, names, aliasName } = prepare(value, options);
+  const nullableStyle = options.settings.nullable;
+  const imports = new Set<string>();
+  const types: TypeNames = {
+    string: 'String',
+    integer: 'Long',
+    number: 'Double',
+    boolean: 'Boolean',
+    any: 'Object',
+    list: item => {
+      imports.add('java.util.List');
+      return `List<${item}>`;
+    },
+  };
+
+  const blocks = objects.map(({ name, object }) => {
+    const fields = getFields(object, key => {
+      const fieldName = formatFieldName(key, options.naming, 'camel');
+      return JAVA_KEYWORDS.has(fieldName) ? `${fieldName}_` : fieldName;
+    });
+    const components = fields.map(field => {
+      const base = renderType(field.shape, names, types, type => type);
+      const annotations: string[] = [];
+      if (field.name !== field.key) {
+        imports.add('com.fasterxml.jackson.annotation.JsonProperty');
+        annotations.push(`@JsonProperty(${JSON.stringify(field.key)})`);
+      }
+      let type = base;
+      if (!field.shape.nullable && !field.optional) {
+        type = JAVA_PRIMITIVES[base] ?? base;
+      } else if (nullableStyle === 'annotated') {
+        imports.add('org.jspecify.annotations.Nullable');
+        annotations.push('@Nullable');
+      } else if (nullableStyle === 'optional') {
+        imports.add('java.util.Optional');
+        type = `Optional<${base}>`;
+      }
+      return [...annotations, type, field.name].join(' ');
+    });
+    if (components.length === 0) return `public record ${name}() {}`;
+    return [`public record ${name}(`, components.map(c => `    ${c}`).join(',\n'), ') {}'].join('\n');
+  });
+  // Java has no type aliases
+  if (aliasName) blocks.unshift(`// ${aliasName}: ${renderType(root, names, types, type => type)}`);
+  const header = Array.from(imports).sort().map(name => `import ${name};`);
+  return [...(header.length > 0 ? [header.join('\n')] : []), ...blocks].join('\n\n') + '\n';
+};
+
+// --- C# -------------------------------------------------------------------
+
+const CSHARP_KEYWORDS = new Set([
+  'abstract', 'as', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'checked', 'class', 'const', 'continue',
+  'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event', 'explicit', 'extern', 'false', 'finally',
+  'fixed', 'float', 'for', 'foreach', 'goto', 'if', 'implicit', 'in', 'int', 'interface', 'internal', 'is', 'lock',
+  'long', 'namespace', 'new', 'null', 'object', 'operator', 'out', 'override', 'params', 'private', 'protected',
+  'public', 'readonly', 'ref', 'return', 'sbyte', 'sealed', 'short', 'sizeof', 'stackalloc', 'static', 'string',
+  'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'uint', 'ulong', 'unchecked', 'unsafe', 'ushort',
+  'using', 'virtual', 'void', 'volatile', 'while',
+]);
+
+const CSHARP_VALUE_TYPES = new Set(['long', 'double', 'bool']);
+
+const generateCSharp = (value: any, options: ModelOptions): string => {
+  const { root, objects, names, aliasName } = prepare(value, options);
+  // With nullable reference types enabled, reference types are annotated too
+  const annotateReferences = options.settings.nullable === 'annotated';
+  const markRequired = options.settings.optional === 'required';
+  const nullable = (type: string) => (CSHARP_VALUE_TYPES.has(type) || annotateReferences ? `${type}?` : type);
+  const types: TypeNames = { string: 'string', integer: 'long', number: 'double', boolean: 'bool', any: 'object', list: item => `List<${item}>` };
+  const wrapItem = (type: string, item: Shape) => (item.nullable ? nullable(type) : type);
+
+  const blocks = objects.map(({ name, object }) => {
+    const fields = getFields(object, key => {
+      const fieldName = formatFieldName(key, options.naming, 'pascal');
+      // A property cannot share its class's name
+      if (fieldName === name) return `${fieldName}Value`;
+      return CSHARP_KEYWORDS.has(fieldName) ? `@${fieldName}` : fieldName;
+    });
+    const members = fields.map(field => {
+      const base = renderType(field.shape, names, types, wrapItem);
+      const type = field.shape.nullable || field.optional ? nullable(base) : base;
+      const required = markRequired && !field.optional ? 'required ' : '';
+      const property = `public ${required}${type} ${field.name} { get; set; }`;
+      return field.name.replace(/^@/, '') !== field.key ? `[JsonPropertyName(${JSON.stringify(field.key)})]\n${property}` : property;
+    });
+    const body = members.length > 0 ? indent(members.join('\n\n').split('\n'), '    ') : [];
+    return [`public class ${name}`, '{', ...body, '}'].join('\n');
+  });
+  if (aliasName) blocks.unshift(`// ${aliasName}: ${renderType(root, names, types, wrapItem)}`);
+  const output = blocks.join('\n\n');
+  const usings = ['using System.Collections.Generic;', ...(output.includes('[JsonPropertyName(') ? ['using System.Text.Json.Serialization;'] : [])];
+  return [usings.join('\n'), output].join('\n\n') + '\n';
+};
+
+// --- Kotlin ---------------------------------------------------------------
+
+const KOTLIN_KEYWORDS = new Set([
+  'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if', 'in', 'interface', 'is', 'null',
+  'object', 'package', 'return', 'super', 'this', 'throw', 'true', 'try', 'typealias', 'typeof', 'val', 'var', 'when',
+  'while',
+]);
+
+const generateKotlin = (value: any, options: ModelOptions): string => {
+  const { root, objects, names, aliasName } = prepare(value, options);
+  const defaultToNull = options.settings.optional === 'default';
+  const imports = new Set(['kotlinx.serialization.Serializable']);
+  const types: TypeNames = {
+    string: 'String',
+    integer: 'Long',
+    number: 'Double',
+    boolean: 'Boolean',
+    get any() {
+      imports.add('kotlinx.serialization.json.JsonElement');
+      return 'JsonElement';
+    },
+    list: item => `List<${item}>`,
+  };
+  const wrapItem = (type: string, item: Shape) => (item.nullable ? `${type}?` : type);
+
+  const blocks = objects.map(({ name, object }) => {
+    const fields = getFields(object, key => {
+      const fieldName = formatFieldName(key, options.naming, 'camel');
+      return KOTLIN_KEYWORDS.has(fieldName) ? `\`${fieldName}\`` : fieldName;
+    });
+    // Data classes need at least one property
+    if (fields.length === 0) return `@Serializable\nclass ${name}`;
+    const params = fields.map(field => {
+      const base = renderType(field.shape, names, types, wrapItem);
+      const type = field.shape.nullable || field.optional ? `${base}?` : base;
+      let param = `val ${field.name}: ${type}${field.optional && defaultToNull ? ' = null' : ''},`;
+      if (field.name.replace(/`/g, '') !== field.key) {
+        imports.add('kotlinx.serialization.SerialName');
+        param = `@SerialName(${JSON.stringify(field.key)}) ${param}`;
+      }
+      return `    ${param}`;
+    });
+    return ['@Serializable', `data class ${name}(`, ...params, ')'].join('\n');
+  });
+  if (aliasName) blocks.unshift(`typealias ${aliasName} = ${renderType(root, names, types, wrapItem)}`);
+  const header = Array.from(imports).sort().map(name => `import ${name}`).join('\n');
+  return [header, ...blocks].join('\n\n') + '\n';
+};
+
+export const MODEL_LANGUAGES: ModelLanguage[] = [
+  {
+    id: 'typescript',
+    label: 'TypeScript',
+    editorLanguage: 'typescript',
+    extension: 'ts',
+    renamesFields: false,
+    settings: [
+      { id: 'style', label: 'Objects', choices: [{ id: 'interface', label: 'interface' }, { id: 'type', label: 'type' }] },
+    ],
+    generate: (value, options) => generateTypeScript(value, { style: options.settings.style as TypeScriptStyle, rootName: options.rootName }),
+  },
+  {
+    id: 'go',
+    label: 'Go',
+    editorLanguage: 'go',
+    extension: 'go',
+    renamesFields: true,
+    settings: [
+      { id: 'nullable', label: 'Nullable', choices: [{ id: 'pointer', label: 'Pointers' }, { id: 'value', label: 'Zero values' }] },
+      { id: 'optional', label: 'Optional', choices: [{ id: 'omitempty', label: 'omitempty' }, { id: 'always', label: 'Always written' }] },
+    ],
+    generate: generateGo,
+  },
+  {
+    id: 'rust',
+    label: 'Rust (serde)',
+    editorLanguage: 'rust',
+    extension: 'rs',
+    renamesFields: true,
+    settings: [
+      { id: 'optional', label: 'Optional', choices: [{ id: 'option', label: 'Option<T>' }, { id: 'default', label: '#[serde(default)]' }] },
+    ],
+    generate: generateRust,
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    editorLanguage: 'python',
+    extension: 'py',
+    renamesFields: true,
+    settings: [
+      { id: 'framework', label: 'Models', choices: [{ id: 'dataclass', label: 'dataclass' }, { id: 'pydantic', label: 'Pydantic' }] },
+      { id: 'nullable', label: 'Nullable', choices: [{ id: 'union', label: 'T | None' }, { id: 'optional', label: 'Optional[T]' }] },
+    ],
+    generate: generatePython,
+  },
+  {
+    id: 'java',
+    label: 'Java records',
+    editorLanguage: 'java',
+    extension: 'java',
+    renamesFields: true,
+    settings: [
+      {
+        id: 'nullable',
+        label: 'Nullable',
+        choices: [{ id: 'boxed', label: 'Boxed types' }, { id: 'annotated', label: '@Nullable' }, { id: 'optional', label: 'Optional<T>' }],
+      },
+    ],
+    generate: generateJava,
+  },
+  {
+    id: 'csharp',
+    label: 'C#',
+    editorLanguage: 'csharp',
+    extension: 'cs',
+    renamesFields: true,
+    settings: [
+      { id: 'nullable', label: 'Nullable', choices: [{ id: 'annotated', label: 'Reference types too (T?)' }, { id: 'values', label: 'Value types only' }] },
+      { id: 'optional', label: 'Present keys', choices: [{ id: 'required', label: 'required' }, { id: 'plain', label: 'Not marked' }] },
+    ],
+    generate: generateCSharp,
+  },
+  {
+    id: 'kotlin',
+    label: 'Kotlin',
+    editorLanguage: 'kotlin',
+    extension: 'kt',
+    renamesFields: true,
+    settings: [
+      { id: 'optional', label: 'Optional', choices: [{ id: 'default', label: '= null' }, { id: 'none', label: 'No default' }] },
+    ],
+    generate: generateKotlin,
+  },
+];
+
+export const getDefaultSettings = (language: ModelLanguage): Record<string, string> => {
+  return Object.fromEntries(language.settings.map(setting => [setting.id, setting.choices[0].id]));
+};
@@ -0,0 +1,117 @@
+import { Diagnostic } from '../types';
+import { ParseOptions } from './parser';
+import { parseLossless, formatLossless, minifyLossless } from './lossless';
+import { parseJsonText, toStrictJson, minifyRelaxed } from './relaxed';
+import { getSyntaxDiagnostics, describeDiagnostic } from './syntax';
+
+/**
+ * NDJSON / JSON Lines: one JSON value per line. Each line is parsed on its
+ * own, so a broken line is reported by its line number and the rest of the
+ * records stay usable. Blank lines are ignored.
+ */
+
+export const NDJSON_EXTENSIONS = ['.jsonl', '.ndjson'];
+
+interface RecordLine {
+  lineNumber: number;
+  text: string;
+  // Position in `records`
+  recordIndex: number;
+}
+
+export interface NdjsonDocument {
+  records: any[];
+  // Source lines of the records, in the same order
+  lines: RecordLine[];
+  syntaxDiagnostics: Diagnostic[];
+}
+
+const splitLines = (text: string): string[] => text.split('\n').map(line => (line.endsWith('\r') ? line.slice(0, -1) : line));
+
+// Moves diagnostics of a single line to its place in the document
+const moveToLine = (diagnostics: Diagnostic[], lineNumber: number, recordIndex?: number): Diagnostic[] => {
+  return diagnostics.map(diagnostic => ({
+    ...diagnostic,
+    path: diagnostic.path && recordIndex !== undefined ? diagnostic.path.replace(/^\$/, `$[${recordIndex}]`) : diagnostic.path,
+    startLineNumber: diagnostic.startLineNumber + lineNumber - 1,
+    endLineNumber: diagnostic.endLineNumber + lineNumber - 1,
+  }));
+};
+
+export const parseNdjson = (text: string, options: ParseOptions = {}): NdjsonDocument => {
+  const doc: NdjsonDocument = { records: [], lines: [], syntaxDiagnostics: [] };
+  splitLines(text).forEach((line, i) => {
+    if (!line.trim()) return;
+    const lineNumber = i + 1;
+    try {
+      doc.records.push(parseLossless(line, options));
+      doc.lines.push({ lineNumber, text: line, recordIndex: doc.records.length - 1 });
+    } catch (e) {
+      doc.syntaxDiagnostics.push(...moveToLine(getSyntaxDiagnostics(line, options), lineNumber));
+    }
+  });
+  return doc;
+};
+
+// Plain values of the valid records, for features that work on parsed data (mock templates, schema samples)
+export const parseRecords = (text: string, relaxed: boolean): any[] => {
+  return splitLines(text).flatMap(line => {
+    if (!line.trim()) return [];
+    try {
+      return [parseJsonText(line, relaxed)];
+    } catch (e) {
+      return [];
+    }
+  });
+};
+
+/**
+ * Runs a per-document check (schema, precision...) on every record and maps
+ * the results back to document lines, with paths like $[3].level.
+ */
+export const getRecordDiagnostics = (doc: NdjsonDocument, check: (line: string) => Diagnostic[]): Diagnostic[] => {
+  return doc.lines.flatMap(line => moveToLine(check(line.text), line.lineNumber, line.recordIndex));
+};
+
+const assertValid = (doc: NdjsonDocument) => {
+  const [first] = doc.syntaxDiagnostics;
+  if (first) throw new Error(describeDiagnostic(first));
+};
+
+// Rewrites every record on a single line, which is the only layout NDJSON allows
+export const normalizeNdjson = (text: string, relaxed: boolean = false): string => {
+  const doc = parseNdjson(text, { relaxed });
+  assertValid(doc);
+  return doc.lines.map(line => (relaxed ? minifyRelaxed(line.text) : minifyLossless(line.text))).join('\n') + '\n';
+};
+
+// Turns the records into a single JSON array, keeping number literals as written
+export const ndjsonToJsonArray = (text: string, indentation: number | string, relaxed: boolean = false): string => {
+  const doc = parseNdjson(text, { relaxed });
+  assertValid(doc);
+  const array = `[${doc.lines.map(line => line.text).join(',\n')}]`;
+  return relaxed ? toStrictJson(array, indentation) : formatLossless(array, indentation);
+};
+
+/**
+ * True for text that is not a single JSON document but whose first lines are
+ * separate objects or arrays, e.g. a log file saved with a .json extension.
+ */
+export const looksLikeNdjson = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return false;
+  } catch (e) {
+    // Keep checking
+  }
+  const lines = splitLines(text).filter(line => line.trim()).slice(0, 5);
+  if (lines.length < 2) return false;
+  return lines.every(line => {
+    try {
+      const value = JSON.parse(line);
+      return value !== null && typeof value === 'object';
+    } catch (e) {
+      return false;
+    }
+  });
+};
@@ -0,0 +1,350 @@
+/**
+ * Position-aware JSON parser.
+ *
+ * JSON.parse only gives us values, but markers, problems and "jump to" features
+ * need to know where each key and value lives in the source text. This parser
+ * builds a small syntax tree with offsets that can be mapped back to Monaco
+ * line/column positions.
+ *
+ * With `relaxed` it also accepts JSON5 / JSONC: comments, trailing commas,
+ * single-quoted strings, unquoted keys, hex numbers, Infinity and NaN.
+ */
+
+export type JsonNodeType = 'object' | 'array' | 'property' | 'string' | 'number' | 'boolean' | 'null';
+
+export interface JsonNode {
+  type: JsonNodeType;
+  offset: number;
+  length: number;
+  value?: any;
+  parent?: JsonNode;
+  // object: property nodes, array: item nodes, property: [keyNode, valueNode]
+  children?: JsonNode[];
+}
+
+export interface TextRange {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+export type JsonPathSegment = string | number;
+
+export interface ParseOptions {
+  // Accept JSON5 / JSONC syntax
+  relaxed?: boolean;
+}
+
+export class JsonSyntaxError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+    this.offset = offset;
+  }
+}
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const RELAXED_NUMBER_PATTERN = /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const IDENTIFIER_PATTERN = /[\p{L}\p{Nl}$_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200C\u200D]*/uy;
+
+// JSON5 also treats these as whitespace
+const isRelaxedWhitespace = (ch: string) => isWhitespace(ch) || ch === '\v' || ch === '\f' || ch === '\u00A0' || ch === '\uFEFF' || ch === '\u2028' || ch === '\u2029';
+
+const isLineTerminator = (ch: string) => ch === '\n' || ch === '\r' || ch === '\u2028' || ch === '\u2029';
+
+const parseRelaxedNumber = (text: string): number => {
+  const sign = text[0] === '-' ? -1 : 1;
+  const unsigned = text[0] === '-' || text[0] === '+' ? text.slice(1) : text;
+  // Number() understands hex, Infinity and NaN, but not with a sign in front
+  return sign * Number(unsigned);
+};
+
+/**
+ * Parses JSON into a syntax tree. Throws JsonSyntaxError on invalid input.
+ */
+export const parseTree = (text: string, options: ParseOptions = {}): JsonNode => {
+  const relaxed = !!options.relaxed;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, pos);
+  };
+
+  const skipWhitespace = () => {
+    if (!relaxed) {
+      while (pos < text.length && isWhitespace(text[pos])) pos++;
+      return;
+    }
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (isRelaxedWhitespace(ch)) {
+        pos++;
+      } else if (ch === '/' && text[pos + 1] === '/') {
+        while (pos < text.length && !isLineTerminator(text[pos])) pos++;
+      } else if (ch === '/' && text[pos + 1] === '*') {
+        const end = text.indexOf('*/', pos + 2);
+        if (end === -1) fail('Unterminated comment');
+        pos = end + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const parseString = (parent?: JsonNode): JsonNode => {
+    const start = pos;
+    const quote = text[pos];
+    pos++; // opening quote
+    let result = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === quote) {
+        pos++;
+        return { type: 'string', offset: start, length: pos - start, value: result, parent };
+      }
+      if (ch === '\\') {
+        const next = text[pos + 1];
+        if (relaxed && !'"\\/bfnrtu'.includes(next)) {
+          // JSON5 extras: line continuations, \xFF, \v, \0, and any other character escaping itself
+          if (isLineTerminator(next)) {
+            pos += next === '\r' && text[pos + 2] === '\n' ? 3 : 2;
+            continue;
+          }
+          if (next === 'x') {
+            const hex = text.substr(pos + 2, 2);
+            if (!/^[0-9a-fA-F]{2}$/.test(hex)) fail('Invalid hex escape');
+            result += String.fromCharCode(parseInt(hex, 16));
+            pos += 4;
+            continue;
+          }
+          if (next === undefined || /[1-9]/.test(next) || (next === '0' && /[0-9]/.test(text[pos + 2] || ''))) fail('Invalid escape character');
+          result += next === 'v' ? '\v' : next === '0' ? '\0' : next;
+          pos += 2;
+          continue;
+        }
+        switch (next) {
+          case '"': result += '"'; break;
+          case '\\': result += '\\'; break;
+          case '/': result += '/'; break;
+          case 'b': result += '\b'; break;
+          case 'f': result += '\f'; break;
+          case 'n': result += '\n'; break;
+          case 'r': result += '\r'; break;
+          case 't': result += '\t'; break;
+          case 'u': {
+            const hex = text.substr(pos + 2, 4);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape');
+            result += String.fromCharCode(parseInt(hex, 16));
+            pos += 4;
+            break;
+          }
+          default:
+            fail('Invalid escape character');
+        }
+        pos += 2;
+        continue;
+      }
+      if (relaxed ? isLineTerminator(ch) : ch < ' ') fail(relaxed ? 'Unterminated string' : 'Control character in string');
+      // Copy runs of plain characters in one go
+      let end = pos + 1;
+      while (end < text.length && text[end] !== quote && text[end] !== '\\' && (relaxed ? !isLineTerminator(text[end]) : text[end] >= ' ')) end++;
+      result += text.slice(pos, end);
+      pos = end;
+    }
+    return fail('Unterminated string');
+  };
+
+  // Relaxed mode also allows single-quoted and unquoted (identifier) keys
+  const parseKey = (parent: JsonNode): JsonNode => {
+    const ch = text[pos];
+    if (ch === '"' || (relaxed && ch === "'")) return parseString(parent);
+    if (relaxed) {
+      IDENTIFIER_PATTERN.lastIndex = pos;
+      const match = IDENTIFIER_PATTERN.exec(text);
+      if (match) {
+        pos += match[0].length;
+        return { type: 'string', offset: match.index, length: match[0].length, value: match[0], parent };
+      }
+    }
+    return fail('Expected property name');
+  };
+
+  const parseValue = (parent?: JsonNode): JsonNode => {
+    skipWhitespace();
+    const start = pos;
+    const ch = text[pos];
+
+    if (ch === '{') {
+      const node: JsonNode = { type: 'object', offset: start, length: 0, children: [], parent };
+      pos++;
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+      } else {
+        while (true) {
+          skipWhitespace();
+          if (relaxed && text[pos] === '}') { pos++; break; } // trailing comma
+          const property: JsonNode = { type: 'property', offset: pos, length: 0, children: [], parent: node };
+          const keyNode = parseKey(property);
+          skipWhitespace();
+          if (text[pos] !== ':') fail("Expected ':' after property name");
+          pos++;
+          const valueNode = parseValue(property);
+          property.children = [keyNode, valueNode];
+          property.length = valueNode.offset + valueNode.length - property.offset;
+          node.children!.push(property);
+          skipWhitespace();
+          if (text[pos] === ',') { pos++; continue; }
+          if (text[pos] === '}') { pos++; break; }
+          fail("Expected ',' or '}'");
+        }
+      }
+      node.length = pos - start;
+      return node;
+    }
+
+    if (ch === '[') {
+      const node: JsonNode = { type: 'array', offset: start, length: 0, children: [], parent };
+      pos++;
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+      } else {
+        while (true) {
+          skipWhitespace();
+          if (relaxed && text[pos] === ']') { pos++; break; } // trailing comma
+          node.children!.push(parseValue(node));
+          skipWhitespace();
+          if (text[pos] === ',') { pos++; continue; }
+          if (text[pos] === ']') { pos++; break; }
+          fail("Expected ',' or ']'");
+        }
+      }
+      node.length = pos - start;
+      return node;
+    }
+
+    if (ch === '"' || (relaxed && ch === "'")) return parseString(parent);
+
+    if (text.startsWith('true', pos)) {
+      pos += 4;
+      return { type: 'boolean', offset: start, length: 4, value: true, parent };
+    }
+    if (text.startsWith('false', pos)) {
+      pos += 5;
+      return { type: 'boolean', offset: start, length: 5, value: false, parent };
+    }
+    if (text.startsWith('null', pos)) {
+      pos += 4;
+      return { type: 'null', offset: start, length: 4, value: null, parent };
+    }
+
+    const pattern = relaxed ? RELAXED_NUMBER_PATTERN : NUMBER_PATTERN;
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (match) {
+      pos += match[0].length;
+      const value = relaxed ? parseRelaxedNumber(match[0]) : Number(match[0]);
+      return { type: 'number', offset: start, length: match[0].length, value, parent };
+    }
+
+    return fail(pos >= text.length ? 'Unexpected end of input' : `Unexpected token '${ch}'`);
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail('Unexpected content after end of document');
+  return root;
+};
+
+/**
+ * Converts a syntax tree back into a plain JavaScript value.
+ */
+export const getNodeValue = (node: JsonNode): any => {
+  switch (node.type) {
+    case 'object': {
+      const obj: Record<string, any> = {};
+      node.children!.forEach(prop => {
+        // defineProperty keeps "__proto__" as an own key, like JSON.parse does
+        Object.defineProperty(obj, prop.children![0].value, {
+          value: getNodeValue(prop.children![1]),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      });
+      return obj;
+    }
+    case 'array':
+      return node.children!.map(getNodeValue);
+    default:
+      return node.value;
+  }
+};
+
+/**
+ * Finds the value node at the given path. Returns undefined if the path does not exist.
+ */
+export const findNodeAtPath = (root: JsonNode, path: JsonPathSegment[]): JsonNode | undefined => {
+  let node: JsonNode | undefined = root;
+  for (const segment of path) {
+    if (!node) return undefined;
+    if (node.type === 'object') {
+      // Last duplicate key wins, matching JSON.parse
+      const property: JsonNode | undefined = [...node.children!].reverse().find(p => p.children![0].value === String(segment));
+      node = property?.children![1];
+    } else if (node.type === 'array') {
+      node = node.children![Number(segment)];
+    } else {
+      return undefined;
+    }
+  }
+  return node;
+};
+
+/**
+ * Returns the key node for a value that sits inside an object, if any.
+ */
+export const getKeyNode = (node: JsonNode): JsonNode | undefined => {
+  if (node.parent?.type === 'property') return node.parent.children![0];
+  return undefined;
+};
+
+export type PositionMapper = (offset: number) => { lineNumber: number; column: number };
+
+/**
+ * Builds a line-start index once so many offsets can be mapped to
+ * line/column positions without rescanning the text.
+ */
+export const createPositionMapper = (text: string): PositionMapper => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { lineNumber: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+};
+
+export const offsetsToRange = (toPosition: PositionMapper, start: number, end: number): TextRange => {
+  const from = toPosition(start);
+  const to = toPosition(end);
+  return {
+    startLineNumber: from.lineNumber,
+    startColumn: from.column,
+    endLineNumber: to.lineNumber,
+    endColumn: to.column,
+  };
+};
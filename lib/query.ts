@@ -0,0 +1,118 @@
+import { JSONPath } from 'jsonpath-plus';
+import jmespath from 'jmespath';
+import { parseTree, JsonNode } from './parser';
+import { serializeTree, formatLossless, stringifyLossless, hasNumberFormatting, isLosslessNumber } from './lossless';
+
+export type QueryLanguage = 'jsonpath' | 'jmespath';
+
+// The document a query runs against
+export interface QueryDocument {
+  // Lossless parse of `texts`: the value, or the array of records for NDJSON
+  data: any;
+  // Source of `data`, one entry per record for NDJSON
+  texts: string[];
+  ndjson: boolean;
+  relaxed: boolean;
+}
+
+export interface QueryResult {
+  // Results as JSON with 2-space indentation
+  text: string;
+  // Number of matches for JSONPath, or items in the projection for JMESPath
+  count: number;
+}
+
+export const QUERY_LANGUAGES: { id: QueryLanguage; label: string; placeholder: string }[] = [
+  { id: 'jsonpath', label: 'JSONPath', placeholder: '$..trims[?(@.engine.horsepower > 250)]' },
+  { id: 'jmespath', label: 'JMESPath', placeholder: 'manufacturers[].brands[].models[].trims[] | [?engine.horsepower > `250`]' },
+];
+
+const RESULT_INDENTATION = 2;
+
+// JSONPath-plus requires the leading '$'; be forgiving about it
+const normalizeJsonPath = (expression: string) => {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith('$')) return trimmed;
+  if (trimmed.startsWith('.') || trimmed.startsWith('[')) return `$${trimmed}`;
+  return `$.${trimmed}`;
+};
+
+// "/a~1b/0" -> ["a/b", "0"]
+const parsePointer = (pointer: string): string[] => {
+  if (!pointer) return [];
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const findNode = (root: JsonNode, segments: string[]): JsonNode | null => {
+  let node: JsonNode | undefined = root;
+  for (const segment of segments) {
+    if (node.type === 'array') {
+      node = node.children![Number(segment)];
+    } else if (node.type === 'object') {
+      // The last duplicate key wins, as in JSON.parse
+      const property: JsonNode | undefined = node.children!.filter(prop => prop.children![0].value === segment).pop();
+      node = property?.children![1];
+    } else {
+      return null;
+    }
+    if (!node) return null;
+  }
+  return node;
+};
+
+// Whether the match came from `node`; property names (~) and other computed matches did not
+const isNodeOf = (node: JsonNode, value: any): boolean => {
+  switch (node.type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' || isLosslessNumber(value);
+    case 'null':
+      return value === null;
+    default:
+      return node.value === value;
+  }
+};
+
+/**
+ * Writes JSONPath matches by copying them from the source text, so literals
+ * like 1.10 or 1e3 come out as written. Parsing the source is skipped when
+ * the document has no such literals.
+ */
+const writeMatches = (doc: QueryDocument, matches: { value: any; pointer: string }[]): string => {
+  if (!doc.texts.some(hasNumberFormatting)) return stringifyLossless(matches.map(match => match.value), RESULT_INDENTATION);
+  const trees = new Map<number, JsonNode>();
+  const getTree = (i: number) => {
+    if (!trees.has(i)) trees.set(i, parseTree(doc.texts[i], { relaxed: doc.relaxed }));
+    return trees.get(i)!;
+  };
+  const copy = (i: number, segments: string[], value: any): string => {
+    const node = findNode(getTree(i), segments);
+    return node && isNodeOf(node, value) ? serializeTree(doc.texts[i], node, '', doc.relaxed) : stringifyLossless(value, '');
+  };
+  const items = matches.map(({ value, pointer }) => {
+    const segments = parsePointer(pointer);
+    if (!doc.ndjson) return copy(0, segments, value);
+    if (segments.length === 0) return `[${doc.texts.map((_, i) => copy(i, [], doc.data[i])).join(',')}]`;
+    return copy(Number(segments[0]), segments.slice(1), value);
+  });
+  return formatLossless(`[${items.join(',')}]`, RESULT_INDENTATION);
+};
+
+/**
+ * Evaluates a JSONPath or JMESPath expression against a parsed document and
+ * writes the results without losing digits. Throws an Error with a readable
+ * message if the expression is invalid.
+ */
+export const runQuery = (doc: QueryDocument, expression: string, language: QueryLanguage): QueryResult => {
+  if (language === 'jsonpath') {
+    const matches = JSONPath({ path: normalizeJsonPath(expression), json: doc.data, wrap: true, eval: 'safe', resultType: 'all' }) as { value: any; pointer: string }[];
+    return { text: writeMatches(doc, matches), count: matches.length };
+  }
+
+  // JMESPath builds new values, so they are written from the parsed data (big numbers keep their digits)
+  const value = jmespath.search(doc.data, expression.trim());
+  return { text: stringifyLossless(value, RESULT_INDENTATION), count: Array.isArray(value) ? value.length : value === null ? 0 : 1 };
+};
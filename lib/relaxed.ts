@@ -0,0 +1,195 @@
+import { parseTree, getNodeValue, createPositionMapper, JsonSyntaxError } from './parser';
+import { serializeTree } from './lossless';
+
+/**
+ * Helpers for relaxed (JSON5 / JSONC) documents: parsing with readable errors,
+ * a comment-preserving formatter and conversion to strict JSON.
+ */
+
+type TokenType = 'punctuation' | 'string' | 'literal' | 'lineComment' | 'blockComment';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  // Whether a line break separates this token from the previous one in the source
+  newlineBefore: boolean;
+}
+
+const isLineTerminator = (ch: string) => ch === '\n' || ch === '\r' || ch === '\u2028' || ch === '\u2029';
+const isSpace = (ch: string) => /\s/.test(ch) || ch === '\uFEFF';
+
+/**
+ * Splits a document into tokens. It assumes the text has already been
+ * validated by the parser, so it does not report errors of its own.
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let newlineBefore = false;
+
+  const push = (type: TokenType, end: number) => {
+    tokens.push({ type, text: text.slice(pos, end), newlineBefore });
+    newlineBefore = false;
+    pos = end;
+  };
+
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (isSpace(ch)) {
+      if (isLineTerminator(ch)) newlineBefore = true;
+      pos++;
+    } else if (ch === '/' && text[pos + 1] === '/') {
+      let end = pos + 2;
+      while (end < text.length && !isLineTerminator(text[end])) end++;
+      push('lineComment', end);
+    } else if (ch === '/' && text[pos + 1] === '*') {
+      const close = text.indexOf('*/', pos + 2);
+      push('blockComment', close === -1 ? text.length : close + 2);
+    } else if ('{}[]:,'.includes(ch)) {
+      push('punctuation', pos + 1);
+    } else if (ch === '"' || ch === "'") {
+      let end = pos + 1;
+      while (end < text.length && text[end] !== ch) end += text[end] === '\\' ? 2 : 1;
+      push('string', Math.min(end + 1, text.length));
+    } else {
+      // Numbers, keywords and unquoted keys
+      let end = pos + 1;
+      while (end < text.length && !isSpace(text[end]) && !'{}[]:,"\'/'.includes(text[end])) end++;
+      push('literal', end);
+    }
+  }
+  return tokens;
+};
+
+const isComment = (token?: Token) => token?.type === 'lineComment' || token?.type === 'blockComment';
+
+// Index of the next token that is not a comment
+const nextSignificant = (tokens: Token[], from: number) => {
+  let i = from;
+  while (i < tokens.length && isComment(tokens[i])) i++;
+  return i;
+};
+
+const toSyntaxError = (text: string, e: unknown): Error => {
+  if (!(e instanceof JsonSyntaxError)) return e as Error;
+  const { lineNumber, column } = createPositionMapper(text)(e.offset);
+  return new Error(`${e.message} at line ${lineNumber} column ${column}`);
+};
+
+/**
+ * Parses a document, using JSON.parse for strict JSON and our own parser for
+ * relaxed mode. Throws an Error with a readable message on invalid input.
+ */
+export const parseJsonText = (text: string, relaxed: boolean): any => {
+  if (!relaxed) return JSON.parse(text);
+  try {
+    return getNodeValue(parseTree(text, { relaxed: true }));
+  } catch (e) {
+    throw toSyntaxError(text, e);
+  }
+};
+
+// True for text that only parses with relaxed mode on, e.g. a config file with comments
+export const isRelaxedOnly = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return false;
+  } catch (e) {
+    try {
+      parseTree(text, { relaxed: true });
+      return true;
+    } catch (relaxedError) {
+      return false;
+    }
+  }
+};
+
+/**
+ * Converts a relaxed document to strict JSON, dropping comments. Number
+ * literals that are already valid JSON are copied as written, so big IDs
+ * survive; NaN and Infinity have no JSON equivalent and become null.
+ */
+export const toStrictJson = (text: string, indentation: number | string): string => {
+  let root;
+  try {
+    root = parseTree(text, { relaxed: true });
+  } catch (e) {
+    throw toSyntaxError(text, e);
+  }
+  return serializeTree(text, root, indentation, true);
+};
+
+/**
+ * Pretty-prints a relaxed document and keeps its comments. Quoting style and
+ * number formats are kept as written; trailing commas are dropped.
+ */
+export const formatRelaxed = (text: string, indentation: number | string): string => {
+  parseJsonText(text, true); // throws on invalid input
+  const unit = typeof indentation === 'number' ? ' '.repeat(indentation) : indentation;
+  const tokens = tokenize(text);
+  let out = '';
+  let depth = 0;
+  // Set after '{', '[', ',' and line comments: the next token starts a new line
+  let pendingNewline = false;
+
+  const newline = () => {
+    if (out) out += '\n' + unit.repeat(depth);
+    pendingNewline = false;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const { text: value } = token;
+
+    if (isComment(token)) {
+      if (token.newlineBefore || !out) {
+        newline();
+        out += value;
+      } else {
+        // Trailing comment stays on the line it annotates
+        out += (out.endsWith(' ') ? '' : ' ') + value;
+      }
+      if (token.type === 'lineComment' || token.newlineBefore) pendingNewline = true;
+      continue;
+    }
+
+    if (value === '{' || value === '[') {
+      if (pendingNewline) newline();
+      const close = value === '{' ? '}' : ']';
+      // Keep empty containers on one line unless they hold comments
+      if (tokens[i + 1]?.text === close) {
+        out += value + close;
+        i++;
+        continue;
+      }
+      out += value;
+      depth++;
+      pendingNewline = true;
+    } else if (value === '}' || value === ']') {
+      depth--;
+      newline();
+      out += value;
+    } else if (value === ',') {
+      const next = tokens[nextSignificant(tokens, i + 1)];
+      // Drop trailing commas
+      if (next?.text !== '}' && next?.text !== ']') out += ',';
+      pendingNewline = true;
+    } else if (value === ':') {
+      out += ': ';
+    } else {
+      if (pendingNewline) newline();
+      out += value;
+    }
+  }
+  return out;
+};
+
+// Compacts a relaxed document onto one line. Comments cannot survive this and are removed.
+export const minifyRelaxed = (text: string): string => {
+  parseJsonText(text, true); // throws on invalid input
+  const tokens = tokenize(text).filter(t => !isComment(t));
+  return tokens
+    .filter((token, i) => !(token.text === ',' && (tokens[i + 1]?.text === '}' || tokens[i + 1]?.text === ']')))
+    .map(token => token.text)
+    .join('');
+};
@@ -0,0 +1,364 @@
+import { createPositionMapper } from './parser';
+
+/**
+ * Deterministic, offline JSON repair.
+ *
+ * Walks the broken text once, copying it through to the output and fixing
+ * the usual suspects on the way: comments, trailing or missing commas,
+ * single-quoted or unquoted keys, Python literals, unbalanced brackets and
+ * documents that were cut off. Whitespace is copied as-is so the result
+ * diffs cleanly against the original.
+ */
+
+export interface RepairFix {
+  message: string;
+  // 1-based line in the original text
+  lineNumber: number;
+}
+
+export interface RepairResult {
+  text: string;
+  fixes: RepairFix[];
+  // Whether the repaired text is valid JSON
+  isValid: boolean;
+  // JSON.parse error of the repaired text, if it is still invalid
+  error: string | null;
+}
+
+// Bare words that have a JSON meaning, including Python's and JavaScript's spellings
+const KEYWORDS: Record<string, string> = {
+  true: 'true',
+  false: 'false',
+  null: 'null',
+  True: 'true',
+  False: 'false',
+  None: 'null',
+  undefined: 'null',
+  NaN: 'null',
+  Infinity: 'null',
+};
+
+const OPENING_QUOTES = new Set(['"', "'", '\u201C', '\u2018']);
+const CLOSING_QUOTE: Record<string, string> = { '"': '"', "'": "'", '\u201C': '\u201D', '\u2018': '\u2019' };
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\u00A0' || ch === '\uFEFF';
+
+// Characters that end a bare word (unquoted key or value)
+const isDelimiter = (ch: string) => isWhitespace(ch) || '{}[]:,"\'/'.includes(ch);
+
+const escapeControlCharacter = (ch: string) => {
+  switch (ch) {
+    case '\n': return '\\n';
+    case '\r': return '\\r';
+    case '\t': return '\\t';
+    case '\b': return '\\b';
+    case '\f': return '\\f';
+    default: return '\\u' + ch.charCodeAt(0).toString(16).padStart(4, '0');
+  }
+};
+
+// Removes a ```json ... ``` fence around the document, as pasted from chat tools
+const stripCodeFence = (text: string): string => {
+  const match = text.match(/^\s*```[\w-]*[ \t]*\r?\n([\s\S]*?)\r?\n?```\s*$/);
+  return match ? match[1] : text;
+};
+
+export const repairJson = (input: string): RepairResult => {
+  const fixes: RepairFix[] = [];
+  const toPosition = createPositionMapper(input);
+
+  const unfenced = stripCodeFence(input);
+  // Offsets below are relative to the unfenced text; shift them back for line numbers
+  const fenceOffset = unfenced === input ? 0 : input.indexOf(unfenced);
+  const text = unfenced;
+  if (unfenced !== input) fixes.push({ message: 'Removed markdown code fence', lineNumber: 1 });
+
+  let pos = 0;
+  let out = '';
+
+  const fix = (message: string, at: number = pos) => {
+    fixes.push({ message, lineNumber: toPosition(Math.min(at, text.length) + fenceOffset).lineNumber });
+  };
+
+  // Whitespace is returned rather than written, so callers can put an inserted comma before it
+  const readWhitespace = (): string => {
+    let gap = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (isWhitespace(ch)) {
+        gap += ch;
+        pos++;
+      } else if (ch === '/' && text[pos + 1] === '/') {
+        fix('Removed comment');
+        while (pos < text.length && text[pos] !== '\n') pos++;
+      } else if (ch === '/' && text[pos + 1] === '*') {
+        fix('Removed comment');
+        const end = text.indexOf('*/', pos + 2);
+        pos = end === -1 ? text.length : end + 2;
+      } else {
+        break;
+      }
+    }
+    return gap;
+  };
+
+  const parseString = () => {
+    const open = text[pos];
+    const close = CLOSING_QUOTE[open];
+    if (open !== '"') fix(open === "'" ? 'Replaced single quotes with double quotes' : 'Replaced typographic quotes');
+    pos++;
+    out += '"';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === close) {
+        pos++;
+        out += '"';
+        return;
+      }
+      if (ch === '\\') {
+        const next = text[pos + 1];
+        if (next === undefined) {
+          pos++;
+          break;
+        }
+        if ('"\\/bfnrt'.includes(next)) {
+          out += ch + next;
+        } else if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.substr(pos + 2, 4))) {
+          out += text.substr(pos, 6);
+          pos += 4;
+        } else if (next === "'") {
+          out += "'";
+        } else {
+          fix('Escaped a stray backslash');
+          out += '\\\\' + (next < ' ' ? escapeControlCharacter(next) : next === '"' ? '\\"' : next);
+        }
+        pos += 2;
+        continue;
+      }
+      if (ch === '"') {
+        // Only reachable inside single- or typographic-quoted strings
+        out += '\\"';
+      } else if (ch < ' ') {
+        fix('Escaped a control character in a string');
+        out += escapeControlCharacter(ch);
+      } else {
+        out += ch;
+      }
+      pos++;
+    }
+    fix('Closed an unterminated string');
+    out += '"';
+  };
+
+  const readBareWord = (): string => {
+    const start = pos;
+    while (pos < text.length && !isDelimiter(text[pos])) pos++;
+    return text.slice(start, pos);
+  };
+
+  // Numbers are normalised (leading '+', '.5', '5.', leading zeros, hex) or quoted when hopeless
+  const parseNumberOrWord = () => {
+    const start = pos;
+    const word = readBareWord();
+    if (Object.prototype.hasOwnProperty.call(KEYWORDS, word)) {
+      if (KEYWORDS[word] !== word) fix(`Replaced ${word} with ${KEYWORDS[word]}`, start);
+      out += KEYWORDS[word];
+      return;
+    }
+    // A keyword cut off at the end of the document, e.g. "tru"
+    if (pos >= text.length) {
+      const completed = ['true', 'false', 'null'].find(keyword => keyword.startsWith(word));
+      if (completed) {
+        fix(`Completed truncated ${completed}`, start);
+        out += completed;
+        return;
+      }
+    }
+    if (/^[-+]?(?:\d|\.\d)/.test(word) || /^[-+]?0[xX][0-9a-fA-F]+$/.test(word)) {
+      let number = word;
+      const sign = number.startsWith('-') ? '-' : '';
+      number = number.replace(/^[-+]/, '');
+      if (/^0[xX]/.test(number)) {
+        number = String(parseInt(number, 16));
+      } else {
+        number = number.replace(/^0+(?=\d)/, '').replace(/^\./, '0.').replace(/\.(?=[eE]|$)/, '').replace(/[eE][-+]?$/, '');
+      }
+      const normalized = sign + number;
+      if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(normalized)) {
+        if (normalized !== word) fix(`Normalised number ${word}`, start);
+        out += normalized;
+        return;
+      }
+    }
+    if (word === '' || word === '-') {
+      fix('Inserted missing value', start);
+      out += 'null';
+      if (word === '-') return;
+      // Skip the character we could not make sense of
+      pos++;
+      return;
+    }
+    fix(`Quoted bare word ${word}`, start);
+    out += JSON.stringify(word);
+  };
+
+  const parseKey = () => {
+    if (OPENING_QUOTES.has(text[pos])) {
+      parseString();
+      return;
+    }
+    const start = pos;
+    const word = readBareWord();
+    if (!word) {
+      // Unexpected character where a key belongs; drop it
+      fix(`Removed unexpected '${text[pos]}'`);
+      pos++;
+      out += '""';
+      return;
+    }
+    fix('Quoted an unquoted key', start);
+    out += JSON.stringify(word);
+  };
+
+  // After a value: copies the separator, or fixes missing / trailing commas.
+  // Returns false when the container is finished.
+  const readSeparator = (close: string): boolean => {
+    const gap = readWhitespace();
+    const ch = text[pos];
+    if (ch === ',') {
+      const commaAt = pos;
+      pos++;
+      let after = readWhitespace();
+      while (text[pos] === ',') {
+        fix('Removed extra comma');
+        pos++;
+        after += readWhitespace();
+      }
+      const next = text[pos];
+      if (next === undefined || next === '}' || next === ']') {
+        fix('Removed trailing comma', commaAt);
+        out += gap + after;
+        return false;
+      }
+      out += gap + ',' + after;
+      return true;
+    }
+    if (ch === undefined || ch === close || ch === '}' || ch === ']') {
+      out += gap;
+      return false;
+    }
+    fix('Inserted missing comma');
+    out += ',' + gap;
+    return true;
+  };
+
+  // Closes a container: the expected bracket, a mismatched one, or a missing one at the end
+  const closeContainer = (close: string) => {
+    const ch = text[pos];
+    if (ch === close) {
+      pos++;
+    } else if (ch === undefined) {
+      fix(`Added missing '${close}'`);
+    } else {
+      fix(`Replaced mismatched '${ch}' with '${close}'`);
+      pos++;
+    }
+    out += close;
+  };
+
+  const parseObject = () => {
+    pos++;
+    out += '{';
+    out += readWhitespace();
+    if (text[pos] === ',') {
+      fix('Removed leading comma');
+      pos++;
+      out += readWhitespace();
+    }
+    if (text[pos] === '}' || text[pos] === ']' || pos >= text.length) {
+      closeContainer('}');
+      return;
+    }
+    while (true) {
+      parseKey();
+      const gap = readWhitespace();
+      if (text[pos] === ':') {
+        pos++;
+        out += gap + ':';
+      } else if (text[pos] === '=') {
+        fix("Replaced '=' with ':'");
+        pos++;
+        out += gap + ':';
+      } else {
+        fix('Inserted missing colon');
+        out += ':' + gap;
+      }
+      const beforeValue = readWhitespace();
+      const next = text[pos];
+      out += beforeValue;
+      if (next === undefined || next === ',' || next === '}' || next === ']') {
+        fix(next === undefined ? 'Added a value for a truncated property' : 'Inserted missing value');
+        out += 'null';
+      } else {
+        parseValue();
+      }
+      if (!readSeparator('}')) break;
+    }
+    closeContainer('}');
+  };
+
+  const parseArray = () => {
+    pos++;
+    out += '[';
+    out += readWhitespace();
+    if (text[pos] === ',') {
+      fix('Removed leading comma');
+      pos++;
+      out += readWhitespace();
+    }
+    if (text[pos] === ']' || text[pos] === '}' || pos >= text.length) {
+      closeContainer(']');
+      return;
+    }
+    while (true) {
+      parseValue();
+      if (!readSeparator(']')) break;
+    }
+    closeContainer(']');
+  };
+
+  const parseValue = () => {
+    out += readWhitespace();
+    const ch = text[pos];
+    if (ch === '{') parseObject();
+    else if (ch === '[') parseArray();
+    else if (OPENING_QUOTES.has(ch)) parseString();
+    else if (ch === undefined) {
+      fix('Inserted missing value');
+      out += 'null';
+    } else parseNumberOrWord();
+  };
+
+  if (text.trim()) {
+    parseValue();
+    out += readWhitespace();
+    // Stray closing brackets after the document
+    while (pos < text.length && (text[pos] === '}' || text[pos] === ']')) {
+      fix(`Removed unmatched '${text[pos]}'`);
+      pos++;
+      out += readWhitespace();
+    }
+    // Anything else is left alone; the result then stays invalid
+    out += text.slice(pos);
+  } else {
+    out = text;
+  }
+
+  let error: string | null = null;
+  try {
+    JSON.parse(out);
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  return { text: out, fixes, isValid: error === null, error };
+};
@@ -0,0 +1,391 @@
+import { Diagnostic } from '../types';
+import {
+  parseTree,
+  getNodeValue,
+  findNodeAtPath,
+  getKeyNode,
+  createPositionMapper,
+  offsetsToRange,
+  JsonNode,
+  JsonPathSegment,
+  ParseOptions,
+} from './parser';
+import { formatPath } from './utils';
+
+/**
+ * A small JSON Schema validator covering the keywords people actually use in
+ * API contracts (draft-07 and 2020-12). It runs entirely in the browser and
+ * reports every violation with the path of the offending value.
+ */
+
+export interface SchemaViolation {
+  path: JsonPathSegment[];
+  message: string;
+  keyword: string;
+  // 'key' marks the property name itself (e.g. a disallowed additional property)
+  target: 'key' | 'value';
+}
+
+type Schema = Record<string, any> | boolean;
+
+export const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/,
+  time: /^\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  ipv4: /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/,
+  ipv6: /^(?:[0-9a-fA-F]{0,4}:){2,7}[0-9a-fA-F]{0,4}$/,
+  hostname: /^(?=.{1,253}$)[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,
+};
+
+const getJsonType = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value: any, type: string): boolean => {
+  if (type === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  return getJsonType(value) === type;
+};
+
+const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(k => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k]));
+};
+
+const describe = (value: any) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? text.substring(0, 40) + '...' : text;
+};
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) => `${count} ${count === 1 ? noun : nouns}`;
+
+const resolvePointer = (root: any, ref: string): Schema | undefined => {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+  let current = root;
+  for (const raw of ref.substring(2).split('/')) {
+    const segment = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (current === null || typeof current !== 'object' || !(segment in current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+};
+
+/**
+ * Validates a value against a schema and returns every violation found.
+ */
+export const validateSchema = (value: any, rootSchema: Schema): SchemaViolation[] => {
+  const violations: SchemaViolation[] = [];
+
+  const validate = (
+    data: any,
+    schema: Schema,
+    path: JsonPathSegment[],
+    out: SchemaViolation[],
+    refDepth = 0
+  ): void => {
+    if (schema === true) return;
+    if (schema === false) {
+      out.push({ path, message: 'No value is allowed here', keyword: 'false', target: 'value' });
+      return;
+    }
+    if (typeof schema !== 'object' || schema === null) return;
+
+    const report = (keyword: string, message: string, target: 'key' | 'value' = 'value', at = path) => {
+      out.push({ path: at, message, keyword, target });
+    };
+
+    if (typeof schema.$ref === 'string') {
+      const target = resolvePointer(rootSchema, schema.$ref);
+      if (target === undefined) {
+        report('$ref', `Cannot resolve schema reference "${schema.$ref}"`);
+      } else if (refDepth < 32) {
+        validate(data, target, path, out, refDepth + 1);
+      }
+    }
+
+    // --- Generic keywords ---
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(t => matchesType(data, t))) {
+        report('type', `Expected ${types.join(' or ')} but got ${getJsonType(data)}`);
+        // Further checks would only repeat the same problem
+        return;
+      }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((e: any) => deepEqual(e, data))) {
+      report('enum', `Value must be one of: ${schema.enum.map(describe).join(', ')}`);
+    }
+
+    if ('const' in schema && !deepEqual(schema.const, data)) {
+      report('const', `Value must be ${describe(schema.const)}`);
+    }
+
+    // --- Combinators ---
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((sub: Schema) => validate(data, sub, path, out, refDepth));
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+      const passes = schema.anyOf.some((sub: Schema) => {
+        const scratch: SchemaViolation[] = [];
+        validate(data, sub, path, scratch, refDepth);
+        return scratch.length === 0;
+      });
+      if (!passes) report('anyOf', 'Value does not match any of the allowed schemas');
+    }
+
+    if (Array.isArray(schema.oneOf)) {
+      const matches = schema.oneOf.filter((sub: Schema) => {
+        const scratch: SchemaViolation[] = [];
+        validate(data, sub, path, scratch, refDepth);
+        return scratch.length === 0;
+      }).length;
+      if (matches === 0) report('oneOf', 'Value does not match any of the allowed schemas');
+      else if (matches > 1) report('oneOf', `Value matches ${matches} schemas but exactly one is allowed`);
+    }
+
+    if (schema.not !== undefined) {
+      const scratch: SchemaViolation[] = [];
+      validate(data, schema.not, path, scratch, refDepth);
+      if (scratch.length === 0) report('not', 'Value matches a schema it must not match');
+    }
+
+    if (schema.if !== undefined) {
+      const scratch: SchemaViolation[] = [];
+      validate(data, schema.if, path, scratch, refDepth);
+      const branch = scratch.length === 0 ? schema.then : schema.else;
+      if (branch !== undefined) validate(data, branch, path, out, refDepth);
+    }
+
+    const type = getJsonType(data);
+
+    // --- Numbers ---
+    if (type === 'number') {
+      if (typeof schema.minimum === 'number') {
+        const exclusive = schema.exclusiveMinimum === true;
+        if (exclusive ? data <= schema.minimum : data < schema.minimum) {
+          report('minimum', `Value must be ${exclusive ? 'greater than' : 'at least'} ${schema.minimum}`);
+        }
+      }
+      if (typeof schema.maximum === 'number') {
+        const exclusive = schema.exclusiveMaximum === true;
+        if (exclusive ? data >= schema.maximum : data > schema.maximum) {
+          report('maximum', `Value must be ${exclusive ? 'less than' : 'at most'} ${schema.maximum}`);
+        }
+      }
+      if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+        report('exclusiveMinimum', `Value must be greater than ${schema.exclusiveMinimum}`);
+      }
+      if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+        report('exclusiveMaximum', `Value must be less than ${schema.exclusiveMaximum}`);
+      }
+      if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+        const quotient = data / schema.multipleOf;
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          report('multipleOf', `Value must be a multiple of ${schema.multipleOf}`);
+        }
+      }
+    }
+
+    // --- Strings ---
+    if (type === 'string') {
+      const length = Array.from(data as string).length;
+      if (typeof schema.minLength === 'number' && length < schema.minLength) {
+        report('minLength', `String must be at least ${plural(schema.minLength, 'character')} long`);
+      }
+      if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+        report('maxLength', `String must be at most ${plural(schema.maxLength, 'character')} long`);
+      }
+      if (typeof schema.pattern === 'string') {
+        try {
+          if (!new RegExp(schema.pattern, 'u').test(data)) {
+            report('pattern', `String does not match pattern ${schema.pattern}`);
+          }
+        } catch (e) {
+          report('pattern', `Schema pattern ${schema.pattern} is not a valid regular expression`);
+        }
+      }
+      if (typeof schema.format === 'string') {
+        const pattern = FORMAT_PATTERNS[schema.format];
+        if (pattern && !pattern.test(data)) {
+          report('format', `String is not a valid ${schema.format}`);
+        }
+      }
+    }
+
+    // --- Arrays ---
+    if (type === 'array') {
+      const items = data as any[];
+      if (typeof schema.minItems === 'number' && items.length < schema.minItems) {
+        report('minItems', `Array must contain at least ${plural(schema.minItems, 'item')}`);
+      }
+      if (typeof schema.maxItems === 'number' && items.length > schema.maxItems) {
+        report('maxItems', `Array must contain at most ${plural(schema.maxItems, 'item')}`);
+      }
+      if (schema.uniqueItems === true) {
+        for (let i = 1; i < items.length; i++) {
+          const duplicateOf = items.slice(0, i).findIndex(prev => deepEqual(prev, items[i]));
+          if (duplicateOf !== -1) {
+            report('uniqueItems', `Item duplicates item [${duplicateOf}]`, 'value', [...path, i]);
+          }
+        }
+      }
+
+      // 2020-12 uses prefixItems + items; draft-07 uses items[] + additionalItems
+      const tuple: Schema[] | undefined = Array.isArray(schema.prefixItems)
+        ? schema.prefixItems
+        : Array.isArray(schema.items) ? schema.items : undefined;
+      const rest: Schema | undefined = Array.isArray(schema.prefixItems)
+        ? schema.items
+        : Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+
+      items.forEach((item, index) => {
+        if (tuple && index < tuple.length) {
+          validate(item, tuple[index], [...path, index], out, refDepth);
+        } else if (rest !== undefined) {
+          validate(item, rest, [...path, index], out, refDepth);
+        }
+      });
+
+      if (schema.contains !== undefined) {
+        const count = items.filter(item => {
+          const scratch: SchemaViolation[] = [];
+          validate(item, schema.contains, path, scratch, refDepth);
+          return scratch.length === 0;
+        }).length;
+        const min = typeof schema.minContains === 'number' ? schema.minContains : 1;
+        if (count < min) report('contains', `Array must contain at least ${min} matching item${min === 1 ? '' : 's'}`);
+        if (typeof schema.maxContains === 'number' && count > schema.maxContains) {
+          report('maxContains', `Array must contain at most ${schema.maxContains} matching items`);
+        }
+      }
+    }
+
+    // --- Objects ---
+    if (type === 'object') {
+      const keys = Object.keys(data);
+      if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+        report('minProperties', `Object must have at least ${plural(schema.minProperties, 'property', 'properties')}`);
+      }
+      if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+        report('maxProperties', `Object must have at most ${plural(schema.maxProperties, 'property', 'properties')}`);
+      }
+      if (Array.isArray(schema.required)) {
+        schema.required.forEach((key: string) => {
+          if (!Object.prototype.hasOwnProperty.call(data, key)) {
+            report('required', `Missing required property "${key}"`);
+          }
+        });
+      }
+      if (schema.dependentRequired && typeof schema.dependentRequired === 'object') {
+        Object.entries(schema.dependentRequired).forEach(([key, deps]) => {
+          if (!Object.prototype.hasOwnProperty.call(data, key) || !Array.isArray(deps)) return;
+          deps.forEach((dep: string) => {
+            if (!Object.prototype.hasOwnProperty.call(data, dep)) {
+              report('dependentRequired', `Property "${dep}" is required when "${key}" is present`);
+            }
+          });
+        });
+      }
+
+      const properties = schema.properties && typeof schema.properties === 'object' ? schema.properties : {};
+      const patterns = schema.patternProperties && typeof schema.patternProperties === 'object'
+        ? Object.entries(schema.patternProperties).map(([source, sub]) => {
+            try {
+              return { regex: new RegExp(source, 'u'), schema: sub as Schema };
+            } catch (e) {
+              return null;
+            }
+          }).filter(Boolean) as { regex: RegExp; schema: Schema }[]
+        : [];
+
+      keys.forEach(key => {
+        const childPath = [...path, key];
+        let matched = false;
+
+        if (Object.prototype.hasOwnProperty.call(properties, key)) {
+          matched = true;
+          validate(data[key], properties[key], childPath, out, refDepth);
+        }
+        patterns.forEach(p => {
+          if (p.regex.test(key)) {
+            matched = true;
+            validate(data[key], p.schema, childPath, out, refDepth);
+          }
+        });
+
+        if (schema.propertyNames !== undefined) {
+          const scratch: SchemaViolation[] = [];
+          validate(key, schema.propertyNames, childPath, scratch, refDepth);
+          if (scratch.length > 0) {
+            report('propertyNames', `Property name "${key}" is not allowed: ${scratch[0].message}`, 'key', childPath);
+          }
+        }
+
+        if (!matched && schema.additionalProperties !== undefined) {
+          if (schema.additionalProperties === false) {
+            report('additionalProperties', `Property "${key}" is not allowed`, 'key', childPath);
+          } else {
+            validate(data[key], schema.additionalProperties, childPath, out, refDepth);
+          }
+        }
+      });
+    }
+  };
+
+  validate(value, rootSchema, [], violations);
+  return violations;
+};
+
+/**
+ * Picks the text span a violation should be drawn on. Containers span many
+ * lines, so they are marked on their key (or opening bracket) instead.
+ */
+const getMarkerSpan = (node: JsonNode, target: 'key' | 'value'): [number, number] => {
+  const keyNode = getKeyNode(node);
+  if (target === 'key' && keyNode) return [keyNode.offset, keyNode.offset + keyNode.length];
+  if (node.type === 'object' || node.type === 'array') {
+    if (keyNode) return [keyNode.offset, keyNode.offset + keyNode.length];
+    return [node.offset, node.offset + 1];
+  }
+  return [node.offset, node.offset + node.length];
+};
+
+/**
+ * Validates document text against a schema and returns editor diagnostics.
+ * Returns an empty list if the text is not valid JSON (syntax errors are
+ * reported separately).
+ */
+export const getSchemaDiagnostics = (text: string, schema: Schema, options: ParseOptions = {}): Diagnostic[] => {
+  if (!text.trim()) return [];
+  let root: JsonNode;
+  try {
+    root = parseTree(text, options);
+  } catch (e) {
+    return [];
+  }
+
+  const toPosition = createPositionMapper(text);
+  return validateSchema(getNodeValue(root), schema).map(violation => {
+    const node = findNodeAtPath(root, violation.path) || root;
+    const [start, end] = getMarkerSpan(node, violation.target);
+    return {
+      source: 'schema',
+      severity: 'error',
+      message: violation.message,
+      path: formatPath(violation.path),
+      ...offsetsToRange(toPosition, start, end),
+    };
+  });
+};
@@ -0,0 +1,143 @@
+import { AttachedSchema } from '../types';
+
+export interface SchemaPreset extends AttachedSchema {
+  id: string;
+  description: string;
+}
+
+// Bundled schemas so validation works offline without hunting for a URL
+export const SCHEMA_PRESETS: SchemaPreset[] = [
+  {
+    id: 'vehicle-catalog',
+    name: 'Vehicle Catalog',
+    description: 'Matches the sample manufacturers document',
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      required: ['manufacturers'],
+      properties: {
+        manufacturers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'name', 'country', 'brands'],
+            properties: {
+              id: { type: 'string', pattern: '^[a-z0-9-]+$' },
+              name: { type: 'string', minLength: 1 },
+              country: { type: 'string' },
+              isActive: { type: 'boolean' },
+              foundedYear: { type: 'integer', minimum: 1800, maximum: 2100 },
+              website: { type: 'string', format: 'uri' },
+              rating: { type: 'number', minimum: 0, maximum: 5 },
+              lastUpdated: { type: 'string', format: 'date-time' },
+              brands: { type: 'array', items: { $ref: '#/$defs/brand' } },
+            },
+          },
+        },
+      },
+      $defs: {
+        brand: {
+          type: 'object',
+          required: ['id', 'name', 'models'],
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            isLuxury: { type: 'boolean' },
+            supportsEV: { type: 'boolean' },
+            models: { type: 'array', items: { $ref: '#/$defs/model' } },
+          },
+        },
+        model: {
+          type: 'object',
+          required: ['id', 'name', 'trims'],
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            segment: { enum: ['Sedan', 'SUV', 'Coupe', 'Hatchback', 'Wagon', 'Truck', 'Van'] },
+            isDiscontinued: { type: 'boolean' },
+            releaseYears: { type: 'array', items: { type: 'integer' }, uniqueItems: true },
+            availableMarkets: { type: 'array', items: { type: 'string', pattern: '^[A-Z]{2}$' } },
+            defaultCurrency: { type: 'string', pattern: '^[A-Z]{3}$' },
+            trims: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['id', 'name'],
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  engine: {
+                    type: 'object',
+                    properties: {
+                      horsepower: { type: 'integer', minimum: 0 },
+                      displacementL: { type: ['number', 'null'], minimum: 0 },
+                    },
+                  },
+                  drivetrain: { enum: ['FWD', 'RWD', 'AWD', '4WD'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    id: 'package-json',
+    name: 'package.json',
+    description: 'Common fields of an npm package manifest',
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      required: ['name', 'version'],
+      properties: {
+        name: { type: 'string', maxLength: 214, pattern: '^(?:@[a-z0-9-*~][a-z0-9-*._~]*/)?[a-z0-9-~][a-z0-9-._~]*$' },
+        version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+(?:[-+].*)?$' },
+        description: { type: 'string' },
+        private: { type: 'boolean' },
+        type: { enum: ['module', 'commonjs'] },
+        main: { type: 'string' },
+        license: { type: 'string' },
+        scripts: { type: 'object', additionalProperties: { type: 'string' } },
+        dependencies: { $ref: '#/$defs/dependencyMap' },
+        devDependencies: { $ref: '#/$defs/dependencyMap' },
+        peerDependencies: { $ref: '#/$defs/dependencyMap' },
+      },
+      $defs: {
+        dependencyMap: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+  },
+  {
+    id: 'geojson',
+    name: 'GeoJSON FeatureCollection',
+    description: 'RFC 7946 feature collections with point, line and polygon geometry',
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      required: ['type', 'features'],
+      properties: {
+        type: { const: 'FeatureCollection' },
+        features: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['type', 'geometry', 'properties'],
+            properties: {
+              type: { const: 'Feature' },
+              properties: { type: ['object', 'null'] },
+              geometry: {
+                type: ['object', 'null'],
+                required: ['type', 'coordinates'],
+                properties: {
+                  type: { enum: ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon'] },
+                  coordinates: { type: 'array' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+];
@@ -0,0 +1,135 @@
+import { Workspace, Snapshot } from '../types';
+import { AiSettings, DEFAULT_AI_SETTINGS } from './aiProviders';
+
+/**
+ * Thin promise wrapper around IndexedDB. localStorage is capped at a few MB,
+ * which is far too small for the documents people open in JSON Forge.
+ */
+
+const DB_NAME = 'json-forge';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspace';
+const WORKSPACE_KEY = 'current';
+const SNAPSHOT_STORE = 'snapshots';
+
+// Automatic snapshots are pruned per document; the ones taken before an action are kept longer
+const MAX_AUTO_SNAPSHOTS = 30;
+const MAX_SNAPSHOTS = 200;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+        db.createObjectStore(WORKSPACE_STORE);
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runRequest = <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }));
+};
+
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+  try {
+    const workspace = await runRequest<Workspace | undefined>(WORKSPACE_STORE, 'readonly', store => store.get(WORKSPACE_KEY));
+    if (!workspace || !Array.isArray(workspace.tabs) || workspace.tabs.length === 0) return null;
+    return workspace;
+  } catch (e) {
+    console.error('Failed to load workspace:', e);
+    return null;
+  }
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  try {
+    await runRequest(WORKSPACE_STORE, 'readwrite', store => store.put(workspace, WORKSPACE_KEY));
+  } catch (e) {
+    console.error('Failed to save workspace:', e);
+  }
+};
+
+// Newest first
+export const listSnapshots = async (): Promise<Snapshot[]> => {
+  try {
+    const snapshots = await runRequest<Snapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll());
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.error('Failed to load snapshots:', e);
+    return [];
+  }
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  try {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(id));
+  } catch (e) {
+    console.error('Failed to delete snapshot:', e);
+  }
+};
+
+/**
+ * Stores a snapshot and prunes the oldest ones so the history cannot grow
+ * without bound. Returns the snapshots that remain, newest first.
+ */
+export const addSnapshot = async (snapshot: Snapshot): Promise<Snapshot[]> => {
+  try {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.put(snapshot));
+  } catch (e) {
+    console.error('Failed to save snapshot:', e);
+    return listSnapshots();
+  }
+
+  const snapshots = await listSnapshots();
+  const autoForTab = snapshots.filter(s => s.tabId === snapshot.tabId && s.reason === 'auto');
+  const expired = new Set([
+    ...autoForTab.slice(MAX_AUTO_SNAPSHOTS),
+    ...snapshots.slice(MAX_SNAPSHOTS),
+  ].map(s => s.id));
+
+  await Promise.all(Array.from(expired).map(deleteSnapshot));
+  return snapshots.filter(s => !expired.has(s.id));
+};
+
+// AI settings are a few short strings and are read synchronously before each request, so they live in localStorage
+const AI_SETTINGS_KEY = 'json-forge:ai-settings';
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = localStorage.getItem(AI_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AI_SETTINGS;
+  } catch (e) {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings): void => {
+  try {
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save AI settings:', e);
+  }
+};
@@ -0,0 +1,223 @@
+import { getChildPath } from './utils';
+import { isLosslessNumber, isSameNumber, stringifyLossless } from './lossless';
+
+/**
+ * Structural (semantic) diff between two parsed JSON values.
+ *
+ * Unlike a text diff this ignores key order and whitespace, and can match
+ * array items by an identity key (e.g. "id") so a reordered array shows up as
+ * moves instead of a wall of changed lines.
+ */
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'moved';
+
+// 'contains' marks an unchanged container that has changes somewhere below it
+export type DiffMark = DiffKind | 'contains';
+
+export interface DiffNode {
+  name: string;
+  // Path in the new document ('after'); removed entries use their path in the old one
+  path: string;
+  kind?: DiffKind;
+  oldValue?: any;
+  newValue?: any;
+  // Array positions for moved items
+  fromIndex?: number;
+  toIndex?: number;
+  children: DiffNode[];
+}
+
+export interface StructuralDiff {
+  root: DiffNode;
+  counts: Record<DiffKind, number>;
+  // Marks keyed by path in the new document, used to color graph nodes
+  marks: Map<string, DiffMark>;
+}
+
+export interface StructuralDiffOptions {
+  // Property used to match array items of objects, e.g. 'id'. Empty matches by position.
+  arrayKey?: string;
+}
+
+const typeOf = (value: any) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (isLosslessNumber(value)) return 'number';
+  return typeof value;
+};
+
+const isContainer = (value: any) => typeof value === 'object' && value !== null && !isLosslessNumber(value);
+
+/**
+ * Identity used to match array items. Returns null when an item cannot be
+ * identified, which makes the whole array fall back to positional matching.
+ */
+const identify = (item: any, arrayKey: string): string | null => {
+  if (!isContainer(item)) return `v:${stringifyLossless(item, '')}`;
+  if (arrayKey && !Array.isArray(item) && Object.prototype.hasOwnProperty.call(item, arrayKey)) {
+    const id = item[arrayKey];
+    if (!isContainer(id)) return `k:${stringifyLossless(id, '')}`;
+  }
+  return null;
+};
+
+/**
+ * Longest common subsequence of two identity lists. Items on the LCS kept
+ * their relative order; matched items outside it were moved.
+ */
+const longestCommonSubsequence = (a: string[], b: string[]): Set<string> => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+  const result = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.add(a[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+};
+
+// The LCS table is quadratic; very long arrays fall back to positional matching
+const MAX_LCS_CELLS = 4_000_000;
+
+export const diffJson = (before: any, after: any, options: StructuralDiffOptions = {}): StructuralDiff => {
+  const arrayKey = options.arrayKey?.trim() || '';
+  const counts: Record<DiffKind, number> = { added: 0, removed: 0, changed: 0, moved: 0 };
+
+  const leaf = (name: string, path: string, kind: DiffKind, extra: Partial<DiffNode> = {}): DiffNode => {
+    counts[kind]++;
+    return { name, path, kind, children: [], ...extra };
+  };
+
+  const compareObjects = (a: Record<string, any>, b: Record<string, any>, oldPath: string, newPath: string): DiffNode[] => {
+    const children: DiffNode[] = [];
+    Object.keys(b).forEach(key => {
+      const childNewPath = getChildPath(newPath, key, 'object');
+      if (!Object.prototype.hasOwnProperty.call(a, key)) {
+        children.push(leaf(key, childNewPath, 'added', { newValue: b[key] }));
+        return;
+      }
+      const child = compare(key, a[key], b[key], getChildPath(oldPath, key, 'object'), childNewPath);
+      if (child) children.push(child);
+    });
+    Object.keys(a).forEach(key => {
+      if (!Object.prototype.hasOwnProperty.call(b, key)) {
+        children.push(leaf(key, getChildPath(oldPath, key, 'object'), 'removed', { oldValue: a[key] }));
+      }
+    });
+    return children;
+  };
+
+  const compareArraysByPosition = (a: any[], b: any[], oldPath: string, newPath: string): DiffNode[] => {
+    const children: DiffNode[] = [];
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const name = `[${i}]`;
+      if (i >= a.length) {
+        children.push(leaf(name, getChildPath(newPath, String(i), 'array'), 'added', { newValue: b[i] }));
+      } else if (i >= b.length) {
+        children.push(leaf(name, getChildPath(oldPath, String(i), 'array'), 'removed', { oldValue: a[i] }));
+      } else {
+        const child = compare(name, a[i], b[i], getChildPath(oldPath, String(i), 'array'), getChildPath(newPath, String(i), 'array'));
+        if (child) children.push(child);
+      }
+    }
+    return children;
+  };
+
+  const compareArrays = (a: any[], b: any[], oldPath: string, newPath: string): DiffNode[] => {
+    const idsA = a.map(item => identify(item, arrayKey));
+    const idsB = b.map(item => identify(item, arrayKey));
+    const identifiable = !idsA.includes(null) && !idsB.includes(null)
+      && new Set(idsA).size === idsA.length && new Set(idsB).size === idsB.length
+      && a.length * b.length <= MAX_LCS_CELLS;
+
+    if (!identifiable) return compareArraysByPosition(a, b, oldPath, newPath);
+
+    const keysA = idsA as string[];
+    const keysB = idsB as string[];
+    const indexInA = new Map(keysA.map((id, index) => [id, index]));
+    const idsInB = new Set(keysB);
+    const inOrder = longestCommonSubsequence(keysA.filter(id => idsInB.has(id)), keysB.filter(id => indexInA.has(id)));
+    const children: DiffNode[] = [];
+
+    keysB.forEach((id, toIndex) => {
+      const name = `[${toIndex}]`;
+      const childNewPath = getChildPath(newPath, String(toIndex), 'array');
+      const fromIndex = indexInA.get(id);
+      if (fromIndex === undefined) {
+        children.push(leaf(name, childNewPath, 'added', { newValue: b[toIndex] }));
+        return;
+      }
+      const child = compare(name, a[fromIndex], b[toIndex], getChildPath(oldPath, String(fromIndex), 'array'), childNewPath);
+      if (!inOrder.has(id)) {
+        // Keep any nested changes of the moved item as its children
+        counts.moved++;
+        children.push({ ...(child || { name, path: childNewPath, children: [] }), kind: 'moved', fromIndex, toIndex });
+      } else if (child) {
+        children.push(child);
+      }
+    });
+
+    keysA.forEach((id, fromIndex) => {
+      if (!idsInB.has(id)) {
+        children.push(leaf(`[${fromIndex}]`, getChildPath(oldPath, String(fromIndex), 'array'), 'removed', { oldValue: a[fromIndex], fromIndex }));
+      }
+    });
+    return children;
+  };
+
+  // Returns null when both values are structurally equal
+  const compare = (name: string, a: any, b: any, oldPath: string, newPath: string): DiffNode | null => {
+    const typeA = typeOf(a);
+    const typeB = typeOf(b);
+
+    if (typeA !== typeB || !isContainer(a)) {
+      if (typeA === typeB && (typeA === 'number' ? isSameNumber(a, b) : a === b)) return null;
+      return leaf(name, newPath, 'changed', { oldValue: a, newValue: b });
+    }
+
+    const children = typeA === 'array'
+      ? compareArrays(a, b, oldPath, newPath)
+      : compareObjects(a, b, oldPath, newPath);
+
+    return children.length > 0 ? { name, path: newPath, children } : null;
+  };
+
+  const root = compare('root', before, after, '$', '$') || { name: 'root', path: '$', children: [] };
+
+  // Flatten into marks for the graph overlay. Removed entries have no node in the
+  // new document, so they only mark their parent as containing changes.
+  const marks = new Map<string, DiffMark>();
+  const collect = (node: DiffNode): boolean => {
+    let hasChanges = false;
+    node.children.forEach(child => {
+      if (collect(child)) hasChanges = true;
+    });
+    if (node.kind && node.kind !== 'removed') {
+      marks.set(node.path, node.kind);
+    } else if (hasChanges && !marks.has(node.path)) {
+      marks.set(node.path, 'contains');
+    }
+    return !!node.kind || hasChanges;
+  };
+  collect(root);
+
+  return { root, counts, marks };
+};
@@ -0,0 +1,371 @@
+import { Diagnostic } from '../types';
+import { parseTree, createPositionMapper, offsetsToRange, ParseOptions } from './parser';
+
+/**
+ * Tolerant syntax checker.
+ *
+ * JSON.parse stops at the first problem and its message differs between
+ * browsers. This scanner keeps going after an error, so it can report every
+ * problem in the document with an exact position and a plain-English hint.
+ * It only validates; values come from the regular parser.
+ */
+
+export interface SyntaxProblem {
+  message: string;
+  hint: string;
+  offset: number;
+  length: number;
+}
+
+type TokenType = '{' | '}' | '[' | ']' | ':' | ',' | 'string' | 'number' | 'word' | 'invalid' | 'eof';
+
+interface Token {
+  type: TokenType;
+  offset: number;
+  length: number;
+  text: string;
+}
+
+// Stop collecting after this many problems; a badly broken file would otherwise flood the editor
+const MAX_PROBLEMS = 100;
+
+const STRICT_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const RELAXED_NUMBER = /^[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)$/;
+const IDENTIFIER = /^[\p{L}\p{Nl}$_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200C\u200D]*$/u;
+
+// Spellings from other languages that people paste by accident
+const FOREIGN_LITERALS: Record<string, string> = {
+  True: 'true',
+  False: 'false',
+  None: 'null',
+  TRUE: 'true',
+  FALSE: 'false',
+  NULL: 'null',
+  undefined: 'null',
+  nil: 'null',
+};
+
+const isLineTerminator = (ch: string) => ch === '\n' || ch === '\r' || ch === '\u2028' || ch === '\u2029';
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+const isRelaxedWhitespace = (ch: string) => isWhitespace(ch) || ch === '\v' || ch === '\f' || ch === '\u00A0' || ch === '\uFEFF' || ch === '\u2028' || ch === '\u2029';
+
+// Explains why a number-like token is not valid JSON
+const numberHint = (text: string): string => {
+  const unsigned = text.replace(/^[-+]/, '');
+  if (text.startsWith('+')) return "JSON numbers cannot start with '+'; remove it";
+  if (/^0[xX]/.test(unsigned)) return 'Hexadecimal numbers are not allowed in JSON; write it in decimal';
+  if (unsigned === 'Infinity' || unsigned === 'NaN') return 'NaN and Infinity are not valid JSON; use null or a string instead';
+  if (/^0\d/.test(unsigned)) return 'Numbers cannot have leading zeros';
+  if (unsigned.startsWith('.')) return "Add a 0 before the decimal point, e.g. 0.5";
+  if (/\.(?:[eE]|$)/.test(unsigned)) return 'Add digits after the decimal point or remove it';
+  return 'Check the number for stray characters';
+};
+
+export const findSyntaxProblems = (text: string, options: ParseOptions = {}): SyntaxProblem[] => {
+  const relaxed = !!options.relaxed;
+  const problems: SyntaxProblem[] = [];
+  let pos = 0;
+
+  const report = (message: string, hint: string, offset: number, length: number) => {
+    if (problems.length < MAX_PROBLEMS) problems.push({ message, hint, offset, length: Math.max(length, 1) });
+  };
+
+  // --- Lexer ---
+
+  const skipTrivia = () => {
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (relaxed ? isRelaxedWhitespace(ch) : isWhitespace(ch)) {
+        pos++;
+      } else if (ch === '/' && (text[pos + 1] === '/' || text[pos + 1] === '*')) {
+        const start = pos;
+        if (text[pos + 1] === '/') {
+          while (pos < text.length && !isLineTerminator(text[pos])) pos++;
+        } else {
+          const end = text.indexOf('*/', pos + 2);
+          if (end === -1) {
+            report('Unterminated comment', "Close the comment with '*/'", start, 2);
+            pos = text.length;
+            break;
+          }
+          pos = end + 2;
+        }
+        if (!relaxed) report('Comments are not allowed in JSON', 'Remove the comment, or turn on JSON5 mode', start, pos - start);
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = (): Token => {
+    const start = pos;
+    const quote = text[pos];
+    if (quote === "'" && !relaxed) {
+      report('Strings must use double quotes', 'Replace the single quotes with double quotes, or turn on JSON5 mode', start, 1);
+    }
+    pos++;
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === quote) {
+        pos++;
+        return { type: 'string', offset: start, length: pos - start, text: text.slice(start, pos) };
+      }
+      if (ch === '\n' || ch === '\r') {
+        // Recover at the end of the line so the next lines are still checked
+        report('Unterminated string', `Add the closing ${quote} before the end of the line`, start, pos - start);
+        return { type: 'string', offset: start, length: pos - start, text: text.slice(start, pos) };
+      }
+      if (ch === '\\') {
+        const next = text[pos + 1];
+        const valid = next === 'u'
+          ? /^[0-9a-fA-F]{4}$/.test(text.substr(pos + 2, 4))
+          : relaxed
+            ? next !== undefined && !/[1-9]/.test(next) && (next !== 'x' || /^[0-9a-fA-F]{2}$/.test(text.substr(pos + 2, 2)))
+            : next !== undefined && '"\\/bfnrt'.includes(next);
+        if (!valid) {
+          report(`Invalid escape sequence '\\${next ?? ''}'`, next === 'u'
+            ? 'A \\u escape needs exactly four hex digits'
+            : 'Valid escapes are \\" \\\\ \\/ \\b \\f \\n \\r \\t and \\uXXXX; write a literal backslash as \\\\', pos, 2);
+        }
+        // A JSON5 line continuation may end in \r\n
+        pos += next === '\r' && text[pos + 2] === '\n' ? 3 : 2;
+        continue;
+      }
+      if (!relaxed && ch < ' ') {
+        report('Unescaped control character in string', ch === '\t' ? 'Write tabs as \\t' : 'Escape it, e.g. \\n for a line break', pos, 1);
+      }
+      pos++;
+    }
+    report('Unterminated string', `Add the closing ${quote}`, start, pos - start);
+    return { type: 'string', offset: start, length: pos - start, text: text.slice(start, pos) };
+  };
+
+  // Numbers and bare words share one scanner: a run of word characters, with a signed exponent allowed
+  const readWord = (): Token => {
+    const start = pos;
+    if (text[pos] === '-' || text[pos] === '+') pos++;
+    while (pos < text.length && /[\w.$\u0080-\uFFFF]/.test(text[pos]) && !isRelaxedWhitespace(text[pos])) {
+      if ((text[pos] === 'e' || text[pos] === 'E') && (text[pos + 1] === '-' || text[pos + 1] === '+') && /^[-+]?[\d.]/.test(text.slice(start, pos))) pos++;
+      pos++;
+    }
+    const word = text.slice(start, pos);
+    const isNumeric = /^[-+]?(?:[\d.]|Infinity$|NaN$)/.test(word);
+    return { type: isNumeric ? 'number' : 'word', offset: start, length: pos - start, text: word };
+  };
+
+  const nextToken = (): Token => {
+    skipTrivia();
+    if (pos >= text.length) return { type: 'eof', offset: text.length, length: 0, text: '' };
+    const ch = text[pos];
+    if ('{}[]:,'.includes(ch)) {
+      pos++;
+      return { type: ch as TokenType, offset: pos - 1, length: 1, text: ch };
+    }
+    if (ch === '"' || ch === "'") return readString();
+    if (/[\w.$+\-\u0080-\uFFFF]/.test(ch)) {
+      const token = readWord();
+      if (token.length > 0) return token;
+    }
+    pos++;
+    return { type: 'invalid', offset: pos - 1, length: 1, text: ch };
+  };
+
+  let token = nextToken();
+  const advance = () => {
+    token = nextToken();
+  };
+  // A call rather than a comparison, so TypeScript does not narrow `token` across advance()
+  const at = (type: TokenType) => token.type === type;
+
+  // --- Parser with recovery ---
+
+  const isValueStart = (t: Token) => t.type === '{' || t.type === '[' || t.type === 'string' || t.type === 'number' || t.type === 'word';
+
+  const checkNumber = (t: Token) => {
+    if ((relaxed ? RELAXED_NUMBER : STRICT_NUMBER).test(t.text)) return;
+    report(`Invalid number '${t.text}'`, numberHint(t.text), t.offset, t.length);
+  };
+
+  const checkWord = (t: Token) => {
+    if (t.text === 'true' || t.text === 'false' || t.text === 'null') return;
+    if (FOREIGN_LITERALS[t.text]) {
+      report(`Unknown literal '${t.text}'`, `Use ${FOREIGN_LITERALS[t.text]} (JSON literals are lowercase)`, t.offset, t.length);
+    } else {
+      report(`Unexpected word '${t.text}'`, `Strings must be wrapped in double quotes, e.g. "${t.text}"`, t.offset, t.length);
+    }
+  };
+
+  const parseValue = () => {
+    switch (token.type) {
+      case '{': parseContainer('{', '}'); return;
+      case '[': parseContainer('[', ']'); return;
+      case 'string': advance(); return;
+      case 'number': checkNumber(token); advance(); return;
+      case 'word': {
+        const first = token;
+        let end = first.offset + first.length;
+        advance();
+        // An unquoted phrase such as `hello world` is one bad value, not several
+        if (!['true', 'false', 'null'].includes(first.text)) {
+          while (token.type === 'word' && !/[\r\n]/.test(text.slice(end, token.offset))) {
+            end = token.offset + token.length;
+            advance();
+          }
+        }
+        checkWord({ ...first, length: end - first.offset, text: text.slice(first.offset, end) });
+        return;
+      }
+      case 'eof':
+        report('Unexpected end of document', 'The document is incomplete; add the missing value', token.offset, 0);
+        return;
+      default:
+        report(`Expected a value but found '${token.text}'`, 'Values are objects, arrays, strings, numbers, true, false or null', token.offset, token.length);
+        // Leave separators and closing brackets for the container to deal with
+        if (token.type !== ',' && token.type !== '}' && token.type !== ']') advance();
+    }
+  };
+
+  const parseKey = (): boolean => {
+    if (token.type === 'string') {
+      advance();
+      return true;
+    }
+    if (token.type === 'word' || token.type === 'number') {
+      if (!relaxed || !IDENTIFIER.test(token.text)) {
+        report('Property names must be double-quoted strings', `Wrap the name in quotes: "${token.text}"${relaxed ? '' : ', or turn on JSON5 mode'}`, token.offset, token.length);
+      }
+      advance();
+      return true;
+    }
+    report(`Expected a property name but found '${token.text || 'end of document'}'`, 'Each entry in an object looks like "name": value', token.offset, token.length);
+    return false;
+  };
+
+  // Closing brackets the enclosing containers are waiting for, innermost last
+  const expectedClosers: string[] = [];
+
+  const parseContainer = (open: '{' | '[', close: '}' | ']') => {
+    expectedClosers.push(close);
+    parseEntries(open, close);
+    expectedClosers.pop();
+  };
+
+  const parseEntries = (open: '{' | '[', close: '}' | ']') => {
+    const openToken = token;
+    const isObject = open === '{';
+    const noun = isObject ? 'properties' : 'items';
+    advance();
+
+    while (true) {
+      if (at(close)) {
+        advance();
+        return;
+      }
+      if (at('eof')) {
+        report(`'${open}' is never closed`, `Add a matching '${close}'`, openToken.offset, 1);
+        return;
+      }
+      if (at('}') || at(']')) {
+        report(`Expected '${close}' but found '${token.text}'`, `This bracket does not match the '${open}' it closes; use '${close}'`, token.offset, 1);
+        // Leave it for an outer container that is waiting for exactly this bracket
+        if (!expectedClosers.slice(0, -1).includes(token.type)) advance();
+        return;
+      }
+      if (at(',')) {
+        report('Unexpected comma', 'Remove the extra comma', token.offset, 1);
+        advance();
+        continue;
+      }
+
+      if (isObject) {
+        if (!parseKey()) {
+          advance();
+          continue;
+        }
+        if (at(':')) {
+          advance();
+        } else {
+          report("Expected ':' after property name", "Separate the name and the value with ':'", token.offset, token.length);
+          // Skip a wrong separator such as '='
+          if (at('invalid')) advance();
+        }
+        if (at(',') || at('}') || at(']') || at('eof')) {
+          report('Missing value', 'Add a value after the colon', token.offset, token.length);
+        } else {
+          parseValue();
+        }
+      } else {
+        parseValue();
+      }
+
+      // Separator
+      if (at(',')) {
+        const comma = token;
+        advance();
+        if (at(close) && !relaxed) {
+          report('Trailing comma', `Remove the comma after the last ${isObject ? 'property' : 'item'}`, comma.offset, 1);
+        }
+      } else if (isValueStart(token)) {
+        report(`Missing comma between ${noun}`, "Add a ',' before this", token.offset, token.length);
+      } else if (at('invalid')) {
+        report(`Unexpected character '${token.text}'`, `Separate ${noun} with ','`, token.offset, 1);
+        advance();
+      }
+    }
+  };
+
+  skipTrivia();
+  if (pos >= text.length) return problems;
+
+  parseValue();
+  while (token.type !== 'eof' && problems.length < MAX_PROBLEMS) {
+    if (token.type === '}' || token.type === ']') {
+      report(`Unmatched '${token.text}'`, 'Remove it, or add the opening bracket it belongs to', token.offset, 1);
+    } else {
+      report('Unexpected content after the end of the document', 'A JSON document holds a single value; wrap multiple values in an array', token.offset, token.length);
+      break;
+    }
+    advance();
+  }
+  return problems.sort((a, b) => a.offset - b.offset);
+};
+
+/**
+ * Syntax problems as editor diagnostics. Valid documents take the fast path
+ * and never reach the tolerant scanner.
+ */
+export const getSyntaxDiagnostics = (text: string, options: ParseOptions = {}): Diagnostic[] => {
+  if (!text.trim()) return [];
+  try {
+    if (options.relaxed) parseTree(text, options);
+    else JSON.parse(text);
+    return [];
+  } catch (e) {
+    // Fall through to the detailed scan
+  }
+
+  let problems: SyntaxProblem[] = [];
+  try {
+    problems = findSyntaxProblems(text, options);
+  } catch (e) {
+    // Absurdly deep nesting can exhaust the stack; fall back to the generic problem below
+  }
+  // The regular parser rejected the text, so never report it as clean
+  if (problems.length === 0) {
+    problems.push({ message: 'Invalid JSON', hint: 'The document could not be parsed', offset: 0, length: 1 });
+  }
+
+  const toPosition = createPositionMapper(text);
+  return problems.map(problem => ({
+    source: 'syntax',
+    severity: 'error',
+    message: problem.message,
+    hint: problem.hint,
+    ...offsetsToRange(toPosition, problem.offset, problem.offset + problem.length),
+  }));
+};
+
+// One-line summary for banners, e.g. "Missing comma between properties (line 3, column 5)"
+export const describeDiagnostic = (diagnostic: Diagnostic): string => {
+  return `${diagnostic.message} (line ${diagnostic.startLineNumber}, column ${diagnostic.startColumn})`;
+};
@@ -0,0 +1,55 @@
+import { parse, stringify, TomlError } from 'smol-toml';
+import { isLosslessNumber, stringifyLossless, toBigIntOrNumber } from './lossless';
+import { formatPath } from './utils';
+
+/**
+ * TOML <-> JSON with explicit type rules:
+ *
+ * - Dotted keys and [a.b] tables become nested objects.
+ * - Datetimes become ISO 8601 strings with millisecond precision: offset
+ *   datetimes keep their offset, local dates and times stay local
+ *   (07:32:00 becomes "07:32:00.000", 1979-05-27 stays "1979-05-27").
+ * - Integers keep every digit; inf and nan have no JSON form and become null.
+ *
+ * On export, JSON strings are always written as TOML strings (a date-like
+ * string is not turned into a datetime), and null is rejected because TOML
+ * has no null.
+ */
+
+export const tomlToJson = (text: string, indentation: number | string): string => {
+  let value;
+  try {
+    value = parse(text, { integersAsBigInt: 'asNeeded' });
+  } catch (e) {
+    if (e instanceof TomlError) {
+      const message = e.message.split('\n')[0].replace(/^Invalid TOML document: /, '');
+      throw new Error(`Invalid TOML: ${message} (line ${e.line}, column ${e.column})`);
+    }
+    throw e;
+  }
+  return stringifyLossless(value, indentation);
+};
+
+// Rejects what TOML cannot hold and converts LosslessNumbers on the way
+const toTomlValue = (value: any, path: (string | number)[]): any => {
+  if (value === null || value === undefined) {
+    throw new Error(`TOML has no null value; remove or replace ${formatPath(path)}`);
+  }
+  if (isLosslessNumber(value)) return toBigIntOrNumber(value);
+  if (Array.isArray(value)) return value.map((item, i) => toTomlValue(item, [...path, i]));
+  if (typeof value === 'object') {
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = toTomlValue(value[key], [...path, key]);
+    });
+    return result;
+  }
+  return value;
+};
+
+export const jsonToToml = (value: any): string => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value) || isLosslessNumber(value)) {
+    throw new Error('A TOML document must be an object at the top level');
+  }
+  return stringify(toTomlValue(value, []));
+};
@@ -0,0 +1,58 @@
+import { Shape, inferShape, collectObjects, countKinds, isOptionalField, toPascalCase } from './inferShape';
+
+/**
+ * Generates TypeScript declarations from a document. Objects become named
+ * interfaces (or type aliases), array elements are merged into one type,
+ * keys missing from some elements are optional and null becomes `| null`.
+ */
+
+export type TypeScriptStyle = 'interface' | 'type';
+
+export interface TypeScriptOptions {
+  style: TypeScriptStyle;
+  rootName: string;
+}
+
+export const DEFAULT_TYPESCRIPT_OPTIONS: TypeScriptOptions = { style: 'interface', rootName: 'Root' };
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+const formatKey = (key: string) => (IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key));
+
+export const generateTypeScript = (value: any, options: TypeScriptOptions = DEFAULT_TYPESCRIPT_OPTIONS): string => {
+  const root = inferShape(value);
+  const { objects, names } = collectObjects(root, options.rootName, toPascalCase);
+
+  const renderType = (shape: Shape): string => {
+    const parts: string[] = [];
+    if (shape.primitives.has('string')) parts.push('string');
+    if (shape.primitives.has('integer') || shape.primitives.has('number')) parts.push('number');
+    if (shape.primitives.has('boolean')) parts.push('boolean');
+    if (shape.object) parts.push(names.get(shape.object)!);
+    if (shape.array) {
+      const item = renderType(shape.array);
+      parts.push(countKinds(shape.array) + (shape.array.nullable ? 1 : 0) > 1 ? `(${item})[]` : `${item}[]`);
+    }
+    // Only nulls (or an empty array) were seen here, so nothing is known about the type
+    if (parts.length === 0) return shape.nullable ? 'null' : 'unknown';
+    if (shape.nullable) parts.push('null');
+    return parts.join(' | ');
+  };
+
+  const blocks = objects.map(({ name, object }) => {
+    const fields = Array.from(object.fields.entries()).map(([key, field]) => {
+      return `  ${formatKey(key)}${isOptionalField(object, field) ? '?' : ''}: ${renderType(field)};`;
+    });
+    const body = fields.length > 0 ? `{\n${fields.join('\n')}\n}` : '{}';
+    return options.style === 'interface' ? `export interface ${name} ${body}` : `export type ${name} = ${body};`;
+  });
+
+  // A root that is not a plain object (an array of records, a primitive) gets its own alias
+  const rootName = objects.length > 0 && objects[0].object === root.object ? objects[0].name : null;
+  if (rootName === null || countKinds(root) > 1 || root.nullable) {
+    const aliasName = rootName === null ? toPascalCase(options.rootName) || 'Root' : `${rootName}Value`;
+    blocks.unshift(`export type ${aliasName} = ${renderType(root)};`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+};
@@ -0,0 +1,63 @@
+/**
+ * Undo/redo for whole-document operations (Prettify, Minify, Clear, Import,
+ * transforms...). Monaco's own undo stack only covers typing in the active
+ * editor, so every operation that replaces the document goes through here.
+ *
+ * Stacks are immutable; every function returns a new one.
+ */
+
+export interface UndoEntry {
+  id: string;
+  // Human readable name of the operation, e.g. 'Minify'
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface UndoStack {
+  past: UndoEntry[];
+  future: UndoEntry[];
+}
+
+// Each entry keeps two full copies of the document, so the depth is capped
+const MAX_ENTRIES = 50;
+
+export const EMPTY_UNDO_STACK: UndoStack = { past: [], future: [] };
+
+export const pushUndoEntry = (stack: UndoStack, label: string, before: string, after: string): { stack: UndoStack; entry: UndoEntry } => {
+  const entry: UndoEntry = { id: Math.random().toString(36).substring(2, 10), label, before, after };
+  return {
+    stack: { past: [...stack.past, entry].slice(-MAX_ENTRIES), future: [] },
+    entry,
+  };
+};
+
+/**
+ * Steps back over the latest operation. `current` is the document as it is
+ * now, which may include edits typed after the operation; redo brings those back.
+ */
+export const undoEntry = (stack: UndoStack, current: string): { stack: UndoStack; entry: UndoEntry; content: string } | null => {
+  const entry = stack.past[stack.past.length - 1];
+  if (!entry) return null;
+  return {
+    stack: {
+      past: stack.past.slice(0, -1),
+      future: [...stack.future, { ...entry, after: current }],
+    },
+    entry,
+    content: entry.before,
+  };
+};
+
+export const redoEntry = (stack: UndoStack, current: string): { stack: UndoStack; entry: UndoEntry; content: string } | null => {
+  const entry = stack.future[stack.future.length - 1];
+  if (!entry) return null;
+  return {
+    stack: {
+      past: [...stack.past, { ...entry, before: current }],
+      future: stack.future.slice(0, -1),
+    },
+    entry,
+    content: entry.after,
+  };
+};
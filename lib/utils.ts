@@ -42,8 +42,27 @@ export const isValidJson = (text: string): boolean => {
   }
 };
 
-export const downloadFile = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'application/json' });
+// Helper to generate safe property paths, e.g. $.users[0]["first name"]
+export const getChildPath = (parentPath: string, key: string, parentType: string) => {
+  if (parentType === 'array') return `${parentPath}[${key}]`;
+  // Check if key is a valid identifier
+  if (/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)) {
+    return `${parentPath}.${key}`;
+  }
+  // Safe bracket notation with escaping
+  return `${parentPath}["${key.replace(/"/g, '\\"')}"]`;
+};
+
+// Builds the same $-style path from a list of segments (numbers are array indexes)
+export const formatPath = (segments: (string | number)[]): string => {
+  return segments.reduce<string>(
+    (path, segment) => getChildPath(path, String(segment), typeof segment === 'number' ? 'array' : 'object'),
+    '$'
+  );
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string = 'application/json') => {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
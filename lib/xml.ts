@@ -0,0 +1,153 @@
+import { isLosslessNumber } from './lossless';
+
+/**
+ * XML <-> JSON. Two mappings are supported:
+ *
+ * - attributes: attributes become "@name" keys and text becomes "#text", but
+ *   elements holding only text collapse to a plain value. Compact and the
+ *   usual choice for data.
+ * - badgerfish: every element is an object, text is always "$" and
+ *   attributes are "@name". Verbose but lossless and predictable.
+ *
+ * Repeated child elements become arrays in both. XML is parsed with the
+ * browser's DOMParser, so entities, CDATA and namespaces behave as usual.
+ */
+
+export type XmlConvention = 'attributes' | 'badgerfish';
+
+export interface XmlOptions {
+  convention: XmlConvention;
+  // Turn "42" and "true" into numbers and booleans (attributes convention only)
+  inferTypes: boolean;
+}
+
+export const XML_CONVENTIONS: { id: XmlConvention; label: string; example: string }[] = [
+  { id: 'attributes', label: '@attr / #text', example: '{ "book": { "@id": "1", "#text": "Dune" } }' },
+  { id: 'badgerfish', label: 'BadgerFish', example: '{ "book": { "@id": "1", "$": "Dune" } }' },
+];
+
+export const DEFAULT_XML_OPTIONS: XmlOptions = { convention: 'attributes', inferTypes: false };
+
+const TEXT_KEY: Record<XmlConvention, string> = { attributes: '#text', badgerfish: '$' };
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+const inferValue = (text: string): any => {
+  if (text === 'true' || text === 'false') return text === 'true';
+  // Only numbers that survive the round trip, so IDs like 12345678901234567890 stay strings
+  if (NUMBER_PATTERN.test(text) && String(Number(text)) === text) return Number(text);
+  return text;
+};
+
+const addChild = (target: Record<string, any>, name: string, value: any) => {
+  if (!Object.prototype.hasOwnProperty.call(target, name)) target[name] = value;
+  else if (Array.isArray(target[name])) target[name].push(value);
+  else target[name] = [target[name], value];
+};
+
+const convertElement = (element: Element, options: XmlOptions): any => {
+  // Null prototype, so elements named __proto__ or constructor are ordinary keys
+  const result: Record<string, any> = Object.create(null);
+  const readText = (text: string) => (options.convention === 'attributes' && options.inferTypes ? inferValue(text) : text);
+
+  Array.from(element.attributes).forEach(attr => {
+    result[`@${attr.name}`] = readText(attr.value);
+  });
+
+  let text = '';
+  let hasElements = false;
+  Array.from(element.childNodes).forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      hasElements = true;
+      addChild(result, node.nodeName, convertElement(node as Element, options));
+    } else if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      text += node.nodeValue || '';
+    }
+  });
+
+  // Whitespace between child elements is layout, not content
+  const trimmed = text.trim();
+  if (options.convention === 'attributes' && !hasElements && element.attributes.length === 0) {
+    return trimmed === '' ? null : readText(trimmed);
+  }
+  if (trimmed !== '') result[TEXT_KEY[options.convention]] = readText(trimmed);
+  return result;
+};
+
+/**
+ * Converts an XML document to JSON text. Throws an Error with the parser's
+ * message when the XML is not well-formed.
+ */
+export const xmlToJson = (text: string, options: XmlOptions, indentation: number | string): string => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    // Browsers wrap the message in boilerplate; the first meaningful line is enough
+    const message = (parserError.textContent || '').split('\n').map(line => line.trim()).find(Boolean);
+    throw new Error(`Invalid XML: ${message || 'the document is not well-formed'}`);
+  }
+  const root = doc.documentElement;
+  return JSON.stringify({ [root.nodeName]: convertElement(root, options) }, null, indentation);
+};
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// JSON keys can be anything; element names cannot start with a digit or contain spaces
+const toElementName = (key: string) => {
+  const name = key.replace(/[^\w.:-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+};
+
+// Big numbers are scalars; String() gives their digits as written
+const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+/**
+ * Converts a JSON value to an XML document. An object with a single key maps
+ * to that root element; anything else is wrapped in <root>.
+ */
+export const jsonToXml = (value: any, options: XmlOptions, indentation: number | string): string => {
+  const indentUnit = typeof indentation === 'number' ? ' '.repeat(indentation) : indentation;
+  const textKey = TEXT_KEY[options.convention];
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+
+  const writeElement = (name: string, node: any, depth: number) => {
+    const pad = indentUnit.repeat(depth);
+    const tag = toElementName(name);
+    if (Array.isArray(node)) {
+      // Arrays repeat the element; nested arrays get <item> wrappers
+      node.forEach(item => (Array.isArray(item) ? writeElement(tag, { item }, depth) : writeElement(tag, item, depth)));
+      return;
+    }
+    if (!isObject(node)) {
+      if (node === null || node === undefined) lines.push(`${pad}<${tag}/>`);
+      else lines.push(`${pad}<${tag}>${escapeXml(String(node))}</${tag}>`);
+      return;
+    }
+
+    const keys = Object.keys(node);
+    const attributes = keys
+      .filter(key => key.startsWith('@'))
+      .map(key => ` ${toElementName(key.slice(1))}="${escapeXml(String(node[key] ?? ''))}"`)
+      .join('');
+    const children = keys.filter(key => !key.startsWith('@') && key !== textKey);
+    const text = node[textKey] !== undefined && node[textKey] !== null ? escapeXml(String(node[textKey])) : '';
+
+    if (children.length === 0) {
+      lines.push(text ? `${pad}<${tag}${attributes}>${text}</${tag}>` : `${pad}<${tag}${attributes}/>`);
+      return;
+    }
+    lines.push(`${pad}<${tag}${attributes}>`);
+    if (text) lines.push(`${pad}${indentUnit}${text}`);
+    children.forEach(key => writeElement(key, node[key], depth + 1));
+    lines.push(`${pad}</${tag}>`);
+  };
+
+  const keys = isObject(value) ? Object.keys(value) : [];
+  if (keys.length === 1 && !keys[0].startsWith('@') && !Array.isArray(value[keys[0]])) writeElement(keys[0], value[keys[0]], 0);
+  else writeElement('root', Array.isArray(value) ? { item: value } : value, 0);
+  return lines.join('\n') + '\n';
+};
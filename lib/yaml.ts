@@ -0,0 +1,43 @@
+import { parseAllDocuments, stringify, isScalar, Document } from 'yaml';
+import { isLosslessNumber, stringifyLossless, toBigIntOrNumber } from './lossless';
+
+/**
+ * YAML <-> JSON. Anchors, aliases and `<<` merge keys are expanded on import.
+ * Integers too big for a double are kept digit for digit in both directions.
+ */
+
+export const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+const firstLine = (message: string) => message.split('\n')[0].replace(/:$/, '');
+
+// Nothing after the "---" (an explicit null is written "null" or "~" and has a source)
+const isEmptyDocument = (doc: Document) =>
+  doc.errors.length === 0 && (doc.contents === null || (isScalar(doc.contents) && doc.contents.value === null && doc.contents.source === ''));
+
+export const yamlToJson = (text: string, indentation: number | string): string => {
+  const docs = Array.from(parseAllDocuments(text, { intAsBigInt: true, merge: true }));
+  // kubectl and Helm end files with "---", which opens an empty document
+  while (docs.length > 1 && isEmptyDocument(docs[docs.length - 1])) docs.pop();
+  if (docs.length === 0) throw new Error('The YAML file is empty');
+  if (docs.length > 1) {
+    throw new Error(`The file contains ${docs.length} YAML documents separated by "---". Split it and import one document at a time.`);
+  }
+  const [doc] = docs;
+  if (doc.errors.length > 0) throw new Error(`Invalid YAML: ${firstLine(doc.errors[0].message)}`);
+
+  return stringifyLossless(doc.toJS({ maxAliasCount: 10000 }), indentation);
+};
+
+// The YAML writer prints BigInts as plain integers
+const toYamlValue = (_key: unknown, value: any) => (isLosslessNumber(value) ? toBigIntOrNumber(value) : value);
+
+/**
+ * Writes a value as YAML. With `multiDocument`, each element of the array
+ * becomes its own document, which is how NDJSON records are exported.
+ */
+export const jsonToYaml = (value: any, multiDocument: boolean = false): string => {
+  if (multiDocument && Array.isArray(value)) {
+    return value.map(item => stringify(item, toYamlValue)).join('---\n');
+  }
+  return stringify(value, toYamlValue);
+};
@@ -1,9 +1,16 @@
 export type ToastType = 'success' | 'error' | 'info';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface ToastMessage {
   id: string;
   type: ToastType;
   message: string;
+  // Optional button shown next to the message, e.g. "Undo"
+  action?: ToastAction;
 }
 
 export interface EditorStats {
@@ -11,3 +18,59 @@ export interface EditorStats {
   lines: number;
   size: string;
 }
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  source: 'schema' | 'syntax' | 'precision';
+  severity: DiagnosticSeverity;
+  message: string;
+  // Plain-English suggestion for fixing the problem
+  hint?: string;
+  // $-style path of the offending value, e.g. $.users[0].email
+  path?: string;
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+export interface AttachedSchema {
+  name: string;
+  schema: Record<string, any> | boolean;
+}
+
+export type ViewMode = 'code' | 'graph' | 'table' | 'diff';
+
+export interface DocumentTab {
+  id: string;
+  name: string;
+  content: string;
+  viewMode: ViewMode;
+  indentation: number | string;
+  searchTerm: string;
+  // Drill-down location in the Table view
+  tablePath: (string | number)[];
+  // Accept JSON5 / JSONC (comments, trailing commas, single quotes...)
+  relaxed: boolean;
+  // NDJSON / JSON Lines: one value per line
+  ndjson: boolean;
+}
+
+export interface Workspace {
+  tabs: DocumentTab[];
+  activeTabId: string;
+}
+
+// Why a snapshot was taken. 'auto' ones are taken periodically while editing.
+export type SnapshotReason = 'auto' | 'clear' | 'minify' | 'format' | 'import' | 'restore';
+
+export interface Snapshot {
+  id: string;
+  // The tab the snapshot belongs to; the tab may have been closed since
+  tabId: string;
+  tabName: string;
+  content: string;
+  reason: SnapshotReason;
+  createdAt: number;
+}